@@ -0,0 +1,22 @@
+import SentimentAnalyzer from '../components/SentimentAnalyzer';
+import BulkSentimentUploader from '../components/BulkSentimentUploader';
+import Navigation from '../components/Navigation';
+
+export default function AnalyzePage() {
+    return (
+        <div className="min-h-screen flex flex-col bg-neutral-900">
+            <Navigation />
+            <div className="flex-1 p-4">
+                <div className="max-w-5xl mx-auto w-full flex flex-col">
+                    <h1 className="text-3xl font-bold mb-4 text-center text-white flex-shrink-0">
+                        Post Sentiment Workspace
+                    </h1>
+                    <div className="flex-1 space-y-6">
+                        <SentimentAnalyzer />
+                        <BulkSentimentUploader />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LlmError, createChatCompletion, isLlmEnabled } from '../../utils/llm';
+
+// long posts are cut so a single request can't run up the token bill
+const MAX_TEXT_LENGTH = 4000;
+
+const SYSTEM_PROMPT = `You are a financial sentiment classifier for news and retail investor posts (including WallStreetBets slang and emoji).
+Reply with only a JSON object of probabilities that sum to 1, for example {"positive": 0.7, "neutral": 0.2, "negative": 0.1}.
+Sentiment is about the outlook for the stock or company being discussed.`;
+
+/**
+ * Pull the probability object out of the reply, tolerating code fences or surrounding prose
+ */
+const parseProbabilities = (content: string) => {
+  const json = content.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json);
+    const values = ['positive', 'neutral', 'negative'].map(label => Math.max(0, Number(parsed[label]) || 0));
+    const total = values.reduce((sum, value) => sum + value, 0);
+    if (total === 0) return null;
+
+    return values.map(value => value / total);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Lets the browser leave the LLM out of model comparisons when it's off
+ */
+export async function GET() {
+  return NextResponse.json({ enabled: isLlmEnabled() });
+}
+
+export async function POST(request: NextRequest) {
+  let text: unknown;
+  try {
+    ({ text } = await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (typeof text !== 'string' || !text.trim()) {
+    return NextResponse.json({ error: 'text is required' }, { status: 400 });
+  }
+
+  try {
+    const { content, model } = await createChatCompletion([
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: text.trim().substring(0, MAX_TEXT_LENGTH) }
+    ], { maxTokens: 60 });
+
+    const probabilities = parseProbabilities(content);
+
+    if (!probabilities) {
+      return NextResponse.json({ error: 'LLM reply was not a probability object' }, { status: 502 });
+    }
+
+    // same shape as the FinBERT backend's /api/analyze
+    return NextResponse.json({
+      text,
+      predictions: [
+        { label: 'positive', score: probabilities[0] },
+        { label: 'neutral', score: probabilities[1] },
+        { label: 'negative', score: probabilities[2] }
+      ],
+      model,
+      source: 'openai-compatible'
+    });
+
+  } catch (error) {
+    if (error instanceof LlmError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error scoring sentiment with LLM:', error);
+    return NextResponse.json({ error: 'Failed to score sentiment with the LLM backend' }, { status: 500 });
+  }
+}
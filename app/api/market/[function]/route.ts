@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ALPHA_VANTAGE_FUNCTIONS,
+  MARKET_ERROR_STATUS,
+  MarketApiError,
+  MarketErrorBody,
+  detectAlphaVantageError,
+  getMarketCacheKey,
+  isAlphaVantageFunction
+} from '../../../utils/alphaVantage';
+import { ResponseCache } from '../../../utils/responseCache';
+
+// shared across requests handled by this server instance
+const marketCache = new ResponseCache(500);
+
+const errorResponse = (body: MarketErrorBody) =>
+  NextResponse.json(body, { status: MARKET_ERROR_STATUS[body.code] });
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ function: string }> }
+) {
+  const { function: requestedFunction } = await params;
+  const functionName = requestedFunction.toUpperCase();
+
+  if (!isAlphaVantageFunction(functionName)) {
+    return errorResponse({
+      error: `Unsupported market data function: ${requestedFunction}`,
+      code: 'UNSUPPORTED_FUNCTION'
+    });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const { required, optional, cache } = ALPHA_VANTAGE_FUNCTIONS[functionName];
+  const forwardedParams: Record<string, string> = {};
+
+  for (const name of required) {
+    const value = searchParams.get(name)?.trim();
+    if (!value) {
+      return errorResponse({
+        error: `${name} parameter is required for ${functionName}`,
+        code: 'MISSING_PARAMETER'
+      });
+    }
+    forwardedParams[name] = value;
+  }
+
+  for (const name of optional) {
+    const value = searchParams.get(name)?.trim();
+    if (value) {
+      forwardedParams[name] = value;
+    }
+  }
+
+  const ALPHA_VANTAGE_API_KEY = process.env.ALPHA_VANTAGE_API_KEY;
+
+  if (!ALPHA_VANTAGE_API_KEY) {
+    return errorResponse({
+      error: 'Alpha Vantage API key not configured. Please add ALPHA_VANTAGE_API_KEY to your .env.local file.',
+      code: 'NOT_CONFIGURED'
+    });
+  }
+
+  const query = new URLSearchParams({
+    function: functionName,
+    ...forwardedParams,
+    apikey: ALPHA_VANTAGE_API_KEY
+  });
+
+  const loadFromAlphaVantage = async () => {
+    const response = await fetch(`https://www.alphavantage.co/query?${query}`, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'MarketMaker/1.0'
+      }
+    });
+
+    if (!response.ok) {
+      throw new MarketApiError(
+        `Alpha Vantage error: ${response.status} ${response.statusText}`,
+        'UPSTREAM_ERROR',
+        MARKET_ERROR_STATUS.UPSTREAM_ERROR
+      );
+    }
+
+    const data = await response.json();
+    const upstreamError = detectAlphaVantageError(data);
+
+    // thrown so error payloads are never cached
+    if (upstreamError) {
+      throw new MarketApiError(upstreamError.error, upstreamError.code, MARKET_ERROR_STATUS[upstreamError.code]);
+    }
+
+    return data;
+  };
+
+  try {
+    const { value, status } = await marketCache.get(
+      getMarketCacheKey(functionName, forwardedParams),
+      loadFromAlphaVantage,
+      cache
+    );
+
+    return NextResponse.json(value, {
+      headers: { 'X-Cache': status.toUpperCase() }
+    });
+
+  } catch (error) {
+    if (error instanceof MarketApiError) {
+      return errorResponse({ error: error.message, code: error.code });
+    }
+
+    console.error(`Error fetching ${functionName} from Alpha Vantage:`, error);
+    return errorResponse({
+      error: 'Failed to fetch market data from Alpha Vantage. Please try again later.',
+      code: 'UPSTREAM_ERROR'
+    });
+  }
+}
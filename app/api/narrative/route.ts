@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { LlmError, createChatCompletion } from '../../utils/llm';
+import { NarrativeInput, narrativeSentences } from '../../utils/narrative';
+
+const SYSTEM_PROMPT = `You write short summaries of a stock for retail investors.
+Rewrite the facts you are given as one readable paragraph of at most five sentences.
+Use only those facts and numbers; do not add figures, forecasts or advice.`;
+
+export async function POST(request: NextRequest) {
+  let input: NarrativeInput;
+  try {
+    input = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (typeof input?.ticker !== 'string' || !input.ticker.trim() || typeof input.sentiment !== 'string') {
+    return NextResponse.json({ error: 'ticker and sentiment are required' }, { status: 400 });
+  }
+
+  try {
+    // the model only sees the same facts the template generator would print
+    const facts = narrativeSentences({ ...input, fundamentals: input.fundamentals || {} });
+
+    const { content, model } = await createChatCompletion([
+      { role: 'system', content: SYSTEM_PROMPT },
+      { role: 'user', content: facts.map(fact => `- ${fact}`).join('\n') }
+    ], { temperature: 0.3, maxTokens: 250 });
+
+    return NextResponse.json({ summary: content.trim(), model });
+
+  } catch (error) {
+    if (error instanceof LlmError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error generating narrative with LLM:', error);
+    return NextResponse.json({ error: 'Failed to generate the summary with the LLM backend' }, { status: 500 });
+  }
+}
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { ResponseCache } from '../../utils/responseCache';
+import { NEWS_CACHE_POLICY } from '../../utils/newsApi';
 
 interface NewsArticle {
   title: string;
@@ -16,6 +18,31 @@ interface NewsApiResponse {
   articles: NewsArticle[];
 }
 
+interface ArticleWithText extends NewsArticle {
+  /** Title and description, the text that gets scored */
+  text: string;
+}
+
+interface NewsPayload {
+  success: true;
+  articles: ArticleWithText[];
+}
+
+// keeps each article within the sentiment model's input size
+const MAX_ARTICLE_TEXT_LENGTH = 1000;
+
+/**
+ * Error with the HTTP status the route should answer with
+ */
+class NewsRouteError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'NewsRouteError';
+  }
+}
+
+const newsCache = new ResponseCache(200);
+
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
   const symbol = searchParams.get('symbol');
@@ -33,7 +60,7 @@ export async function GET(request: NextRequest) {
     }, { status: 500 });
   }
 
-  try {
+  const loadNews = async (): Promise<NewsPayload> => {
     const searchQuery = companyName || symbol;
     const params = new URLSearchParams({
       q: `${searchQuery} AND (earnings OR revenue OR financial OR quarterly OR stock OR shares)`,
@@ -54,24 +81,22 @@ export async function GET(request: NextRequest) {
     });
 
     if (!response.ok) {
-      return NextResponse.json({ 
-        error: `NewsAPI error: ${response.status} ${response.statusText}. Please check your API key and try again.` 
-      }, { status: response.status });
+      throw new NewsRouteError(
+        `NewsAPI error: ${response.status} ${response.statusText}. Please check your API key and try again.`,
+        response.status
+      );
     }
 
     const data: NewsApiResponse = await response.json();
     
     if (data.status !== 'ok') {
-      return NextResponse.json({ 
-        error: `NewsAPI returned error: ${data.status}` 
-      }, { status: 500 });
+      throw new NewsRouteError(`NewsAPI returned error: ${data.status}`, 500);
     }
 
-    // Extract meaningful text from articles
-    const articleTexts: string[] = [];
-    const validArticles: NewsArticle[] = [];
+    // each article is scored on its own, so keep its text alongside it
+    const validArticles: ArticleWithText[] = [];
 
-    for (const article of data.articles.slice(0, 3)) {
+    for (const article of data.articles) {
       const title = article.title?.trim();
       const description = article.description?.trim();
       
@@ -79,38 +104,47 @@ export async function GET(request: NextRequest) {
           !title.toLowerCase().includes('removed') &&
           !description.toLowerCase().includes('removed')) {
         
-        articleTexts.push(`${title}. ${description}`);
-        validArticles.push(article);
+        const text = `${title}. ${description}`;
+        validArticles.push({
+          ...article,
+          text: text.length > MAX_ARTICLE_TEXT_LENGTH
+            ? text.substring(0, MAX_ARTICLE_TEXT_LENGTH) + '...'
+            : text
+        });
       }
     }
 
-    if (articleTexts.length === 0) {
-      return NextResponse.json({ 
-        error: `No recent financial news found for ${symbol}. Try a different stock symbol or check back later.` 
-      }, { status: 404 });
+    if (validArticles.length === 0) {
+      throw new NewsRouteError(
+        `No recent financial news found for ${symbol}. Try a different stock symbol or check back later.`,
+        404
+      );
     }
 
-    // Combine all article textes
-    const combinedText = articleTexts.join(' ');
-    
-    // Ensure text isn't too long
-    const maxLength = 2000;
-    const finalText = combinedText.length > maxLength 
-      ? combinedText.substring(0, maxLength) + '...'
-      : combinedText;
-
     console.log(`Found ${validArticles.length} articles for ${symbol}`);
 
-    return NextResponse.json({
+    return {
       success: true,
-      text: finalText,
       articles: validArticles
+    };
+  };
+
+  try {
+    const cacheKey = `${symbol.toUpperCase()}|${companyName || ''}`;
+    const { value, status } = await newsCache.get(cacheKey, loadNews, NEWS_CACHE_POLICY);
+
+    return NextResponse.json(value, {
+      headers: { 'X-Cache': status.toUpperCase() }
     });
 
   } catch (error) {
+    if (error instanceof NewsRouteError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     console.error('Error fetching stock news:', error);
     return NextResponse.json({ 
       error: 'Failed to fetch news from NewsAPI. Please try again later.' 
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
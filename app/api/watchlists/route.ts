@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { sanitizeWatchlists } from '../../utils/watchlists';
+
+/**
+ * Server copy of the watchlists, stored as one JSON file at WATCHLISTS_FILE.
+ * Without it the route answers 501 and the browser keeps lists in localStorage only.
+ * There is no per-user separation: meant for a single-user or team deployment.
+ */
+const getStoragePath = () => process.env.WATCHLISTS_FILE;
+
+const notConfigured = () => NextResponse.json(
+  { error: 'Server watchlists not configured. Set WATCHLISTS_FILE to keep watchlists on the server.' },
+  { status: 501 }
+);
+
+export async function GET() {
+  const storagePath = getStoragePath();
+  if (!storagePath) return notConfigured();
+
+  try {
+    const stored = sanitizeWatchlists(JSON.parse(await readFile(storagePath, 'utf8')));
+    return NextResponse.json(stored || { lists: [], updatedAt: 0 });
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') {
+      return NextResponse.json({ lists: [], updatedAt: 0 });
+    }
+
+    console.error('Error reading watchlists:', error);
+    return NextResponse.json({ error: 'Failed to read watchlists' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  const storagePath = getStoragePath();
+  if (!storagePath) return notConfigured();
+
+  let document;
+  try {
+    document = sanitizeWatchlists(await request.json());
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 });
+  }
+
+  if (!document) {
+    return NextResponse.json({ error: 'lists is required' }, { status: 400 });
+  }
+
+  try {
+    await mkdir(path.dirname(storagePath), { recursive: true });
+    await writeFile(storagePath, JSON.stringify(document));
+    return NextResponse.json(document);
+  } catch (error) {
+    console.error('Error saving watchlists:', error);
+    return NextResponse.json({ error: 'Failed to save watchlists' }, { status: 500 });
+  }
+}
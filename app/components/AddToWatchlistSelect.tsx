@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Watchlist, watchlists } from '../utils/watchlists';
+
+interface AddToWatchlistSelectProps {
+    ticker: string;
+}
+
+const NEW_LIST = '__new__';
+
+/**
+ * Compact picker that adds a ticker to a watchlist, or to a new one
+ */
+export default function AddToWatchlistSelect({ ticker }: AddToWatchlistSelectProps) {
+    const [lists, setLists] = useState<Watchlist[]>([]);
+
+    // read storage after mount, localStorage isn't available during SSR
+    useEffect(() => {
+        setLists(watchlists.getLists());
+        return watchlists.subscribe(setLists);
+    }, []);
+
+    const handleChange = (value: string) => {
+        const id = value === NEW_LIST ? watchlists.create(`Watchlist ${lists.length + 1}`).id : value;
+        watchlists.addTicker(id, ticker);
+    };
+
+    const listed = lists.some(list => list.tickers.includes(ticker));
+
+    return (
+        <select
+            value=""
+            // keep the click from selecting the suggestion underneath
+            onClick={(e) => e.stopPropagation()}
+            onChange={(e) => handleChange(e.target.value)}
+            title={`Add ${ticker} to a watchlist`}
+            className={`rounded-md border bg-neutral-800 px-1.5 py-1 text-xs ${listed ? 'border-blue-500/50 text-blue-300' : 'border-neutral-600 text-gray-300'}`}
+        >
+            <option value="" disabled>{listed ? '★ Watchlist' : '+ Watchlist'}</option>
+            {lists.map(list => (
+                <option key={list.id} value={list.id} disabled={list.tickers.includes(ticker)}>
+                    {list.name}{list.tickers.includes(ticker) ? ' ✓' : ''}
+                </option>
+            ))}
+            <option value={NEW_LIST}>New watchlist</option>
+        </select>
+    );
+}
@@ -0,0 +1,462 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Scale } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+
+interface BalanceSheetData {
+    year: string;
+    totalAssets: number;
+    totalLiabilities: number;
+    totalEquity: number;
+    cash: number;
+    totalDebt: number;
+    currentRatio: number | null;
+    debtToEquity: number | null;
+    bookValuePerShare: number | null;
+}
+
+interface BalanceSheetChartProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+type BalanceSheetView = 'structure' | 'liquidity';
+
+// Alpha Vantage sends "None" for line items a company doesn't report
+const parseAmount = (value: string | undefined): number | null => {
+    const parsed = parseFloat(value ?? '');
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+export default function BalanceSheetChart({ ticker, shouldFetch }: BalanceSheetChartProps) {
+    const [balanceSheetData, setBalanceSheetData] = useState<BalanceSheetData[]>([]);
+    const [view, setView] = useState<BalanceSheetView>('structure');
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>('');
+
+    const fetchBalanceSheetData = async () => {
+        if (!ticker) return;
+
+        setLoading(true);
+        setError('');
+
+        try {
+            const response = await fetchMarketData('BALANCE_SHEET', { symbol: ticker });
+
+            const annualReports = response.annualReports || [];
+
+            if (annualReports.length === 0) {
+                throw new Error('No balance sheet data available for this ticker');
+            }
+
+            const processedData: BalanceSheetData[] = annualReports
+                .slice(0, 10)
+                .map((report: any) => {
+                    const year = report.fiscalDateEnding.substring(0, 4);
+                    const totalAssets = parseAmount(report.totalAssets) ?? 0;
+                    const totalLiabilities = parseAmount(report.totalLiabilities) ?? 0;
+                    const totalEquity = parseAmount(report.totalShareholderEquity) ?? 0;
+                    const cash = parseAmount(report.cashAndShortTermInvestments)
+                        ?? parseAmount(report.cashAndCashEquivalentsAtCarryingValue)
+                        ?? 0;
+                    const totalDebt = parseAmount(report.shortLongTermDebtTotal)
+                        ?? (parseAmount(report.longTermDebt) ?? 0) + (parseAmount(report.shortTermDebt) ?? 0);
+                    const currentAssets = parseAmount(report.totalCurrentAssets);
+                    const currentLiabilities = parseAmount(report.totalCurrentLiabilities);
+                    const sharesOutstanding = parseAmount(report.commonStockSharesOutstanding);
+
+                    return {
+                        year,
+                        totalAssets: totalAssets / 1000000000,
+                        totalLiabilities: totalLiabilities / 1000000000,
+                        totalEquity: totalEquity / 1000000000,
+                        cash: cash / 1000000000,
+                        totalDebt: totalDebt / 1000000000,
+                        currentRatio: currentAssets !== null && currentLiabilities ? currentAssets / currentLiabilities : null,
+                        debtToEquity: totalEquity > 0 ? totalDebt / totalEquity : null,
+                        bookValuePerShare: sharesOutstanding ? totalEquity / sharesOutstanding : null
+                    };
+                })
+                .sort((a: any, b: any) => parseInt(a.year) - parseInt(b.year));
+
+            setBalanceSheetData(processedData);
+
+        } catch (err: any) {
+            console.error('Error fetching balance sheet data:', err);
+            setError(err.message || 'Failed to fetch balance sheet data');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (shouldFetch && ticker && ticker.length >= 3 && !ticker.includes(' ')) {
+            fetchBalanceSheetData();
+        }
+    }, [ticker, shouldFetch]);
+
+    const getChartOption = () => {
+        if (balanceSheetData.length === 0) return {};
+
+        const years = balanceSheetData.map(data => data.year);
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+        const isStructure = view === 'structure';
+
+        const series = isStructure
+            ? [
+                {
+                    name: 'Total Liabilities',
+                    type: 'bar',
+                    stack: 'balance',
+                    data: balanceSheetData.map(data => data.totalLiabilities),
+                    itemStyle: {
+                        color: '#ef4444'
+                    },
+                    barWidth: isMobile ? '60%' : '50%'
+                },
+                {
+                    name: 'Shareholder Equity',
+                    type: 'bar',
+                    stack: 'balance',
+                    data: balanceSheetData.map(data => data.totalEquity),
+                    itemStyle: {
+                        color: '#22c55e'
+                    }
+                },
+                {
+                    name: 'Total Assets',
+                    type: 'line',
+                    data: balanceSheetData.map(data => data.totalAssets),
+                    smooth: true,
+                    lineStyle: {
+                        color: '#3b82f6',
+                        width: isMobile ? 2 : 3
+                    },
+                    itemStyle: {
+                        color: '#3b82f6'
+                    }
+                }
+            ]
+            : [
+                {
+                    name: 'Cash & Short-Term Investments',
+                    type: 'line',
+                    data: balanceSheetData.map(data => data.cash),
+                    smooth: true,
+                    lineStyle: {
+                        color: '#22c55e',
+                        width: isMobile ? 2 : 3
+                    },
+                    itemStyle: {
+                        color: '#22c55e'
+                    },
+                    areaStyle: {
+                        color: {
+                            type: 'linear',
+                            x: 0,
+                            y: 0,
+                            x2: 0,
+                            y2: 1,
+                            colorStops: [
+                                { offset: 0, color: 'rgba(34, 197, 94, 0.3)' },
+                                { offset: 1, color: 'rgba(34, 197, 94, 0.05)' }
+                            ]
+                        }
+                    }
+                },
+                {
+                    name: 'Total Debt',
+                    type: 'line',
+                    data: balanceSheetData.map(data => data.totalDebt),
+                    smooth: true,
+                    lineStyle: {
+                        color: '#ef4444',
+                        width: isMobile ? 2 : 3
+                    },
+                    itemStyle: {
+                        color: '#ef4444'
+                    }
+                }
+            ];
+
+        return {
+            title: {
+                text: `${ticker.toUpperCase()} Balance Sheet`,
+                subtext: isStructure ? 'Assets, Liabilities & Equity ($ Billions)' : 'Cash vs. Debt ($ Billions)',
+                left: 'center',
+                top: '2%',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 14 : 18,
+                    fontWeight: 'bold'
+                },
+                subtextStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 10 : 12
+                }
+            },
+            backgroundColor: 'transparent',
+            legend: {
+                data: series.map(item => item.name),
+                top: isMobile ? '22%' : '18%',
+                left: 'center',
+                orient: 'horizontal',
+                itemGap: isMobile ? 8 : 15,
+                textStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 9 : 12
+                },
+                itemWidth: isMobile ? 12 : 18,
+                itemHeight: isMobile ? 8 : 12
+            },
+            tooltip: {
+                trigger: 'axis',
+                backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                borderColor: '#374151',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 11 : 12
+                },
+                formatter: function (params: any) {
+                    const dataIndex = params[0].dataIndex;
+                    const data = balanceSheetData[dataIndex];
+
+                    return `
+                        <div style="padding: 8px;">
+                            <div style="font-weight: bold; margin-bottom: 4px;">${data.year}</div>
+                            <div>Total Assets: <span style="color: #3b82f6;">$${data.totalAssets.toFixed(1)}B</span></div>
+                            <div>Total Liabilities: <span style="color: #ef4444;">$${data.totalLiabilities.toFixed(1)}B</span></div>
+                            <div>Equity: <span style="color: #22c55e;">$${data.totalEquity.toFixed(1)}B</span></div>
+                            <div>Cash: <span style="color: #22c55e;">$${data.cash.toFixed(1)}B</span></div>
+                            <div>Debt: <span style="color: #ef4444;">$${data.totalDebt.toFixed(1)}B</span></div>
+                            <div>Current Ratio: <span style="color: #9ca3af;">${data.currentRatio !== null ? data.currentRatio.toFixed(2) : 'N/A'}</span></div>
+                            <div>Debt / Equity: <span style="color: #9ca3af;">${data.debtToEquity !== null ? data.debtToEquity.toFixed(2) : 'N/A'}</span></div>
+                        </div>
+                    `;
+                }
+            },
+            grid: {
+                left: isMobile ? '8%' : '5%',
+                right: isMobile ? '8%' : '5%',
+                bottom: isMobile ? '8%' : '5%',
+                top: isMobile ? '40%' : '35%',
+                containLabel: true
+            },
+            xAxis: {
+                type: 'category',
+                data: years,
+                axisLabel: {
+                    color: '#e5e7eb',
+                    fontSize: isMobile ? 11 : 13,
+                    fontWeight: 500
+                },
+                axisLine: {
+                    lineStyle: {
+                        color: '#374151'
+                    }
+                }
+            },
+            yAxis: {
+                type: 'value',
+                name: 'Amount ($ Billions)',
+                nameTextStyle: {
+                    color: '#d1d5db',
+                    fontSize: isMobile ? 11 : 13,
+                    fontWeight: 500
+                },
+                axisLabel: {
+                    color: '#e5e7eb',
+                    formatter: '${value}B',
+                    fontSize: isMobile ? 11 : 13,
+                    fontWeight: 500
+                },
+                axisLine: {
+                    lineStyle: {
+                        color: '#374151'
+                    }
+                },
+                splitLine: {
+                    lineStyle: {
+                        color: '#374151',
+                        type: 'dashed'
+                    }
+                }
+            },
+            series
+        };
+    };
+
+    if (loading) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Scale className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Balance Sheet</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-4">
+                        <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-4 w-48" />
+                            <Skeleton className="h-3 w-32" />
+                        </div>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (error) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Scale className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Balance Sheet</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (balanceSheetData.length === 0) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Scale className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Balance Sheet</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Enter a ticker symbol to view assets, liabilities and equity
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <Scale className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>Ready to analyze balance sheet</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    const latestData = balanceSheetData[balanceSheetData.length - 1];
+    const netCash = latestData.cash - latestData.totalDebt;
+
+    return (
+        <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Scale className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Balance Sheet</CardTitle>
+                    </div>
+                    <Badge variant={netCash >= 0 ? 'default' : 'secondary'} className="text-xs">
+                        {netCash >= 0 ? 'Net Cash' : 'Net Debt'} ${Math.abs(netCash).toFixed(1)}B
+                    </Badge>
+                </div>
+                <CardDescription className="text-gray-300">
+                    Assets, Liabilities, Equity & Leverage ($ Billions)
+                </CardDescription>
+                <div className="flex items-center gap-2">
+                    <Button
+                        size="sm"
+                        variant={view === 'structure' ? 'default' : 'outline'}
+                        onClick={() => setView('structure')}
+                        className="h-7 px-3 text-xs"
+                    >
+                        Assets vs. Liabilities
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={view === 'liquidity' ? 'default' : 'outline'}
+                        onClick={() => setView('liquidity')}
+                        className="h-7 px-3 text-xs"
+                    >
+                        Cash vs. Debt
+                    </Button>
+                </div>
+            </CardHeader>
+
+            <CardContent className="flex flex-col h-full space-y-4">
+                {/* echarts stacked bar chart */}
+                <div className="flex-1 min-h-[200px] w-full">
+                    <ReactECharts
+                        option={getChartOption()}
+                        style={{ height: '100%', width: '100%' }}
+                        theme="dark"
+                        opts={{ renderer: 'svg' }}
+                        notMerge={true}
+                    />
+                </div>
+
+                {/* summary stats */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Current Ratio</div>
+                            <div className={`text-sm font-bold ${latestData.currentRatio !== null && latestData.currentRatio < 1 ? 'text-red-300' : 'text-white'}`}>
+                                {latestData.currentRatio !== null ? latestData.currentRatio.toFixed(2) : 'N/A'}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Debt / Equity</div>
+                            <div className="text-sm font-bold text-white">
+                                {latestData.debtToEquity !== null ? latestData.debtToEquity.toFixed(2) : 'N/A'}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Book Value / Share</div>
+                            <div className="text-sm font-bold text-white">
+                                {latestData.bookValuePerShare !== null ? `$${latestData.bookValuePerShare.toFixed(2)}` : 'N/A'}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Total Assets</div>
+                            <div className="text-sm font-bold text-blue-300">${latestData.totalAssets.toFixed(1)}B</div>
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* legend */}
+                <div className="flex justify-center gap-4 text-xs flex-wrap">
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-blue-500 rounded"></div>
+                        <span className="text-gray-300 font-medium">Assets</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-red-500 rounded"></div>
+                        <span className="text-gray-300 font-medium">Liabilities / Debt</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-green-500 rounded"></div>
+                        <span className="text-gray-300 font-medium">Equity / Cash</span>
+                    </div>
+                </div>
+            </CardContent>
+        </FloatingCard>
+    );
+}
@@ -0,0 +1,308 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { FileUp, Download, Play, Pause, RotateCcw, Loader2 } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import SentimentProviderSelect from './SentimentProviderSelect';
+import { POST_TEXT_KEYS, SentimentScore, scoreTexts } from '../utils/sentiment';
+import {
+    DEFAULT_PROVIDER_ID,
+    SENTIMENT_PROVIDERS,
+    SentimentProviderId,
+    loadProviderPreference
+} from '../utils/sentimentProviders';
+import { TabularData, TabularFormat, downloadTabularFile, parseTabularFile } from '../utils/tabularFile';
+
+interface RowState {
+    status: 'pending' | 'done' | 'error' | 'skipped';
+    score?: SentimentScore;
+    error?: string;
+}
+
+// posts per batch, and the pause between batches, keep the sentiment backend from being flooded
+const BATCH_SIZE = 10;
+const BATCH_DELAY_MS = 1500;
+
+// all prefixed, so they're unlikely to collide with the file's own columns
+const RESULT_COLUMNS = [
+    'sentiment_model',
+    'sentiment_label',
+    'sentiment_confidence',
+    'sentiment_positive',
+    'sentiment_neutral',
+    'sentiment_negative',
+    'sentiment_error'
+];
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export default function BulkSentimentUploader() {
+    const [fileName, setFileName] = useState<string>('');
+    const [data, setData] = useState<TabularData | null>(null);
+    const [textColumn, setTextColumn] = useState<string>('');
+    const [rowStates, setRowStates] = useState<RowState[]>([]);
+    const [running, setRunning] = useState<boolean>(false);
+    const [provider, setProvider] = useState<SentimentProviderId>(DEFAULT_PROVIDER_ID);
+    const [notice, setNotice] = useState<string>('');
+    const [error, setError] = useState<string>('');
+    const stopRequested = useRef<boolean>(false);
+
+    // read the saved choice after mount, localStorage isn't available during SSR
+    useEffect(() => {
+        setProvider(loadProviderPreference());
+    }, []);
+
+    const handleFile = async (file: File) => {
+        setError('');
+        setNotice('');
+
+        try {
+            const parsed = parseTabularFile(file.name, await file.text());
+
+            if (parsed.rows.length === 0) {
+                throw new Error('The file has no rows');
+            }
+
+            // the download would overwrite them with the new scores
+            const clashing = RESULT_COLUMNS.filter(column => parsed.columns.includes(column));
+            if (clashing.length > 0) {
+                throw new Error(`The file already has ${clashing.join(', ')} column${clashing.length === 1 ? '' : 's'}. Rename or remove ${clashing.length === 1 ? 'it' : 'them'} first.`);
+            }
+
+            setFileName(file.name);
+            setData(parsed);
+            setTextColumn(POST_TEXT_KEYS.find(key => parsed.columns.includes(key)) || parsed.columns[0]);
+            setRowStates(parsed.rows.map(() => ({ status: 'pending' })));
+        } catch (err: any) {
+            setData(null);
+            setRowStates([]);
+            setError(err.message || 'Could not read the file');
+        }
+    };
+
+    const changeTextColumn = (column: string) => {
+        setTextColumn(column);
+        // scores belong to the old column's text
+        setRowStates(rowStates.map(() => ({ status: 'pending' })));
+        setNotice('');
+    };
+
+    /**
+     * Score every row that isn't done yet, so a second run resumes after a failure or stop
+     */
+    const run = async () => {
+        if (!data) return;
+
+        stopRequested.current = false;
+        setRunning(true);
+        setNotice('');
+
+        const states = [...rowStates];
+        const update = (index: number, state: RowState) => {
+            states[index] = state;
+            setRowStates([...states]);
+        };
+
+        const remaining = states
+            .map((state, index) => ({ state, index }))
+            .filter(({ state }) => state.status === 'pending' || state.status === 'error')
+            .map(({ index }) => index);
+
+        try {
+            for (let start = 0; start < remaining.length; start += BATCH_SIZE) {
+                if (stopRequested.current) {
+                    setNotice('Paused. Resume to continue where it stopped.');
+                    return;
+                }
+
+                const batch = remaining.slice(start, start + BATCH_SIZE).filter(index => {
+                    if (data.rows[index][textColumn]?.trim()) return true;
+                    update(index, { status: 'skipped', error: 'Empty text' });
+                    return false;
+                });
+
+                await scoreTexts(batch.map(index => data.rows[index][textColumn].trim()), (position, result) => {
+                    update(batch[position], result.score
+                        ? { status: 'done', score: result.score }
+                        : { status: 'error', error: result.error });
+                }, { analyze: SENTIMENT_PROVIDERS[provider].analyze });
+
+                // stop at the first failing batch rather than burn through the file while the backend is down
+                const failures = batch.filter(index => states[index].status === 'error');
+                if (failures.length > 0) {
+                    setNotice(`${failures.length} post${failures.length === 1 ? '' : 's'} failed (${states[failures[0]].error}). Resume to retry from there.`);
+                    return;
+                }
+
+                if (start + BATCH_SIZE < remaining.length) {
+                    await wait(BATCH_DELAY_MS);
+                }
+            }
+        } finally {
+            setRunning(false);
+        }
+    };
+
+    const download = (format: TabularFormat) => {
+        if (!data) return;
+
+        const columns = [...data.columns, ...RESULT_COLUMNS];
+        const rows = data.rows.map((row, index) => {
+            const { score, error: rowError } = rowStates[index] || {};
+            return {
+                ...row,
+                sentiment_model: score?.model ?? '',
+                sentiment_label: score?.sentiment ?? '',
+                sentiment_confidence: score ? score.confidence.toFixed(4) : '',
+                sentiment_positive: score ? score.probabilities.positive.toFixed(4) : '',
+                sentiment_neutral: score ? score.probabilities.neutral.toFixed(4) : '',
+                sentiment_negative: score ? score.probabilities.negative.toFixed(4) : '',
+                sentiment_error: rowError ?? ''
+            };
+        });
+
+        downloadTabularFile({ columns, rows }, format, `${fileName.replace(/\.[^.]+$/, '') || 'posts'}-sentiment`);
+    };
+
+    const total = rowStates.length;
+    const done = rowStates.filter(state => state.status === 'done').length;
+    const failed = rowStates.filter(state => state.status === 'error').length;
+    const skipped = rowStates.filter(state => state.status === 'skipped').length;
+    const processed = done + failed + skipped;
+    const hasRemaining = rowStates.some(state => state.status === 'pending' || state.status === 'error');
+
+    return (
+        <FloatingCard hoverEffect={false}>
+            <CardHeader>
+                <div className="flex items-center gap-2">
+                    <FileUp className="h-5 w-5 text-blue-400" />
+                    <CardTitle className="text-lg font-bold text-white">Bulk Scoring</CardTitle>
+                </div>
+                <CardDescription className="text-gray-300">
+                    Upload a CSV or JSONL export of posts, pick the text column and download the labeled file
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="flex flex-wrap items-center gap-3">
+                    <label className="inline-flex">
+                        <input
+                            type="file"
+                            accept=".csv,.jsonl,.ndjson,text/csv,application/x-ndjson"
+                            className="sr-only"
+                            disabled={running}
+                            onChange={(e) => {
+                                const file = e.target.files?.[0];
+                                if (file) handleFile(file);
+                                e.target.value = '';
+                            }}
+                        />
+                        <span className={`inline-flex items-center rounded-md border border-neutral-600 px-3 py-2 text-sm text-gray-200 ${running ? 'opacity-50' : 'cursor-pointer hover:bg-neutral-700/50'}`}>
+                            <FileUp className="mr-2 h-4 w-4" />
+                            {fileName || 'Choose file'}
+                        </span>
+                    </label>
+
+                    {data && (
+                        <label className="flex items-center gap-2 text-sm text-gray-300">
+                            Text column
+                            <select
+                                value={textColumn}
+                                onChange={(e) => changeTextColumn(e.target.value)}
+                                disabled={running}
+                                className="rounded-md border border-neutral-600 bg-neutral-800 px-2 py-1.5 text-sm text-white"
+                            >
+                                {data.columns.map(column => (
+                                    <option key={column} value={column}>{column}</option>
+                                ))}
+                            </select>
+                        </label>
+                    )}
+                </div>
+
+                <SentimentProviderSelect value={provider} onChange={setProvider} disabled={running} />
+
+                {error && (
+                    <Alert variant="destructive">
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                )}
+
+                {data && (
+                    <>
+                        {/* preview of what will be scored */}
+                        <div className="rounded-md border border-neutral-700 divide-y divide-neutral-800">
+                            {data.rows.slice(0, 3).map((row, index) => (
+                                <p key={index} className="px-3 py-2 text-xs text-gray-300 truncate">
+                                    {row[textColumn] || <span className="italic text-gray-500">empty</span>}
+                                </p>
+                            ))}
+                            {data.rows.length > 3 && (
+                                <p className="px-3 py-2 text-xs text-gray-500">…and {data.rows.length - 3} more</p>
+                            )}
+                        </div>
+
+                        <div className="space-y-1">
+                            <Progress value={total > 0 ? (processed / total) * 100 : 0} className="h-2" />
+                            <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                                <span>{processed} of {total} processed</span>
+                                <Badge variant="outline" className="text-xs text-green-300">{done} scored</Badge>
+                                {failed > 0 && <Badge variant="destructive" className="text-xs">{failed} failed</Badge>}
+                                {skipped > 0 && <Badge variant="outline" className="text-xs text-gray-400">{skipped} empty</Badge>}
+                            </div>
+                        </div>
+
+                        {notice && (
+                            <Alert>
+                                <AlertDescription>{notice}</AlertDescription>
+                            </Alert>
+                        )}
+
+                        <div className="flex flex-wrap items-center gap-2">
+                            {running ? (
+                                <Button
+                                    variant="outline"
+                                    onClick={() => { stopRequested.current = true; }}
+                                >
+                                    <Pause className="mr-2 h-4 w-4" />
+                                    Pause after this batch
+                                    <Loader2 className="ml-2 h-4 w-4 animate-spin" />
+                                </Button>
+                            ) : (
+                                <Button
+                                    onClick={run}
+                                    disabled={!hasRemaining}
+                                    className="bg-blue-600 hover:bg-blue-700"
+                                >
+                                    {processed > 0 ? <RotateCcw className="mr-2 h-4 w-4" /> : <Play className="mr-2 h-4 w-4" />}
+                                    {processed > 0 ? 'Resume' : 'Start scoring'}
+                                </Button>
+                            )}
+                            <Button
+                                variant="outline"
+                                onClick={() => download('csv')}
+                                disabled={running || done === 0}
+                                className="ml-auto"
+                            >
+                                <Download className="mr-2 h-4 w-4" />
+                                CSV
+                            </Button>
+                            <Button
+                                variant="outline"
+                                onClick={() => download('jsonl')}
+                                disabled={running || done === 0}
+                            >
+                                <Download className="mr-2 h-4 w-4" />
+                                JSONL
+                            </Button>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </FloatingCard>
+    );
+}
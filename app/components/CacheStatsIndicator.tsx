@@ -0,0 +1,49 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Database } from 'lucide-react';
+import { CacheStats, clientResponseCache } from '../utils/responseCache';
+
+export default function CacheStatsIndicator() {
+    const [stats, setStats] = useState<CacheStats>(() => clientResponseCache.getStats());
+
+    useEffect(() => {
+        setStats(clientResponseCache.getStats());
+        return clientResponseCache.subscribe(setStats);
+    }, []);
+
+    const served = stats.hits + stats.stale + stats.coalesced;
+    const total = served + stats.misses;
+
+    if (total === 0) return null;
+
+    const hitRate = (served / total) * 100;
+
+    return (
+        <div
+            className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap"
+            title="Market data and news requests answered from the in-browser cache"
+        >
+            <Database className="h-3 w-3" />
+            <span>Cache</span>
+            <Badge variant="outline" className="text-xs text-green-300">
+                {stats.hits} hits
+            </Badge>
+            {stats.stale > 0 && (
+                <Badge variant="outline" className="text-xs text-yellow-300">
+                    {stats.stale} stale
+                </Badge>
+            )}
+            {stats.coalesced > 0 && (
+                <Badge variant="outline" className="text-xs text-blue-300">
+                    {stats.coalesced} shared
+                </Badge>
+            )}
+            <Badge variant="outline" className="text-xs text-red-300">
+                {stats.misses} misses
+            </Badge>
+            <span>{hitRate.toFixed(0)}% hit rate</span>
+        </div>
+    );
+}
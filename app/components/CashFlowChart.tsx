@@ -1,31 +1,116 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import axios from 'axios';
 import ReactECharts from 'echarts-for-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { TrendingUp, BarChart3, AlertCircle, DollarSign } from 'lucide-react';
 import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+import { FundamentalMetrics, percentChange, trailingStreak } from '../utils/narrative';
+import {
+    STATEMENT_PERIODS,
+    STATEMENT_PERIOD_LABELS,
+    StatementPeriod,
+    StatementPoint,
+    availableStatementPeriods,
+    priorPoints,
+    statementSeries
+} from '../utils/fundamentals';
+import { optionCodec, useQueryState } from '../utils/urlState';
 
+const CASH_FLOW_FIELDS = ['operatingCashflow', 'capitalExpenditures', 'netIncome', 'dividendPayout'] as const;
+// free cash flow needs both cash flow lines; a report without them is dropped rather than read as zero
+const REQUIRED_CASH_FLOW_FIELDS = ['operatingCashflow', 'capitalExpenditures', 'netIncome'] as const;
+
+type CashFlowField = typeof CASH_FLOW_FIELDS[number];
+type RequiredCashFlowField = typeof REQUIRED_CASH_FLOW_FIELDS[number];
+type CashFlowPoint = StatementPoint<CashFlowField, RequiredCashFlowField>;
+
+type GrowthField = 'operatingCashflow' | 'freeCashFlow' | 'netIncome';
+
+// points shown per period
+const POINT_LIMITS: Record<StatementPeriod, number> = { annual: 10, quarterly: 12, ttm: 12 };
+
+/** Amounts in $ billions */
 interface CashFlowData {
-    year: string;
+    label: string;
+    fiscalDateEnding: string;
     operatingCashflow: number;
     capitalExpenditures: number;
     freeCashFlow: number;
     netIncome: number;
-    dividendPayout: number;
+    /** Null where the report left it out */
+    dividendPayout: number | null;
+    yoy: Record<GrowthField, number | null>;
+    qoq: Record<GrowthField, number | null> | null;
 }
 
+/**
+ * Free cash flow is derived, so its growth is worked out here rather than
+ * taken from the statement series; `points` must be unlimited for that
+ */
+const toCashFlowData = (points: CashFlowPoint[], period: StatementPeriod): CashFlowData[] => {
+    const freeCashFlow = (point: CashFlowPoint | undefined) =>
+        point ? point.values.operatingCashflow - Math.abs(point.values.capitalExpenditures) : null;
+    const priors = priorPoints(points, period);
+
+    return points.map((point, index) => {
+        const fcf = freeCashFlow(point)!;
+        const fcfChange = (previous: CashFlowPoint | undefined) => {
+            const previousFcf = freeCashFlow(previous);
+            return previousFcf === null ? null : percentChange(fcf, previousFcf);
+        };
+
+        return {
+            label: point.label,
+            fiscalDateEnding: point.fiscalDateEnding,
+            operatingCashflow: point.values.operatingCashflow / 1000000000,
+            capitalExpenditures: Math.abs(point.values.capitalExpenditures) / 1000000000,
+            freeCashFlow: fcf / 1000000000,
+            netIncome: point.values.netIncome / 1000000000,
+            dividendPayout: point.values.dividendPayout === null ? null : point.values.dividendPayout / 1000000000,
+            yoy: {
+                operatingCashflow: point.yoy.operatingCashflow,
+                freeCashFlow: fcfChange(priors[index].yearEarlier),
+                netIncome: point.yoy.netIncome
+            },
+            qoq: point.qoq && {
+                operatingCashflow: point.qoq.operatingCashflow,
+                freeCashFlow: fcfChange(priors[index].quarterEarlier),
+                netIncome: point.qoq.netIncome
+            }
+        };
+    });
+};
+
+const getCashFlowData = (statement: any, period: StatementPeriod) =>
+    toCashFlowData(statementSeries(statement, period, CASH_FLOW_FIELDS, Infinity, REQUIRED_CASH_FLOW_FIELDS), period).slice(-POINT_LIMITS[period]);
+
+const formatChange = (label: string, value: number | null | undefined) =>
+    value === null || value === undefined ? null : `${label} ${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+/**
+ * YoY and QoQ growth for a tooltip row
+ */
+const formatGrowth = (data: CashFlowData, field: GrowthField) => {
+    const parts = [formatChange('YoY', data.yoy[field]), formatChange('QoQ', data.qoq?.[field])].filter(Boolean);
+    return parts.length > 0 ? ` <span style="color: #9ca3af;">${parts.join(' · ')}</span>` : '';
+};
+
 interface CashFlowChartProps {
     ticker: string;
     shouldFetch: boolean;
+    /** Called with the figures the narrative summary uses once data has loaded */
+    onMetrics?: (metrics: FundamentalMetrics) => void;
 }
 
-export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProps) {
-    const [cashFlowData, setCashFlowData] = useState<CashFlowData[]>([]);
+export default function CashFlowChart({ ticker, shouldFetch, onMetrics }: CashFlowChartProps) {
+    const [statement, setStatement] = useState<any>(null);
+    const [selectedPeriod, setPeriod] = useQueryState<StatementPeriod>('cashflow', 'annual', optionCodec(STATEMENT_PERIODS));
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string>('');
 
@@ -36,48 +121,26 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
         setError('');
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY;
-
-            if (!API_KEY) {
-                throw new Error('Alpha Vantage API key not configured. Please add NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY to your .env.local file.');
-            }
+            const response = await fetchMarketData('CASH_FLOW', { symbol: ticker });
 
-            const url = `https://www.alphavantage.co/query?function=CASH_FLOW&symbol=${ticker}&apikey=${API_KEY}`;
-
-            const response = await axios.get(url);
-
-            if (response.data['Error Message']) {
-                throw new Error(response.data['Error Message']);
-            }
+            const annualData = getCashFlowData(response, 'annual');
 
-            const annualReports = response.data.annualReports || [];
-
-            if (annualReports.length === 0) {
+            if (annualData.length === 0) {
                 throw new Error('No cash flow data available for this ticker');
             }
 
-            const processedData: CashFlowData[] = annualReports
-                .slice(0, 10)
-                .map((report: any) => {
-                    const year = report.fiscalDateEnding.substring(0, 4);
-                    const operatingCashflow = parseFloat(report.operatingCashflow) || 0;
-                    const capitalExpenditures = Math.abs(parseFloat(report.capitalExpenditures) || 0);
-                    const freeCashFlow = operatingCashflow - capitalExpenditures;
-                    const netIncome = parseFloat(report.netIncome) || 0;
-                    const dividendPayout = parseFloat(report.dividendPayout) || 0;
-
-                    return {
-                        year,
-                        operatingCashflow: operatingCashflow / 1000000000,
-                        capitalExpenditures: capitalExpenditures / 1000000000,
-                        freeCashFlow: freeCashFlow / 1000000000,
-                        netIncome: netIncome / 1000000000,
-                        dividendPayout: dividendPayout / 1000000000
-                    };
-                })
-                .sort((a: any, b: any) => parseInt(a.year) - parseInt(b.year));
-
-            setCashFlowData(processedData);
+            setStatement(response);
+
+            // the summary always describes fiscal years, whichever period is shown
+            const latest = annualData[annualData.length - 1];
+            onMetrics?.({
+                freeCashFlow: {
+                    latest: latest.freeCashFlow,
+                    change: latest.yoy.freeCashFlow,
+                    streak: trailingStreak(annualData.map(data => data.freeCashFlow)),
+                    period: latest.label
+                }
+            });
 
         } catch (err: any) {
             console.error('Error fetching cash flow data:', err);
@@ -93,10 +156,15 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
         }
     }, [ticker, shouldFetch]);
 
+    const periods = statement ? availableStatementPeriods(statement, CASH_FLOW_FIELDS, REQUIRED_CASH_FLOW_FIELDS) : [];
+    // a period without data (no quarters, or too few for a TTM) falls back to annual
+    const period = periods.includes(selectedPeriod) ? selectedPeriod : 'annual';
+    const cashFlowData = statement ? getCashFlowData(statement, period) : [];
+
     const getChartOption = () => {
         if (cashFlowData.length === 0) return {};
 
-        const years = cashFlowData.map(data => data.year);
+        const years = cashFlowData.map(data => data.label);
         const operatingCashflow = cashFlowData.map(data => data.operatingCashflow);
         const freeCashFlow = cashFlowData.map(data => data.freeCashFlow);
         const netIncome = cashFlowData.map(data => data.netIncome);
@@ -106,7 +174,7 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
         return {
             title: {
                 text: `${ticker.toUpperCase()} Cash Flow Analysis`,
-                subtext: 'Operating, Free Cash Flow & Net Income ($ Billions)',
+                subtext: `${STATEMENT_PERIOD_LABELS[period]} Operating, Free Cash Flow & Net Income ($ Billions)`,
                 left: 'center',
                 top: '2%',
                 textStyle: {
@@ -147,12 +215,12 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
 
                     return `
                         <div style="padding: 8px;">
-                            <div style="font-weight: bold; margin-bottom: 4px;">${data.year}</div>
-                            <div>Operating CF: <span style="color: #3b82f6;">$${data.operatingCashflow.toFixed(1)}B</span></div>
-                            <div>Free CF: <span style="color: #22c55e;">$${data.freeCashFlow.toFixed(1)}B</span></div>
-                            <div>Net Income: <span style="color: #f59e0b;">$${data.netIncome.toFixed(1)}B</span></div>
+                            <div style="font-weight: bold; margin-bottom: 4px;">${period === 'annual' ? data.label : `${period === 'ttm' ? 'TTM' : 'Quarter'} ending ${data.fiscalDateEnding}`}</div>
+                            <div>Operating CF: <span style="color: #3b82f6;">$${data.operatingCashflow.toFixed(1)}B</span>${formatGrowth(data, 'operatingCashflow')}</div>
+                            <div>Free CF: <span style="color: #22c55e;">$${data.freeCashFlow.toFixed(1)}B</span>${formatGrowth(data, 'freeCashFlow')}</div>
+                            <div>Net Income: <span style="color: #f59e0b;">$${data.netIncome.toFixed(1)}B</span>${formatGrowth(data, 'netIncome')}</div>
                             <div>CapEx: <span style="color: #9ca3af;">$${data.capitalExpenditures.toFixed(1)}B</span></div>
-                            <div>Dividends: <span style="color: #ef4444;">$${data.dividendPayout.toFixed(1)}B</span></div>
+                            <div>Dividends: <span style="color: #ef4444;">${data.dividendPayout === null ? 'N/A' : `$${data.dividendPayout.toFixed(1)}B`}</span></div>
                         </div>
                     `;
                 }
@@ -303,7 +371,7 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
         );
     }
 
-    if (cashFlowData.length === 0) {
+    if (!statement) {
         return (
             <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
                 <CardHeader>
@@ -326,8 +394,8 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
     }
 
     const latestData = cashFlowData[cashFlowData.length - 1];
-    const avgFreeCF = cashFlowData.reduce((sum, data) => sum + data.freeCashFlow, 0) / cashFlowData.length;
-    const fcfConversion = (latestData.freeCashFlow / latestData.netIncome) * 100;
+    const avgFreeCF = cashFlowData.length > 0 ? cashFlowData.reduce((sum, data) => sum + data.freeCashFlow, 0) / cashFlowData.length : 0;
+    const fcfConversion = latestData ? (latestData.freeCashFlow / latestData.netIncome) * 100 : 0;
 
     return (
         <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
@@ -337,14 +405,37 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
                         <DollarSign className="h-5 w-5 text-blue-400" />
                         <CardTitle className="text-lg font-bold text-white">Cash Flow Analysis</CardTitle>
                     </div>
-                    <Badge variant="secondary" className="text-xs">
-                        <TrendingUp className="h-3 w-3 mr-1" />
-                        ${latestData.freeCashFlow.toFixed(1)}B FCF
-                    </Badge>
+                    {latestData && (
+                        <Badge variant="secondary" className="text-xs">
+                            <TrendingUp className="h-3 w-3 mr-1" />
+                            ${latestData.freeCashFlow.toFixed(1)}B FCF
+                        </Badge>
+                    )}
                 </div>
                 <CardDescription className="text-gray-300">
-                    Operating, Free Cash Flow & Net Income ($ Billions)
+                    {period === 'ttm'
+                        ? 'Trailing twelve months at each quarter end ($ Billions)'
+                        : 'Operating, Free Cash Flow & Net Income ($ Billions)'}
                 </CardDescription>
+                <div className="flex items-center gap-2 flex-wrap">
+                    {STATEMENT_PERIODS.map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={period === option ? 'default' : 'outline'}
+                            onClick={() => setPeriod(option)}
+                            disabled={!periods.includes(option)}
+                            className="h-7 px-3 text-xs"
+                        >
+                            {STATEMENT_PERIOD_LABELS[option]}
+                        </Button>
+                    ))}
+                </div>
+                {period !== selectedPeriod && (
+                    <p className="text-xs text-amber-300">
+                        No {STATEMENT_PERIOD_LABELS[selectedPeriod]} data for this ticker, showing annual
+                    </p>
+                )}
             </CardHeader>
 
             <CardContent className="flex flex-col h-full space-y-4">
@@ -355,11 +446,12 @@ export default function CashFlowChart({ ticker, shouldFetch }: CashFlowChartProp
                         style={{ height: '100%', width: '100%' }}
                         theme="dark"
                         opts={{ renderer: 'svg' }}
+                        notMerge={true}
                     />
                 </div>
 
                 {/* summary stats */}
-                {cashFlowData.length > 0 && (
+                {latestData && (
                     <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
                         <Card className="bg-neutral-700/50 border-neutral-600">
                             <CardContent className="p-3 text-center">
@@ -0,0 +1,371 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Building2 } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+import { CompanyOverview, parseOverview } from '../utils/fundamentals';
+import {
+    SectorMedian,
+    VALUATION_MULTIPLES,
+    VALUATION_MULTIPLE_IDS,
+    ValuationMultiple,
+    peerIndex,
+    sectorMedians
+} from '../utils/peers';
+
+interface CompanyOverviewCardProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+const formatMarketCap = (value: number | null) => {
+    if (value === null) return '—';
+    if (value >= 1e12) return `$${(value / 1e12).toFixed(2)}T`;
+    if (value >= 1e9) return `$${(value / 1e9).toFixed(1)}B`;
+    return `$${(value / 1e6).toFixed(0)}M`;
+};
+
+const formatPrice = (value: number | null) => value === null ? '—' : `$${value.toFixed(2)}`;
+
+export default function CompanyOverviewCard({ ticker, shouldFetch }: CompanyOverviewCardProps) {
+    const [overview, setOverview] = useState<CompanyOverview | null>(null);
+    const [medians, setMedians] = useState<Partial<Record<ValuationMultiple, SectorMedian>>>({});
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>('');
+    const [expanded, setExpanded] = useState<boolean>(false);
+
+    const fetchOverviewData = async () => {
+        if (!ticker) return;
+
+        setLoading(true);
+        setError('');
+        setExpanded(false);
+
+        try {
+            const parsed = parseOverview(await fetchMarketData('OVERVIEW', { symbol: ticker }));
+
+            if (!parsed) {
+                throw new Error('No company overview available for this ticker');
+            }
+
+            peerIndex.record(parsed);
+            setOverview(parsed);
+        } catch (err: any) {
+            console.error('Error fetching company overview:', err);
+            setError(err.message || 'Failed to fetch company overview');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        // fetch when user pressed Enter or clicked suggestion
+        if (shouldFetch && ticker && ticker.length >= 3 && !ticker.includes(' ')) {
+            fetchOverviewData();
+        }
+    }, [ticker, shouldFetch]);
+
+    // sector medians from the overviews cached in the peer index
+    useEffect(() => {
+        if (!overview) return;
+
+        const readMedians = () => setMedians(sectorMedians(peerIndex.getProfiles(), overview.sector, overview.symbol));
+
+        readMedians();
+        return peerIndex.subscribe(readMedians);
+    }, [overview]);
+
+    /**
+     * One gauge per multiple. The band is green below 80% of the sector median,
+     * amber within 20% of it and red above; the thin pointer marks the median.
+     */
+    const getGaugeOption = (multiple: ValuationMultiple, value: number) => {
+        const sectorMedian = medians[multiple]?.median;
+        const max = Math.max(sectorMedian ? sectorMedian * 2 : value * 2, value * 1.1, 1);
+        const band = sectorMedian
+            ? [[(sectorMedian * 0.8) / max, '#22c55e'], [(sectorMedian * 1.2) / max, '#f59e0b'], [1, '#ef4444']]
+            : [[1, '#4b5563']];
+
+        const dial = {
+            type: 'gauge',
+            min: 0,
+            max,
+            startAngle: 200,
+            endAngle: -20,
+            radius: '95%',
+            center: ['50%', '62%'],
+            splitNumber: 4
+        };
+
+        return {
+            backgroundColor: 'transparent',
+            series: [
+                {
+                    ...dial,
+                    axisLine: {
+                        lineStyle: {
+                            width: 8,
+                            color: band
+                        }
+                    },
+                    axisTick: { show: false },
+                    splitLine: { show: false },
+                    axisLabel: { show: false },
+                    pointer: {
+                        width: 4,
+                        length: '60%',
+                        itemStyle: { color: '#ffffff' }
+                    },
+                    anchor: {
+                        show: true,
+                        size: 8,
+                        itemStyle: { color: '#ffffff' }
+                    },
+                    title: { show: false },
+                    detail: {
+                        valueAnimation: true,
+                        offsetCenter: [0, '35%'],
+                        fontSize: 16,
+                        fontWeight: 'bold',
+                        color: '#ffffff',
+                        formatter: (current: number) => `${current.toFixed(1)}x`
+                    },
+                    data: [{ value: Math.min(value, max) }]
+                },
+                ...(sectorMedian ? [{
+                    ...dial,
+                    axisLine: { show: false },
+                    axisTick: { show: false },
+                    splitLine: { show: false },
+                    axisLabel: { show: false },
+                    pointer: {
+                        width: 2,
+                        length: '85%',
+                        itemStyle: { color: '#9ca3af' }
+                    },
+                    title: { show: false },
+                    detail: { show: false },
+                    data: [{ value: sectorMedian }]
+                }] : [])
+            ]
+        };
+    };
+
+    if (loading) {
+        return (
+            <FloatingCard className="h-full min-h-[300px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Building2 className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Company Overview</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-4">
+                        <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-4 w-48" />
+                            <Skeleton className="h-3 w-32" />
+                        </div>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (error) {
+        return (
+            <FloatingCard className="h-full min-h-[300px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Building2 className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Company Overview</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex flex-col items-center justify-center gap-4">
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                    <Button size="sm" variant="outline" onClick={fetchOverviewData} className="h-7 px-3 text-xs">
+                        Retry
+                    </Button>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (!overview) {
+        return (
+            <FloatingCard className="h-full min-h-[300px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Building2 className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Company Overview</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Enter a ticker symbol to view the company profile and valuation
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <Building2 className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>Ready to load company overview</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    const { week52Low, week52High, movingAverage50 } = overview;
+    const hasRange = week52Low !== null && week52High !== null && week52High > week52Low;
+    // where the 50-day average sits within the 52-week range, %
+    const averagePosition = hasRange && movingAverage50 !== null
+        ? Math.min(100, Math.max(0, ((movingAverage50 - week52Low!) / (week52High! - week52Low!)) * 100))
+        : null;
+
+    return (
+        <FloatingCard className="flex flex-col h-full">
+            <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                        <Building2 className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">{overview.name}</CardTitle>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                        {overview.exchange && (
+                            <Badge variant="secondary" className="text-xs">
+                                {overview.exchange}: {overview.symbol}
+                            </Badge>
+                        )}
+                        {overview.sector && (
+                            <Badge variant="outline" className="text-xs text-gray-300 capitalize">
+                                {overview.sector.toLowerCase()}
+                            </Badge>
+                        )}
+                        {overview.industry && (
+                            <Badge variant="outline" className="text-xs text-gray-300 capitalize">
+                                {overview.industry.toLowerCase()}
+                            </Badge>
+                        )}
+                    </div>
+                </div>
+                {overview.description && (
+                    <CardDescription className="text-gray-300">
+                        <span className={expanded ? '' : 'line-clamp-3'}>{overview.description}</span>
+                        <button
+                            onClick={() => setExpanded(!expanded)}
+                            className="mt-1 block text-xs text-blue-300 hover:text-blue-200"
+                        >
+                            {expanded ? 'Show less' : 'Show more'}
+                        </button>
+                    </CardDescription>
+                )}
+            </CardHeader>
+
+            <CardContent className="flex flex-col space-y-4">
+                {/* summary stats */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Market Cap</div>
+                            <div className="text-sm font-bold text-white">{formatMarketCap(overview.marketCap)}</div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Beta</div>
+                            <div className="text-sm font-bold text-white">{overview.beta === null ? '—' : overview.beta.toFixed(2)}</div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600 col-span-2">
+                        <CardContent className="p-3">
+                            <div className="text-xs text-gray-300 mb-1 font-medium text-center">52-Week Range</div>
+                            <div className="flex items-center gap-2 text-xs font-bold text-white">
+                                <span>{formatPrice(week52Low)}</span>
+                                <div className="relative h-1.5 flex-1 rounded-full bg-neutral-600">
+                                    {averagePosition !== null && (
+                                        <div
+                                            className="absolute top-1/2 h-3 w-1 -translate-y-1/2 rounded bg-blue-400"
+                                            style={{ left: `calc(${averagePosition}% - 2px)` }}
+                                            title={`50-day average ${formatPrice(movingAverage50)}`}
+                                        />
+                                    )}
+                                </div>
+                                <span>{formatPrice(week52High)}</span>
+                            </div>
+                            {averagePosition !== null && (
+                                <div className="mt-1 text-center text-xs text-gray-400">
+                                    50-day avg {formatPrice(movingAverage50)}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+
+                {/* valuation gauges */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    {VALUATION_MULTIPLE_IDS.map(multiple => {
+                        const value = overview[multiple];
+                        const sectorMedian = medians[multiple];
+
+                        return (
+                            <Card key={multiple} className="bg-neutral-700/50 border-neutral-600">
+                                <CardContent className="p-3 text-center">
+                                    <div className="text-xs text-gray-300 font-medium">{VALUATION_MULTIPLES[multiple]}</div>
+                                    {value === null || value <= 0 ? (
+                                        <div className="h-[130px] flex items-center justify-center text-sm text-gray-500">
+                                            Not meaningful
+                                        </div>
+                                    ) : (
+                                        <div className="h-[130px] w-full">
+                                            <ReactECharts
+                                                option={getGaugeOption(multiple, value)}
+                                                style={{ height: '100%', width: '100%' }}
+                                                theme="dark"
+                                                opts={{ renderer: 'svg' }}
+                                                notMerge
+                                            />
+                                        </div>
+                                    )}
+                                    <div className="text-xs text-gray-400">
+                                        {sectorMedian
+                                            ? `Sector median ${sectorMedian.median.toFixed(1)}x (${sectorMedian.count} peers)`
+                                            : 'No sector median yet'}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                </div>
+
+                {/* legend */}
+                <div className="flex justify-center gap-4 text-xs flex-wrap">
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-green-500 rounded"></div>
+                        <span className="text-gray-300 font-medium">Below sector</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-amber-500 rounded"></div>
+                        <span className="text-gray-300 font-medium">Within 20%</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-3 bg-red-500 rounded"></div>
+                        <span className="text-gray-300 font-medium">Above sector</span>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <div className="w-3 h-0.5 bg-gray-400"></div>
+                        <span className="text-gray-300 font-medium">Sector median</span>
+                    </div>
+                </div>
+            </CardContent>
+        </FloatingCard>
+    );
+}
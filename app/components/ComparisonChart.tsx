@@ -0,0 +1,477 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, GitCompare, Loader2, Plus, X } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import PeerSuggestions from './PeerSuggestions';
+import { ANNUAL_SOURCES, AnnualFundamentals, AnnualSource, loadAnnualFundamentals } from '../utils/fundamentals';
+import { marketScheduler } from '../utils/requestScheduler';
+import {
+    COMPARISON_METRICS,
+    COMPARISON_METRIC_IDS,
+    ComparisonMetric,
+    ComparisonSummary,
+    MAX_COMPARE_TICKERS,
+    NORMALIZATION_MODES,
+    NormalizationMode,
+    comparisonYears,
+    metricSources,
+    normalizeSeries,
+    summarizeFundamentals
+} from '../utils/comparison';
+import { optionCodec, tickerListCodec, useQueryState } from '../utils/urlState';
+
+interface ComparisonChartProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+interface TickerFundamentals {
+    loading: boolean;
+    rows?: AnnualFundamentals[];
+    /** Sources the rows were joined from */
+    sources: AnnualSource[];
+    error?: string;
+}
+
+// calls left for the dashboard; added tickers stop loading here
+const QUOTA_RESERVE = 5;
+
+const hasBudget = () => marketScheduler.getStatus().remainingToday > QUOTA_RESERVE;
+
+const SERIES_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444', '#a855f7'];
+
+const MODE_LABELS: Record<NormalizationMode, string> = {
+    absolute: 'Absolute',
+    indexed: 'Indexed = 100',
+    perShare: 'Per share'
+};
+
+const formatBillions = (value: number | null) => value === null ? '—' : `$${(value / 1e9).toFixed(1)}B`;
+const formatDollars = (value: number | null) => value === null ? '—' : `$${value.toFixed(2)}`;
+const formatPercent = (value: number | null) => value === null ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+const formatRatio = (value: number | null) => value === null ? '—' : `${value.toFixed(1)}%`;
+
+const SUMMARY_ROWS: Array<{ label: string; format: (summary: ComparisonSummary) => string }> = [
+    { label: 'Fiscal year', format: summary => summary.year },
+    { label: 'Revenue', format: summary => formatBillions(summary.revenue) },
+    { label: 'Revenue growth', format: summary => formatPercent(summary.revenueGrowth) },
+    { label: 'Revenue CAGR (5Y)', format: summary => formatPercent(summary.revenueCagr) },
+    { label: 'Net margin', format: summary => formatRatio(summary.netMargin) },
+    { label: 'EPS', format: summary => formatDollars(summary.eps) },
+    { label: 'EPS growth', format: summary => formatPercent(summary.epsGrowth) },
+    { label: 'Free cash flow', format: summary => formatBillions(summary.freeCashFlow) },
+    { label: 'FCF margin', format: summary => formatRatio(summary.fcfMargin) },
+    { label: 'FCF / share', format: summary => formatDollars(summary.fcfPerShare) },
+    { label: 'Dividends / share', format: summary => formatDollars(summary.dividendPerShare) },
+    { label: 'Payout ratio', format: summary => formatRatio(summary.payoutRatio) }
+];
+
+export default function ComparisonChart({ ticker, shouldFetch }: ComparisonChartProps) {
+    const [others, setOthers] = useQueryState<string[]>('compare', [], tickerListCodec(MAX_COMPARE_TICKERS - 1));
+    const [metric, setMetric] = useQueryState<ComparisonMetric>('compareMetric', 'revenue', optionCodec(COMPARISON_METRIC_IDS));
+    const [mode, setMode] = useQueryState<NormalizationMode>('compareMode', 'absolute', optionCodec(NORMALIZATION_MODES));
+    const [fundamentals, setFundamentals] = useState<Record<string, TickerFundamentals>>({});
+    const [newTicker, setNewTicker] = useState<string>('');
+    const [inputError, setInputError] = useState<string>('');
+
+    const mainTicker = ticker.trim().toUpperCase();
+    const tickers = [mainTicker, ...others.filter(other => other !== mainTicker)].slice(0, MAX_COMPARE_TICKERS);
+    const tickerKey = tickers.join(',');
+
+    /**
+     * Sources each ticker still needs, as `SYMBOL:source+source`. The dashboard
+     * ticker loads everything, shared with the other cards' cached responses;
+     * added tickers only what the metric and mode need. Failed ones wait
+     * until they're removed and added again.
+     */
+    const pendingKey = tickers.flatMap(symbol => {
+        const state = fundamentals[symbol];
+        if (state?.loading || state?.error) return [];
+
+        const needed = symbol === mainTicker ? ANNUAL_SOURCES : metricSources(metric, mode);
+        const sources = Array.from(new Set([...(state?.sources ?? []), ...needed]));
+        if (state && sources.length === state.sources.length) return [];
+
+        return [`${symbol}:${sources.join('+')}`];
+    }).join(',');
+
+    useEffect(() => {
+        // fetch when user pressed enter or clicked suggestion, then for each added ticker
+        if (!shouldFetch || !pendingKey || mainTicker.length < 3 || mainTicker.includes(' ')) return;
+
+        pendingKey.split(',').forEach(async item => {
+            const [symbol, sourceList] = item.split(':');
+            const sources = (sourceList ? sourceList.split('+') : []) as AnnualSource[];
+            const isMain = symbol === mainTicker;
+
+            // anything already loaded stays on screen while more sources load
+            setFundamentals(current => ({ ...current, [symbol]: { ...current[symbol], sources: current[symbol]?.sources ?? [], loading: true } }));
+
+            try {
+                if (!isMain && !hasBudget()) {
+                    throw new Error(`Paused to keep the last ${QUOTA_RESERVE} API calls of the day for the dashboard`);
+                }
+
+                // added tickers wait behind the dashboard's own cards
+                const rows = await loadAnnualFundamentals(symbol, sources, isMain ? 'visible' : 'background');
+                setFundamentals(current => ({ ...current, [symbol]: { loading: false, rows, sources } }));
+            } catch (err: any) {
+                console.error(`Error fetching fundamentals for ${symbol}:`, err);
+                setFundamentals(current => ({
+                    ...current,
+                    [symbol]: { ...current[symbol], loading: false, error: err.message || 'Failed to fetch fundamentals' }
+                }));
+            }
+        });
+    }, [pendingKey, shouldFetch, mainTicker]);
+
+    const removeTicker = (symbol: string) => {
+        setOthers(others.filter(other => other !== symbol));
+        // so adding it again retries a failed load
+        setFundamentals(current => {
+            const { [symbol]: _removed, ...rest } = current;
+            return rest;
+        });
+    };
+
+    const addTicker = () => {
+        const symbol = newTicker.trim().toUpperCase();
+        setInputError('');
+
+        if (!symbol) return;
+        if (tickers.includes(symbol)) {
+            setInputError(`${symbol} is already in the comparison`);
+            return;
+        }
+        if (tickers.length >= MAX_COMPARE_TICKERS) {
+            setInputError(`Compare up to ${MAX_COMPARE_TICKERS} tickers at a time`);
+            return;
+        }
+
+        setOthers([...others, symbol]);
+        setNewTicker('');
+    };
+
+    const loaded = tickers.filter(symbol => fundamentals[symbol]?.rows);
+    const years = comparisonYears(loaded.map(symbol => fundamentals[symbol].rows!));
+    const summaries = Object.fromEntries(loaded.map(symbol => [symbol, summarizeFundamentals(fundamentals[symbol].rows!)]));
+    const { label: metricLabel, isPerShare } = COMPARISON_METRICS[metric];
+    // totals are charted in billions, per-share figures in dollars
+    const inBillions = mode === 'absolute' && !isPerShare;
+    const unit = mode === 'indexed' ? 'Index (first year = 100)' : inBillions ? '$ Billions' : '$ per share';
+
+    const formatValue = (value: number) => {
+        if (mode === 'indexed') return value.toFixed(0);
+        return inBillions ? `$${value.toFixed(1)}B` : `$${value.toFixed(2)}`;
+    };
+
+    // prepare data for echarts
+    const getChartOption = () => {
+        if (years.length === 0) return {};
+
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+
+        return {
+            backgroundColor: 'transparent',
+            legend: {
+                data: loaded,
+                top: 0,
+                left: 'center',
+                textStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 10 : 12
+                }
+            },
+            tooltip: {
+                trigger: 'axis',
+                backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                borderColor: '#374151',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 11 : 12
+                },
+                formatter: (params: any[]) => {
+                    const lines = params
+                        .filter(param => param.value !== null && param.value !== undefined)
+                        .map(param => `<div>${param.marker} ${param.seriesName}: <b>${formatValue(param.value)}</b></div>`);
+
+                    return `<div style="padding: 8px;"><div style="font-weight: bold; margin-bottom: 4px;">${params[0].axisValue} · ${metricLabel}</div>${lines.join('') || 'No data'}</div>`;
+                }
+            },
+            grid: {
+                left: isMobile ? '8%' : '4%',
+                right: isMobile ? '8%' : '4%',
+                bottom: '5%',
+                top: 50,
+                containLabel: true
+            },
+            xAxis: {
+                type: 'category',
+                data: years,
+                axisLabel: {
+                    color: '#e5e7eb',
+                    fontSize: isMobile ? 11 : 13
+                },
+                axisLine: {
+                    lineStyle: {
+                        color: '#374151'
+                    }
+                }
+            },
+            yAxis: {
+                type: 'value',
+                name: unit,
+                scale: mode === 'indexed',
+                nameTextStyle: {
+                    color: '#d1d5db',
+                    fontSize: isMobile ? 11 : 12
+                },
+                axisLabel: {
+                    color: '#e5e7eb',
+                    formatter: (value: number) => formatValue(value)
+                },
+                splitLine: {
+                    lineStyle: {
+                        color: '#374151',
+                        type: 'dashed'
+                    }
+                }
+            },
+            series: loaded.map(symbol => {
+                const color = SERIES_COLORS[tickers.indexOf(symbol) % SERIES_COLORS.length];
+                const values = normalizeSeries(fundamentals[symbol].rows!, metric, mode, years);
+
+                return {
+                    name: symbol,
+                    type: 'line',
+                    data: values.map(value => value === null ? null : inBillions ? value / 1e9 : value),
+                    connectNulls: true,
+                    smooth: true,
+                    symbolSize: 6,
+                    lineStyle: {
+                        color,
+                        width: symbol === mainTicker ? 4 : 2
+                    },
+                    itemStyle: {
+                        color
+                    }
+                };
+            })
+        };
+    };
+
+    const mainState = fundamentals[mainTicker];
+
+    if (!shouldFetch || !mainState) {
+        return (
+            <FloatingCard className="h-full min-h-[350px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <GitCompare className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Comparison</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Enter a ticker symbol to compare it with up to {MAX_COMPARE_TICKERS - 1} others
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <GitCompare className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>Ready to compare fundamentals</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (mainState.loading && !mainState.rows) {
+        return (
+            <FloatingCard className="h-full min-h-[350px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <GitCompare className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Comparison</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-4">
+                        <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-4 w-48" />
+                            <Skeleton className="h-3 w-32" />
+                        </div>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (mainState.error) {
+        return (
+            <FloatingCard className="h-full min-h-[350px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <GitCompare className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Comparison</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{mainState.error}</AlertDescription>
+                    </Alert>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    return (
+        <FloatingCard className="flex flex-col h-full min-h-[350px]">
+            <CardHeader className="space-y-3">
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <GitCompare className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Comparison</CardTitle>
+                    </div>
+                    <Badge variant="secondary" className="text-xs">
+                        {tickers.length} of {MAX_COMPARE_TICKERS} tickers
+                    </Badge>
+                </div>
+                <CardDescription className="text-gray-300">
+                    {metricLabel} by fiscal year · {unit}
+                    {mode === 'perShare' && isPerShare && ' (already per share)'}
+                </CardDescription>
+
+                {/* tickers in the comparison */}
+                <div className="flex flex-wrap items-center gap-2">
+                    {tickers.map((symbol, index) => {
+                        const state = fundamentals[symbol];
+                        return (
+                            <Badge
+                                key={symbol}
+                                variant="outline"
+                                className="gap-1.5 text-xs text-white"
+                                title={state?.error}
+                            >
+                                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }} />
+                                {symbol}
+                                {state?.loading && <Loader2 className="h-3 w-3 animate-spin" />}
+                                {state?.error && <AlertCircle className="h-3 w-3 text-red-400" />}
+                                {symbol !== mainTicker && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        onClick={() => removeTicker(symbol)}
+                                        className="h-4 w-4 p-0 text-gray-400 hover:text-white"
+                                        title={`Remove ${symbol}`}
+                                    >
+                                        <X className="h-3 w-3" />
+                                    </Button>
+                                )}
+                            </Badge>
+                        );
+                    })}
+                    {tickers.length < MAX_COMPARE_TICKERS && (
+                        <div className="flex items-center gap-1">
+                            <Input
+                                value={newTicker}
+                                onChange={(e) => setNewTicker(e.target.value.toUpperCase())}
+                                onKeyDown={(e) => e.key === 'Enter' && addTicker()}
+                                placeholder="Add ticker"
+                                className="h-7 w-28 bg-neutral-800/50 border-neutral-600 text-xs"
+                            />
+                            <Button size="sm" variant="outline" onClick={addTicker} disabled={!newTicker.trim()} className="h-7 px-3 text-xs">
+                                <Plus className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    )}
+                </div>
+                {inputError && <p className="text-xs text-red-400">{inputError}</p>}
+                <PeerSuggestions ticker={mainTicker} />
+
+                <div className="flex flex-wrap items-center gap-2">
+                    {COMPARISON_METRIC_IDS.map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={metric === option ? 'default' : 'outline'}
+                            onClick={() => setMetric(option)}
+                            className="h-7 px-3 text-xs"
+                        >
+                            {COMPARISON_METRICS[option].label}
+                        </Button>
+                    ))}
+                    <div className="flex gap-1 ml-auto">
+                        {NORMALIZATION_MODES.map(option => (
+                            <Button
+                                key={option}
+                                size="sm"
+                                variant={mode === option ? 'default' : 'outline'}
+                                onClick={() => setMode(option)}
+                                className="h-7 px-3 text-xs"
+                            >
+                                {MODE_LABELS[option]}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            </CardHeader>
+
+            <CardContent className="flex flex-col space-y-4">
+                {/* echarts line chart */}
+                <div className="h-[320px] w-full">
+                    <ReactECharts
+                        option={getChartOption()}
+                        style={{ height: '100%', width: '100%' }}
+                        theme="dark"
+                        opts={{ renderer: 'svg' }}
+                        notMerge
+                    />
+                </div>
+
+                {/* side-by-side metrics for the latest fiscal year */}
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="border-b border-neutral-700 text-left text-xs text-gray-400">
+                                <th className="px-3 py-2 font-medium">Latest fiscal year</th>
+                                {loaded.map(symbol => (
+                                    <th key={symbol} className="px-3 py-2 font-medium text-right">{symbol}</th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {SUMMARY_ROWS.map(row => (
+                                <tr key={row.label} className="border-b border-neutral-800">
+                                    <td className="px-3 py-2 text-gray-300">{row.label}</td>
+                                    {loaded.map(symbol => (
+                                        <td key={symbol} className="px-3 py-2 text-right text-white">
+                                            {summaries[symbol] ? row.format(summaries[symbol]!) : '—'}
+                                        </td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {mode === 'indexed' && (
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-xs text-gray-300">
+                            Each ticker is rebased to 100 at its first year with a positive value, so lines show relative growth.
+                            Tickers that were never positive in the window are left out.
+                        </CardContent>
+                    </Card>
+                )}
+            </CardContent>
+        </FloatingCard>
+    );
+}
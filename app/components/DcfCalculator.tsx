@@ -0,0 +1,446 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Calculator, RotateCcw } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+import { parseGlobalQuote, parseNumber, statementReports, statementSeries } from '../utils/fundamentals';
+import {
+    DEFAULT_DISCOUNT_RATE,
+    DEFAULT_PROJECTION_YEARS,
+    DEFAULT_TERMINAL_GROWTH,
+    DcfInputs,
+    discountedCashFlow,
+    seedGrowthRate,
+    sensitivityGrid
+} from '../utils/dcf';
+
+interface DcfCalculatorProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+/** What the statements and quote give us, before any edits */
+interface DcfSeed {
+    fiscalYear: string;
+    baseFreeCashFlow: number;
+    growthRate: number;
+    growthFromHistory: boolean;
+    sharesOutstanding: number;
+    netDebt: number;
+    price: number | null;
+}
+
+type AssumptionField = 'growthRate' | 'discountRate' | 'terminalGrowth' | 'years' | 'sharesMillions';
+
+const ASSUMPTION_FIELDS: Array<{ id: AssumptionField; label: string; step: string }> = [
+    { id: 'growthRate', label: 'FCF growth (%)', step: '0.5' },
+    { id: 'discountRate', label: 'Discount rate (%)', step: '0.5' },
+    { id: 'terminalGrowth', label: 'Terminal growth (%)', step: '0.25' },
+    { id: 'years', label: 'Projection years', step: '1' },
+    { id: 'sharesMillions', label: 'Shares (M)', step: '1' }
+];
+
+const MAX_PROJECTION_YEARS = 30;
+
+// heatmap steps around the chosen discount rate and terminal growth
+const DISCOUNT_STEPS = [-2, -1, 0, 1, 2];
+const TERMINAL_STEPS = [-1, -0.5, 0, 0.5, 1];
+
+const formatBillions = (value: number) => `${value < 0 ? '-' : ''}$${(Math.abs(value) / 1e9).toFixed(1)}B`;
+
+const seedForm = (seed: DcfSeed): Record<AssumptionField, string> => ({
+    growthRate: seed.growthRate.toFixed(1),
+    discountRate: String(DEFAULT_DISCOUNT_RATE),
+    terminalGrowth: String(DEFAULT_TERMINAL_GROWTH),
+    years: String(DEFAULT_PROJECTION_YEARS),
+    sharesMillions: (seed.sharesOutstanding / 1e6).toFixed(0)
+});
+
+export default function DcfCalculator({ ticker, shouldFetch }: DcfCalculatorProps) {
+    const [seed, setSeed] = useState<DcfSeed | null>(null);
+    const [form, setForm] = useState<Record<AssumptionField, string> | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>('');
+
+    const fetchDcfData = async () => {
+        if (!ticker) return;
+
+        setLoading(true);
+        setError('');
+
+        try {
+            // all three are shared with other cards' cached responses; the quote only adds the comparison
+            const [cashFlow, balanceSheet, quote] = await Promise.all([
+                fetchMarketData('CASH_FLOW', { symbol: ticker }),
+                fetchMarketData('BALANCE_SHEET', { symbol: ticker }),
+                fetchMarketData('GLOBAL_QUOTE', { symbol: ticker }).catch(() => undefined)
+            ]);
+
+            const history = statementSeries(cashFlow, 'annual', ['operatingCashflow', 'capitalExpenditures'] as const, 10)
+                .map(point => ({
+                    year: point.label,
+                    freeCashFlow: point.values.operatingCashflow - Math.abs(point.values.capitalExpenditures)
+                }));
+
+            if (history.length === 0) {
+                throw new Error('No cash flow data available for this ticker');
+            }
+
+            // the latest balance sheet, quarterly if there is one
+            const balance = statementReports(balanceSheet, 'quarterly').slice(-1)[0] ?? statementReports(balanceSheet, 'annual').slice(-1)[0];
+            const sharesOutstanding = parseNumber(balance?.commonStockSharesOutstanding);
+
+            if (!sharesOutstanding) {
+                throw new Error('No share count available for this ticker');
+            }
+
+            const debt = parseNumber(balance.shortLongTermDebtTotal)
+                ?? (parseNumber(balance.longTermDebt) ?? 0) + (parseNumber(balance.shortTermDebt) ?? 0);
+            const cash = parseNumber(balance.cashAndShortTermInvestments) ?? parseNumber(balance.cashAndCashEquivalentsAtCarryingValue) ?? 0;
+            const latest = history[history.length - 1];
+            const growth = seedGrowthRate(history.map(item => item.freeCashFlow));
+
+            const nextSeed: DcfSeed = {
+                fiscalYear: latest.year,
+                baseFreeCashFlow: latest.freeCashFlow,
+                growthRate: growth.rate,
+                growthFromHistory: growth.fromHistory,
+                sharesOutstanding,
+                netDebt: debt - cash,
+                price: parseGlobalQuote(quote)?.price ?? null
+            };
+
+            setSeed(nextSeed);
+            setForm(seedForm(nextSeed));
+
+        } catch (err: any) {
+            console.error('Error fetching DCF data:', err);
+            setError(err.message || 'Failed to fetch DCF data');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (shouldFetch && ticker && ticker.length >= 3 && !ticker.includes(' ')) {
+            fetchDcfData();
+        }
+    }, [ticker, shouldFetch]);
+
+    /**
+     * Model inputs from the form; null while a field isn't a usable number
+     */
+    const getInputs = (): DcfInputs | null => {
+        if (!seed || !form) return null;
+
+        const values = Object.fromEntries(
+            Object.entries(form).map(([field, raw]) => [field, parseFloat(raw)])
+        ) as Record<AssumptionField, number>;
+
+        if (Object.values(values).some(value => !Number.isFinite(value))) return null;
+        if (values.years < 1 || values.years > MAX_PROJECTION_YEARS || values.sharesMillions <= 0) return null;
+
+        return {
+            baseFreeCashFlow: seed.baseFreeCashFlow,
+            growthRate: values.growthRate,
+            discountRate: values.discountRate,
+            terminalGrowth: values.terminalGrowth,
+            years: Math.round(values.years),
+            sharesOutstanding: values.sharesMillions * 1e6,
+            netDebt: seed.netDebt
+        };
+    };
+
+    const inputs = getInputs();
+    const result = inputs ? discountedCashFlow(inputs) : null;
+
+    const getHeatmapOption = () => {
+        if (!inputs) return {};
+
+        const discountRates = DISCOUNT_STEPS.map(step => Math.round((inputs.discountRate + step) * 10) / 10);
+        const terminalGrowths = TERMINAL_STEPS.map(step => Math.round((inputs.terminalGrowth + step) * 100) / 100);
+        const grid = sensitivityGrid(inputs, discountRates, terminalGrowths);
+        const values = grid.flat().filter((value): value is number => value !== null);
+
+        // colour around the current price when we have it, else across the grid
+        const price = seed?.price ?? null;
+        const min = price !== null ? price * 0.5 : Math.min(...values);
+        const max = price !== null ? price * 1.5 : Math.max(...values);
+
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+
+        return {
+            backgroundColor: 'transparent',
+            tooltip: {
+                backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                borderColor: '#374151',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 11 : 12
+                },
+                formatter: function (params: any) {
+                    // cells without a value hold echarts' '-' placeholder
+                    const [x, y, cell] = params.data;
+                    const value = typeof cell === 'number' ? cell : null;
+                    const upside = price !== null && value !== null ? ((value - price) / price) * 100 : null;
+
+                    return `
+                        <div style="padding: 8px;">
+                            <div style="font-weight: bold; margin-bottom: 4px;">WACC ${discountRates[y]}% · terminal growth ${terminalGrowths[x]}%</div>
+                            <div>Value per share: <b>${value === null ? 'n/a' : `$${value.toFixed(2)}`}</b></div>
+                            ${upside !== null ? `<div>vs. price: <span style="color: ${upside >= 0 ? '#22c55e' : '#ef4444'};">${upside >= 0 ? '+' : ''}${upside.toFixed(1)}%</span></div>` : ''}
+                        </div>
+                    `;
+                }
+            },
+            grid: {
+                left: isMobile ? '12%' : '8%',
+                right: '4%',
+                bottom: '5%',
+                top: 30,
+                containLabel: true
+            },
+            xAxis: {
+                type: 'category',
+                name: 'Terminal growth',
+                nameLocation: 'middle',
+                nameGap: 28,
+                nameTextStyle: { color: '#d1d5db' },
+                data: terminalGrowths.map(value => `${value}%`),
+                axisLabel: { color: '#e5e7eb' },
+                splitArea: { show: true }
+            },
+            yAxis: {
+                type: 'category',
+                name: 'WACC',
+                nameTextStyle: { color: '#d1d5db' },
+                data: discountRates.map(value => `${value}%`),
+                axisLabel: { color: '#e5e7eb' },
+                splitArea: { show: true }
+            },
+            visualMap: {
+                min,
+                max,
+                show: false,
+                inRange: {
+                    color: ['#ef4444', '#f59e0b', '#22c55e']
+                }
+            },
+            series: [
+                {
+                    type: 'heatmap',
+                    data: grid.flatMap((row, y) => row.map((value, x) => [x, y, value === null ? '-' : Math.round(value * 100) / 100])),
+                    label: {
+                        show: true,
+                        color: '#111827',
+                        fontWeight: 'bold',
+                        fontSize: isMobile ? 10 : 12,
+                        formatter: (params: any) => params.data[2] === '-' ? 'n/a' : `$${Number(params.data[2]).toFixed(0)}`
+                    },
+                    itemStyle: {
+                        borderColor: '#1f2937',
+                        borderWidth: 2
+                    },
+                    emphasis: {
+                        itemStyle: {
+                            borderColor: '#ffffff'
+                        }
+                    }
+                }
+            ]
+        };
+    };
+
+    if (loading) {
+        return (
+            <FloatingCard className="h-full min-h-[350px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Calculator className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">DCF Valuation</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-4">
+                        <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-4 w-48" />
+                            <Skeleton className="h-3 w-32" />
+                        </div>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (error) {
+        return (
+            <FloatingCard className="h-full min-h-[350px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Calculator className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">DCF Valuation</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (!seed || !form) {
+        return (
+            <FloatingCard className="h-full min-h-[350px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Calculator className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">DCF Valuation</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Enter a ticker symbol to estimate intrinsic value from free cash flow
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <Calculator className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>Ready to run a DCF</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    const upside = result && seed.price !== null ? ((result.valuePerShare - seed.price) / seed.price) * 100 : null;
+    const terminalShare = result && result.enterpriseValue > 0 ? (result.presentTerminalValue / result.enterpriseValue) * 100 : null;
+
+    return (
+        <FloatingCard className="flex flex-col h-full min-h-[350px]">
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Calculator className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">DCF Valuation</CardTitle>
+                    </div>
+                    {upside !== null && (
+                        <Badge variant={upside >= 0 ? 'default' : 'destructive'} className="text-xs">
+                            {upside >= 0 ? '+' : ''}{upside.toFixed(1)}% vs. price
+                        </Badge>
+                    )}
+                </div>
+                <CardDescription className="text-gray-300">
+                    FY {seed.fiscalYear} free cash flow of {formatBillions(seed.baseFreeCashFlow)}, grown and discounted back.
+                    {seed.growthFromHistory
+                        ? ' Growth starts at the historical FCF CAGR.'
+                        : ' Growth starts at 5%: the FCF history has no positive endpoints to take a CAGR from.'}
+                </CardDescription>
+            </CardHeader>
+
+            <CardContent className="flex flex-col space-y-4">
+                {/* assumptions */}
+                <div className="grid grid-cols-2 lg:grid-cols-5 gap-3">
+                    {ASSUMPTION_FIELDS.map(field => (
+                        <label key={field.id} className="space-y-1 text-xs text-gray-300 font-medium">
+                            <span>{field.label}</span>
+                            <Input
+                                type="number"
+                                step={field.step}
+                                value={form[field.id]}
+                                onChange={(e) => setForm({ ...form, [field.id]: e.target.value })}
+                                className="h-8 bg-neutral-800/50 border-neutral-600 text-sm"
+                            />
+                        </label>
+                    ))}
+                </div>
+                <div className="flex items-center justify-between gap-2 text-xs text-gray-400">
+                    <span>Net debt of {formatBillions(seed.netDebt)} is subtracted from enterprise value</span>
+                    <Button size="sm" variant="outline" onClick={() => setForm(seedForm(seed))} className="h-7 px-3 text-xs">
+                        <RotateCcw className="mr-1 h-3 w-3" />
+                        Reset
+                    </Button>
+                </div>
+
+                {seed.baseFreeCashFlow <= 0 && (
+                    <Alert>
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>
+                            Free cash flow was negative in FY {seed.fiscalYear}, so projecting it forward says little about value.
+                        </AlertDescription>
+                    </Alert>
+                )}
+
+                {!result ? (
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>
+                            {inputs
+                                ? 'The discount rate must be higher than terminal growth.'
+                                : `Enter numbers for every assumption, with 1–${MAX_PROJECTION_YEARS} projection years and a positive share count.`}
+                        </AlertDescription>
+                    </Alert>
+                ) : (
+                    <>
+                        {/* summary stats */}
+                        <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                            <Card className="bg-neutral-700/50 border-neutral-600">
+                                <CardContent className="p-3 text-center">
+                                    <div className="text-xs text-gray-300 mb-1 font-medium">Intrinsic Value</div>
+                                    <div className="text-sm font-bold text-white">${result.valuePerShare.toFixed(2)}</div>
+                                </CardContent>
+                            </Card>
+                            <Card className="bg-neutral-700/50 border-neutral-600">
+                                <CardContent className="p-3 text-center">
+                                    <div className="text-xs text-gray-300 mb-1 font-medium">Current Price</div>
+                                    <div className="text-sm font-bold text-white">
+                                        {seed.price !== null ? `$${seed.price.toFixed(2)}` : 'N/A'}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                            <Card className="bg-neutral-700/50 border-neutral-600">
+                                <CardContent className="p-3 text-center">
+                                    <div className="text-xs text-gray-300 mb-1 font-medium">Enterprise Value</div>
+                                    <div className="text-sm font-bold text-white">{formatBillions(result.enterpriseValue)}</div>
+                                </CardContent>
+                            </Card>
+                            <Card className="bg-neutral-700/50 border-neutral-600">
+                                <CardContent className="p-3 text-center" title="Share of enterprise value from beyond the projection">
+                                    <div className="text-xs text-gray-300 mb-1 font-medium">Terminal Share</div>
+                                    <div className={`text-sm font-bold ${terminalShare !== null && terminalShare > 75 ? 'text-amber-300' : 'text-white'}`}>
+                                        {terminalShare !== null ? `${terminalShare.toFixed(0)}%` : 'N/A'}
+                                    </div>
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        {/* echarts sensitivity heatmap */}
+                        <div className="space-y-1">
+                            <div className="text-xs text-gray-300 font-medium">
+                                Value per share by WACC and terminal growth{seed.price !== null && ', coloured against the current price'}
+                            </div>
+                            <div className="h-[280px] w-full">
+                                <ReactECharts
+                                    option={getHeatmapOption()}
+                                    style={{ height: '100%', width: '100%' }}
+                                    theme="dark"
+                                    opts={{ renderer: 'svg' }}
+                                    notMerge={true}
+                                />
+                            </div>
+                        </div>
+                    </>
+                )}
+            </CardContent>
+        </FloatingCard>
+    );
+}
@@ -1,14 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import axios from 'axios';
 import ReactECharts from 'echarts-for-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { TrendingUp, BarChart3, AlertCircle, DollarSign } from 'lucide-react';
+import { TrendingUp, BarChart3, AlertCircle, DollarSign, Clock } from 'lucide-react';
 import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+import { FundamentalMetrics } from '../utils/narrative';
+import { parseMonthlyAdjustedSeries } from '../utils/priceSeries';
+import { DividendAnalytics, analyzeDividends } from '../utils/dividends';
 
 interface DividendData {
     date: string;
@@ -24,10 +27,13 @@ interface YearlyDividend {
 interface DividendsChartProps {
     ticker: string;
     shouldFetch: boolean;
+    /** Called with the figures the narrative summary uses once data has loaded */
+    onMetrics?: (metrics: FundamentalMetrics) => void;
 }
 
-export default function DividendsChart({ ticker, shouldFetch }: DividendsChartProps) {
+export default function DividendsChart({ ticker, shouldFetch, onMetrics }: DividendsChartProps) {
     const [dividendsData, setDividendsData] = useState<YearlyDividend[]>([]);
+    const [analytics, setAnalytics] = useState<DividendAnalytics | null>(null);
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string>('');
 
@@ -38,21 +44,14 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
         setError('');
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY;
+            // earnings and cash flow only feed the payout ratios, and are shared with their own cards
+            const [response, earnings, cashFlow] = await Promise.all([
+                fetchMarketData('TIME_SERIES_MONTHLY_ADJUSTED', { symbol: ticker }),
+                fetchMarketData('EARNINGS', { symbol: ticker }).catch(() => undefined),
+                fetchMarketData('CASH_FLOW', { symbol: ticker }).catch(() => undefined)
+            ]);
 
-            if (!API_KEY) {
-                throw new Error('Alpha Vantage API key not configured. Please add NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY to your .env.local file.');
-            }
-
-            const url = `https://www.alphavantage.co/query?function=TIME_SERIES_MONTHLY_ADJUSTED&symbol=${ticker}&apikey=${API_KEY}`;
-
-            const response = await axios.get(url);
-
-            if (response.data['Error Message']) {
-                throw new Error(response.data['Error Message']);
-            }
-
-            const monthlyData = response.data['Monthly Adjusted Time Series'] || {};
+            const monthlyData = response['Monthly Adjusted Time Series'] || {};
 
             const dividendPayments: DividendData[] = [];
 
@@ -92,7 +91,14 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
                 throw new Error('No dividends data available for this ticker');
             }
 
+            const dividendAnalytics = analyzeDividends(parseMonthlyAdjustedSeries(response), earnings, cashFlow);
+
             setDividendsData(sortedYearlyDividends);
+            setAnalytics(dividendAnalytics);
+
+            onMetrics?.({
+                dividendStreak: { paidYears: dividendAnalytics.paidYears, raisedYears: dividendAnalytics.raisedYears }
+            });
 
         } catch (err: any) {
             console.error('Error fetching dividends data:', err);
@@ -117,6 +123,8 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
         const dividendAmounts = dividendsData.map(data => data.totalDividend);
 
         const colors = dividendAmounts.map((amount, index) => {
+            // a partial year isn't a cut
+            if (years[index] === analytics?.inProgressYear) return '#6b7280';
             if (index === 0) return '#3b82f6';
             const previousAmount = dividendAmounts[index - 1];
             if (amount > previousAmount) return '#22c55e';
@@ -156,8 +164,12 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
                     const currentAmount = data.totalDividend;
                     const previousAmount = dataIndex > 0 ? dividendsData[dataIndex - 1].totalDividend : null;
 
+                    const inProgress = data.year === analytics?.inProgressYear;
+
                     let growthText = '';
-                    if (previousAmount !== null) {
+                    if (inProgress) {
+                        growthText = `<div style="color: #9ca3af;">Year in progress, total so far</div>`;
+                    } else if (previousAmount !== null) {
                         const growthRate = ((currentAmount - previousAmount) / previousAmount) * 100;
                         const growthColor = growthRate >= 0 ? '#22c55e' : '#ef4444';
                         growthText = `<div>Growth: <span style="color: ${growthColor};">${growthRate > 0 ? '+' : ''}${growthRate.toFixed(1)}%</span></div>`;
@@ -298,12 +310,12 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
         );
     }
 
-    const latestDividend = dividendsData.length > 0 ? dividendsData[dividendsData.length - 1].totalDividend : 0;
-    const avgDividend = dividendsData.length > 0 ? dividendsData.slice(-5).reduce((sum, data) => sum + data.totalDividend, 0) / Math.min(5, dividendsData.length) : 0;
-    const growthYears = dividendsData.filter((data, index) => {
-        if (index === 0) return false;
-        return data.totalDividend > dividendsData[index - 1].totalDividend;
-    }).length;
+    const ttmDividend = analytics?.ttmDividend ?? 0;
+    const formatPercent = (value: number | null | undefined) => value === null || value === undefined ? '—' : `${value.toFixed(1)}%`;
+    const formatGrowth = (value: number | null | undefined) => value === null || value === undefined ? '—' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+    // over 100% the dividend isn't covered by what the company earns
+    const payoutColor = (value: number | null | undefined) =>
+        value === null || value === undefined ? 'text-white' : value > 100 ? 'text-red-400' : value > 75 ? 'text-amber-400' : 'text-green-400';
 
     return (
         <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
@@ -313,12 +325,20 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
                         <DollarSign className="h-5 w-5 text-blue-400" />
                         <CardTitle className="text-lg font-bold text-white">Annual Dividends</CardTitle>
                     </div>
-                    {latestDividend > 0 && (
-                        <Badge variant="secondary" className="text-xs">
-                            <TrendingUp className="h-3 w-3 mr-1" />
-                            ${latestDividend.toFixed(2)}
-                        </Badge>
-                    )}
+                    <div className="flex gap-2">
+                        {analytics?.inProgressYear && (
+                            <Badge variant="outline" className="text-xs text-gray-300">
+                                <Clock className="h-3 w-3 mr-1" />
+                                {analytics.inProgressYear} in progress
+                            </Badge>
+                        )}
+                        {ttmDividend > 0 && (
+                            <Badge variant="secondary" className="text-xs">
+                                <TrendingUp className="h-3 w-3 mr-1" />
+                                ${ttmDividend.toFixed(2)} TTM
+                            </Badge>
+                        )}
+                    </div>
                 </div>
                 <CardDescription className="text-gray-300">
                     Yearly dividend payments per share
@@ -337,30 +357,54 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
                 </div>
 
                 {/* summary stats */}
-                {dividendsData.length > 0 && (
+                {analytics && (
                     <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
                         <Card className="bg-neutral-700/50 border-neutral-600">
-                            <CardContent className="p-3 text-center">
-                                <div className="text-xs text-gray-300 mb-1 font-medium">Latest Year</div>
-                                <div className="text-sm font-bold text-white">${latestDividend.toFixed(2)}</div>
+                            <CardContent className="p-3 text-center" title="Paid over the last 12 months">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">TTM Dividend</div>
+                                <div className="text-sm font-bold text-white">${ttmDividend.toFixed(2)}</div>
+                            </CardContent>
+                        </Card>
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center" title="TTM dividend over the latest close">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Yield</div>
+                                <div className="text-sm font-bold text-white">{formatPercent(analytics.dividendYield)}</div>
                             </CardContent>
                         </Card>
                         <Card className="bg-neutral-700/50 border-neutral-600">
-                            <CardContent className="p-3 text-center">
-                                <div className="text-xs text-gray-300 mb-1 font-medium">5-Yr Avg</div>
-                                <div className="text-sm font-bold text-white">${avgDividend.toFixed(2)}</div>
+                            <CardContent className="p-3 text-center" title="TTM dividend over TTM EPS">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Payout (EPS)</div>
+                                <div className={`text-sm font-bold ${payoutColor(analytics.epsPayoutRatio)}`}>{formatPercent(analytics.epsPayoutRatio)}</div>
                             </CardContent>
                         </Card>
                         <Card className="bg-neutral-700/50 border-neutral-600">
-                            <CardContent className="p-3 text-center">
-                                <div className="text-xs text-gray-300 mb-1 font-medium">Growth Years</div>
-                                <div className="text-sm font-bold text-white">{growthYears}/{dividendsData.length - 1}</div>
+                            <CardContent className="p-3 text-center" title="Dividends paid over free cash flow, last four quarters">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Payout (FCF)</div>
+                                <div className={`text-sm font-bold ${payoutColor(analytics.fcfPayoutRatio)}`}>{formatPercent(analytics.fcfPayoutRatio)}</div>
                             </CardContent>
                         </Card>
                         <Card className="bg-neutral-700/50 border-neutral-600">
-                            <CardContent className="p-3 text-center">
-                                <div className="text-xs text-gray-300 mb-1 font-medium">Total Years</div>
-                                <div className="text-sm font-bold text-white">{dividendsData.length}</div>
+                            <CardContent className="p-3 text-center" title="Consecutive full years with a higher total">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Raise Streak</div>
+                                <div className="text-sm font-bold text-white">{analytics.raisedYears} yr{analytics.raisedYears === 1 ? '' : 's'}</div>
+                            </CardContent>
+                        </Card>
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center" title="Consecutive full years with a dividend">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Paid Streak</div>
+                                <div className="text-sm font-bold text-white">{analytics.paidYears} yr{analytics.paidYears === 1 ? '' : 's'}</div>
+                            </CardContent>
+                        </Card>
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center" title="Dividend per share growth to the last full year">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">5-Yr CAGR</div>
+                                <div className="text-sm font-bold text-white">{formatGrowth(analytics.cagr5)}</div>
+                            </CardContent>
+                        </Card>
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center" title="Dividend per share growth to the last full year">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">10-Yr CAGR</div>
+                                <div className="text-sm font-bold text-white">{formatGrowth(analytics.cagr10)}</div>
                             </CardContent>
                         </Card>
                     </div>
@@ -384,6 +428,12 @@ export default function DividendsChart({ ticker, shouldFetch }: DividendsChartPr
                         <div className="w-3 h-3 bg-red-500 rounded"></div>
                         <span className="text-gray-300 font-medium">No Change</span>
                     </div>
+                    {analytics?.inProgressYear && (
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-gray-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">In Progress</span>
+                        </div>
+                    )}
                 </div>
             </CardContent>
         </FloatingCard>
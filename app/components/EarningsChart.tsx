@@ -1,14 +1,17 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import axios from 'axios';
 import ReactECharts from 'echarts-for-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
 import { TrendingUp, BarChart3, AlertCircle } from 'lucide-react';
 import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+import { FundamentalMetrics, percentChange } from '../utils/narrative';
+import { optionCodec, useQueryState } from '../utils/urlState';
 
 interface EarningsData {
     fiscalDateEnding: string;
@@ -19,13 +22,65 @@ interface EarningsData {
     surprisePercentage: string;
 }
 
+interface AnnualEarningsData {
+    fiscalDateEnding: string;
+    reportedEPS: string;
+}
+
 interface EarningsChartProps {
     ticker: string;
     shouldFetch: boolean;
+    /** Called with the figures the narrative summary uses once data has loaded */
+    onMetrics?: (metrics: FundamentalMetrics) => void;
 }
 
-export default function EarningsChart({ ticker, shouldFetch }: EarningsChartProps) {
-    const [earningsData, setEarningsData] = useState<EarningsData[]>([]);
+type EarningsPeriod = 'annual' | 'quarterly';
+
+const EARNINGS_PERIODS: EarningsPeriod[] = ['annual', 'quarterly'];
+
+const QUARTER_COUNT_OPTIONS = [4, 8, 12, 20];
+
+// Alpha Vantage sends "None" for quarters without an estimate
+const parseEps = (value: string | undefined): number | null => {
+    const parsed = parseFloat(value ?? '');
+    return Number.isFinite(parsed) ? parsed : null;
+};
+
+const formatQuarter = (dateString: string) => {
+    const [year, month] = dateString.split('-').map(part => parseInt(part, 10));
+    return `Q${Math.floor((month - 1) / 3) + 1} '${year.toString().substring(2)}`;
+};
+
+/**
+ * Beat rate and average surprise over the quarters that have an estimate
+ */
+const summarizeSurprises = (quarters: EarningsData[]) => {
+    const estimated = quarters.filter(quarter =>
+        parseEps(quarter.reportedEPS) !== null && parseEps(quarter.estimatedEPS) !== null
+    );
+
+    if (estimated.length === 0) {
+        return { beats: 0, counted: 0, beatRate: null, avgSurprise: null };
+    }
+
+    const beats = estimated.filter(quarter => parseEps(quarter.reportedEPS)! > parseEps(quarter.estimatedEPS)!).length;
+    const surprises = estimated
+        .map(quarter => parseEps(quarter.surprisePercentage))
+        .filter((value): value is number => value !== null);
+
+    return {
+        beats,
+        counted: estimated.length,
+        beatRate: (beats / estimated.length) * 100,
+        avgSurprise: surprises.length > 0 ? surprises.reduce((sum, value) => sum + value, 0) / surprises.length : null
+    };
+};
+
+export default function EarningsChart({ ticker, shouldFetch, onMetrics }: EarningsChartProps) {
+    const [earningsData, setEarningsData] = useState<AnnualEarningsData[]>([]);
+    const [quarterlyData, setQuarterlyData] = useState<EarningsData[]>([]);
+    const [period, setPeriod] = useQueryState<EarningsPeriod>('eps', 'annual', optionCodec(EARNINGS_PERIODS));
+    const [quarterCount, setQuarterCount] = useQueryState<number>('quarters', 8, optionCodec(QUARTER_COUNT_OPTIONS));
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string>('');
 
@@ -36,29 +91,29 @@ export default function EarningsChart({ ticker, shouldFetch }: EarningsChartProp
         setError('');
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY;
-
-            if (!API_KEY) {
-                throw new Error('Alpha Vantage API key not configured. Please add NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY to your .env.local file.');
-            }
+            const response = await fetchMarketData('EARNINGS', { symbol: ticker });
 
-            const url = `https://www.alphavantage.co/query?function=EARNINGS&symbol=${ticker}&apikey=${API_KEY}`;
-
-            const response = await axios.get(url);
-
-            if (response.data['Error Message']) {
-                throw new Error(response.data['Error Message']);
-            }
-
-            const annualEarnings = response.data.annualEarnings || [];
+            const annualEarnings = response.annualEarnings || [];
 
             if (annualEarnings.length === 0) {
                 throw new Error('No earnings data available for this ticker');
             }
 
             const recentEarnings = annualEarnings.slice(0, 10).reverse();
+            const quarterlyEarnings: EarningsData[] = response.quarterlyEarnings || [];
 
             setEarningsData(recentEarnings);
+            setQuarterlyData(quarterlyEarnings.slice(0, Math.max(...QUARTER_COUNT_OPTIONS)).reverse());
+
+            // trailing twelve months against the twelve before, newest quarters first
+            const reported = quarterlyEarnings.slice(0, 8).map(quarter => parseEps(quarter.reportedEPS));
+            if (reported.length === 8 && reported.every(value => value !== null)) {
+                const sum = (values: Array<number | null>) => values.reduce<number>((total, value) => total + value!, 0);
+                const growth = percentChange(sum(reported.slice(0, 4)), sum(reported.slice(4)));
+                if (growth !== null) {
+                    onMetrics?.({ epsGrowth: { value: growth, period: 'trailing twelve months' } });
+                }
+            }
 
         } catch (err: any) {
             console.error('Error fetching earnings data:', err);
@@ -80,8 +135,184 @@ export default function EarningsChart({ ticker, shouldFetch }: EarningsChartProp
         return date.getFullYear().toString();
     };
 
+    const visibleQuarters = quarterlyData.slice(-quarterCount);
+
     // prepare data for echarts
     const getChartOption = () => {
+        return period === 'quarterly' ? getQuarterlyChartOption() : getAnnualChartOption();
+    };
+
+    const getQuarterlyChartOption = () => {
+        if (visibleQuarters.length === 0) return {};
+
+        const categories = visibleQuarters.map(data => formatQuarter(data.fiscalDateEnding));
+        const estimatedEPS = visibleQuarters.map(data => parseEps(data.estimatedEPS));
+        const surprisePercentages = visibleQuarters.map(data => parseEps(data.surprisePercentage));
+
+        // beat / met-or-missed / negative colouring as described in alpha_vantage.md
+        const reportedEPS = visibleQuarters.map(data => {
+            const reported = parseEps(data.reportedEPS) ?? 0;
+            const estimated = parseEps(data.estimatedEPS);
+            let color = '#3b82f6';
+
+            if (reported < 0) color = '#ef4444';
+            else if (estimated !== null && reported > estimated) color = '#22c55e';
+
+            return { value: reported, itemStyle: { color } };
+        });
+
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+
+        return {
+            title: {
+                text: `${ticker.toUpperCase()} Quarterly Earnings`,
+                subtext: 'Reported vs. Estimated EPS',
+                left: 'center',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 16 : 20,
+                    fontWeight: 'bold'
+                },
+                subtextStyle: {
+                    color: '#f3f4f6',
+                    fontSize: isMobile ? 12 : 14,
+                    fontWeight: 500
+                }
+            },
+            backgroundColor: 'transparent',
+            tooltip: {
+                trigger: 'axis',
+                backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                borderColor: '#374151',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 11 : 12
+                },
+                formatter: function (params: any) {
+                    const dataIndex = params[0].dataIndex;
+                    const data = visibleQuarters[dataIndex];
+                    const surprise = parseEps(data.surprisePercentage);
+                    const surpriseColor = surprise !== null && surprise >= 0 ? '#22c55e' : '#ef4444';
+
+                    return `
+                        <div style="padding: 8px;">
+                            <div style="font-weight: bold; margin-bottom: 4px;">${formatQuarter(data.fiscalDateEnding)} (reported ${data.reportedDate})</div>
+                            <div>Reported EPS: <span style="color: #22c55e;">$${data.reportedEPS}</span></div>
+                            <div>Estimated EPS: <span style="color: #9ca3af;">${parseEps(data.estimatedEPS) !== null ? '$' + data.estimatedEPS : 'N/A'}</span></div>
+                            <div>Surprise: <span style="color: ${surpriseColor};">${surprise !== null ? `${surprise > 0 ? '+' : ''}${surprise.toFixed(1)}%` : 'N/A'}</span></div>
+                        </div>
+                    `;
+                }
+            },
+            legend: {
+                data: ['Estimated EPS', 'Reported EPS', 'Surprise %'],
+                top: isMobile ? '15%' : '12%',
+                textStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 9 : 12
+                }
+            },
+            grid: {
+                left: isMobile ? '8%' : '5%',
+                right: isMobile ? '8%' : '5%',
+                bottom: isMobile ? '5%' : '2%',
+                top: isMobile ? '30%' : '25%',
+                containLabel: true
+            },
+            xAxis: {
+                type: 'category',
+                data: categories,
+                axisLabel: {
+                    color: '#9ca3af',
+                    rotate: isMobile ? 45 : 0,
+                    fontSize: isMobile ? 10 : 12
+                },
+                axisLine: {
+                    lineStyle: {
+                        color: '#374151'
+                    }
+                }
+            },
+            yAxis: [
+                {
+                    type: 'value',
+                    name: 'EPS ($)',
+                    nameTextStyle: {
+                        color: '#d1d5db',
+                        fontSize: isMobile ? 11 : 13,
+                        fontWeight: 500
+                    },
+                    axisLabel: {
+                        color: '#e5e7eb',
+                        formatter: '${value}',
+                        fontSize: isMobile ? 11 : 13,
+                        fontWeight: 500
+                    },
+                    splitLine: {
+                        lineStyle: {
+                            color: '#374151',
+                            type: 'dashed'
+                        }
+                    }
+                },
+                {
+                    type: 'value',
+                    name: 'Surprise (%)',
+                    nameTextStyle: {
+                        color: '#d1d5db',
+                        fontSize: isMobile ? 11 : 13,
+                        fontWeight: 500
+                    },
+                    axisLabel: {
+                        color: '#e5e7eb',
+                        formatter: '{value}%',
+                        fontSize: isMobile ? 11 : 13
+                    },
+                    splitLine: {
+                        show: false
+                    }
+                }
+            ],
+            series: [
+                {
+                    name: 'Estimated EPS',
+                    type: 'bar',
+                    data: estimatedEPS,
+                    itemStyle: {
+                        color: 'rgba(156, 163, 175, 0.35)'
+                    },
+                    barGap: '-100%',
+                    barWidth: isMobile ? '60%' : '50%'
+                },
+                {
+                    name: 'Reported EPS',
+                    type: 'bar',
+                    data: reportedEPS,
+                    barWidth: isMobile ? '40%' : '30%',
+                    itemStyle: {
+                        color: '#22c55e'
+                    }
+                },
+                {
+                    name: 'Surprise %',
+                    type: 'line',
+                    yAxisIndex: 1,
+                    data: surprisePercentages,
+                    connectNulls: true,
+                    lineStyle: {
+                        color: '#f59e0b',
+                        width: 2
+                    },
+                    itemStyle: {
+                        color: '#f59e0b'
+                    },
+                    symbolSize: 6
+                }
+            ]
+        };
+    };
+
+    const getAnnualChartOption = () => {
         if (earningsData.length === 0) return {};
 
         const categories = earningsData.map(data => formatDate(data.fiscalDateEnding));
@@ -275,6 +506,10 @@ export default function EarningsChart({ ticker, shouldFetch }: EarningsChartProp
         return parseFloat(data.reportedEPS || '0') > parseFloat(earningsData[index - 1].reportedEPS || '0');
     }).length;
 
+    const surpriseSummary = summarizeSurprises(visibleQuarters);
+    const latestQuarter = visibleQuarters[visibleQuarters.length - 1];
+    const latestSurprise = latestQuarter ? parseEps(latestQuarter.surprisePercentage) : null;
+
     return (
         <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
             <CardHeader>
@@ -291,8 +526,41 @@ export default function EarningsChart({ ticker, shouldFetch }: EarningsChartProp
                     )}
                 </div>
                 <CardDescription className="text-gray-300">
-                    Historical earnings per share with growth analysis
+                    {period === 'annual'
+                        ? 'Historical earnings per share with growth analysis'
+                        : 'Reported vs. estimated EPS with earnings surprise'}
                 </CardDescription>
+                <div className="flex items-center gap-2 flex-wrap">
+                    {EARNINGS_PERIODS.map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={period === option ? 'default' : 'outline'}
+                            onClick={() => setPeriod(option)}
+                            disabled={option === 'quarterly' && quarterlyData.length === 0}
+                            className="h-7 px-3 text-xs capitalize"
+                        >
+                            {option}
+                        </Button>
+                    ))}
+                    {period === 'quarterly' && (
+                        <div className="flex items-center gap-1 ml-auto text-xs text-gray-400">
+                            Last
+                            {QUARTER_COUNT_OPTIONS.map(count => (
+                                <Button
+                                    key={count}
+                                    size="sm"
+                                    variant={quarterCount === count ? 'secondary' : 'ghost'}
+                                    onClick={() => setQuarterCount(count)}
+                                    className="h-7 px-2 text-xs"
+                                >
+                                    {count}
+                                </Button>
+                            ))}
+                            quarters
+                        </div>
+                    )}
+                </div>
             </CardHeader>
 
             <CardContent className="flex flex-col h-full space-y-4">
@@ -303,11 +571,12 @@ export default function EarningsChart({ ticker, shouldFetch }: EarningsChartProp
                         style={{ height: '100%', width: '100%' }}
                         theme="dark"
                         opts={{ renderer: 'svg' }}
+                        notMerge={true}
                     />
                 </div>
 
                 {/* summary stats */}
-                {earningsData.length > 0 && (
+                {period === 'annual' && earningsData.length > 0 && (
                     <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
                         <Card className="bg-neutral-700/50 border-neutral-600">
                             <CardContent className="p-3 text-center">
@@ -338,25 +607,83 @@ export default function EarningsChart({ ticker, shouldFetch }: EarningsChartProp
                     </div>
                 )}
 
-                {/* legend */}
-                <div className="flex justify-center gap-4 text-xs flex-wrap">
-                    <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 bg-blue-500 rounded"></div>
-                        <span className="text-gray-300 font-medium">First Year</span>
-                    </div>
-                    <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 bg-green-500 rounded"></div>
-                        <span className="text-gray-300 font-medium">Growth</span>
+                {period === 'quarterly' && visibleQuarters.length > 0 && (
+                    <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Latest Quarter EPS</div>
+                                <div className="text-sm font-bold text-white">${latestQuarter.reportedEPS}</div>
+                            </CardContent>
+                        </Card>
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Latest Surprise</div>
+                                <div className={`text-sm font-bold ${latestSurprise === null ? 'text-white' : latestSurprise >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                                    {latestSurprise !== null ? `${latestSurprise > 0 ? '+' : ''}${latestSurprise.toFixed(1)}%` : 'N/A'}
+                                </div>
+                            </CardContent>
+                        </Card>
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Beat Rate</div>
+                                <div className="text-sm font-bold text-white">
+                                    {surpriseSummary.beatRate !== null
+                                        ? `${surpriseSummary.beatRate.toFixed(0)}% (${surpriseSummary.beats}/${surpriseSummary.counted})`
+                                        : 'N/A'}
+                                </div>
+                            </CardContent>
+                        </Card>
+                        <Card className="bg-neutral-700/50 border-neutral-600">
+                            <CardContent className="p-3 text-center">
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Avg Surprise</div>
+                                <div className={`text-sm font-bold ${surpriseSummary.avgSurprise === null ? 'text-white' : surpriseSummary.avgSurprise >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                                    {surpriseSummary.avgSurprise !== null ? `${surpriseSummary.avgSurprise.toFixed(1)}%` : 'N/A'}
+                                </div>
+                            </CardContent>
+                        </Card>
                     </div>
-                    <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 bg-amber-500 rounded"></div>
-                        <span className="text-gray-300 font-medium">Decline</span>
+                )}
+
+                {/* legend */}
+                {period === 'quarterly' ? (
+                    <div className="flex justify-center gap-4 text-xs flex-wrap">
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-gray-400/40 rounded"></div>
+                            <span className="text-gray-300 font-medium">Estimated</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-green-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">Beat</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-blue-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">Met / Missed</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-red-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">Negative</span>
+                        </div>
                     </div>
-                    <div className="flex items-center gap-2">
-                        <div className="w-3 h-3 bg-red-500 rounded"></div>
-                        <span className="text-gray-300 font-medium">Negative</span>
+                ) : (
+                    <div className="flex justify-center gap-4 text-xs flex-wrap">
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-blue-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">First Year</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-green-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">Growth</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-amber-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">Decline</span>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <div className="w-3 h-3 bg-red-500 rounded"></div>
+                            <span className="text-gray-300 font-medium">Negative</span>
+                        </div>
                     </div>
-                </div>
+                )}
             </CardContent>
         </FloatingCard>
     );
@@ -0,0 +1,55 @@
+'use client';
+
+import { Attribution } from '../utils/sentiment';
+
+interface HighlightedTextProps {
+    text: string;
+    attributions: Attribution[];
+    className?: string;
+}
+
+// spans weaker than this share of the strongest one are left plain
+const MIN_RELATIVE_WEIGHT = 0.1;
+
+/**
+ * Render text with the spans that pushed its sentiment shaded green (positive) or red (negative)
+ */
+export default function HighlightedText({ text, attributions, className }: HighlightedTextProps) {
+    const maxWeight = Math.max(0, ...attributions.map(attribution => Math.abs(attribution.weight)));
+    const spans = attributions
+        .filter(attribution => maxWeight > 0 && Math.abs(attribution.weight) / maxWeight >= MIN_RELATIVE_WEIGHT)
+        .sort((a, b) => a.start - b.start);
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+
+    spans.forEach((span, index) => {
+        // overlapping spans keep the first one
+        if (span.start < cursor) return;
+
+        if (span.start > cursor) {
+            parts.push(text.slice(cursor, span.start));
+        }
+
+        const strength = Math.abs(span.weight) / maxWeight;
+        const alpha = (0.15 + 0.55 * strength).toFixed(2);
+
+        parts.push(
+            <mark
+                key={index}
+                title={`${span.weight >= 0 ? '+' : ''}${span.weight.toFixed(3)}`}
+                className="rounded px-0.5 text-white"
+                style={{
+                    backgroundColor: span.weight >= 0 ? `rgba(34, 197, 94, ${alpha})` : `rgba(239, 68, 68, ${alpha})`
+                }}
+            >
+                {text.slice(span.start, span.end)}
+            </mark>
+        );
+        cursor = span.end;
+    });
+
+    parts.push(text.slice(cursor));
+
+    return <p className={className}>{parts}</p>;
+}
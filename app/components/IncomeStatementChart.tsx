@@ -1,31 +1,79 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import axios from 'axios';
 import ReactECharts from 'echarts-for-react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { TrendingUp, BarChart3, AlertCircle, LineChart } from 'lucide-react';
 import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+import { FundamentalMetrics } from '../utils/narrative';
+import { STATEMENT_PERIODS, STATEMENT_PERIOD_LABELS, StatementPeriod, StatementPoint, availableStatementPeriods, statementSeries } from '../utils/fundamentals';
+import { optionCodec, useQueryState } from '../utils/urlState';
 
-interface IncomeData {
-    year: string;
+const INCOME_FIELDS = ['totalRevenue', 'netIncome', 'operatingIncome', 'grossProfit', 'operatingExpenses'] as const;
+// a report without these is dropped; the others are left blank where missing (banks report no gross profit)
+const REQUIRED_INCOME_FIELDS = ['totalRevenue', 'netIncome'] as const;
+
+type IncomeField = typeof INCOME_FIELDS[number];
+type RequiredIncomeField = typeof REQUIRED_INCOME_FIELDS[number];
+
+// points shown per period
+const POINT_LIMITS: Record<StatementPeriod, number> = { annual: 10, quarterly: 12, ttm: 12 };
+
+/** Amounts in $ billions, null where the report left them out */
+interface IncomeData extends Record<IncomeField, number | null> {
     totalRevenue: number;
     netIncome: number;
-    operatingIncome: number;
-    grossProfit: number;
-    operatingExpenses: number;
+    label: string;
+    fiscalDateEnding: string;
+    yoy: Record<IncomeField, number | null>;
+    qoq: Record<IncomeField, number | null> | null;
 }
 
+const toBillions = (value: number | null) => value === null ? null : value / 1000000000;
+
+const toIncomeData = (point: StatementPoint<IncomeField, RequiredIncomeField>): IncomeData => ({
+    label: point.label,
+    fiscalDateEnding: point.fiscalDateEnding,
+    totalRevenue: point.values.totalRevenue / 1000000000,
+    netIncome: point.values.netIncome / 1000000000,
+    operatingIncome: toBillions(point.values.operatingIncome),
+    grossProfit: toBillions(point.values.grossProfit),
+    operatingExpenses: toBillions(point.values.operatingExpenses),
+    yoy: point.yoy,
+    qoq: point.qoq
+});
+
+const formatBillions = (value: number | null) => value === null ? 'N/A' : `$${value.toFixed(1)}B`;
+
+const formatMargin = (value: number | null, revenue: number) =>
+    value === null || revenue <= 0 ? '' : ` (${(value / revenue * 100).toFixed(1)}%)`;
+
+const formatChange = (label: string, value: number | null | undefined) =>
+    value === null || value === undefined ? null : `${label} ${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+
+/**
+ * YoY and QoQ growth for a tooltip row
+ */
+const formatGrowth = (data: IncomeData, field: IncomeField) => {
+    const parts = [formatChange('YoY', data.yoy[field]), formatChange('QoQ', data.qoq?.[field])].filter(Boolean);
+    return parts.length > 0 ? ` <span style="color: #9ca3af;">${parts.join(' · ')}</span>` : '';
+};
+
 interface IncomeStatementChartProps {
     ticker: string;
     shouldFetch: boolean;
+    /** Called with the figures the narrative summary uses once data has loaded */
+    onMetrics?: (metrics: FundamentalMetrics) => void;
 }
 
-export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStatementChartProps) {
-    const [incomeData, setIncomeData] = useState<IncomeData[]>([]);
+export default function IncomeStatementChart({ ticker, shouldFetch, onMetrics }: IncomeStatementChartProps) {
+    const [statement, setStatement] = useState<any>(null);
+    const [selectedPeriod, setPeriod] = useQueryState<StatementPeriod>('income', 'annual', optionCodec(STATEMENT_PERIODS));
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string>('');
 
@@ -36,48 +84,25 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
         setError('');
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY;
-
-            if (!API_KEY) {
-                throw new Error('Alpha Vantage API key not configured. Please add NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY to your .env.local file.');
-            }
-
-            const url = `https://www.alphavantage.co/query?function=INCOME_STATEMENT&symbol=${ticker}&apikey=${API_KEY}`;
-
-            const response = await axios.get(url);
-
-            if (response.data['Error Message']) {
-                throw new Error(response.data['Error Message']);
-            }
+            const response = await fetchMarketData('INCOME_STATEMENT', { symbol: ticker });
 
-            const annualReports = response.data.annualReports || [];
+            const annualData = statementSeries(response, 'annual', INCOME_FIELDS, POINT_LIMITS.annual, REQUIRED_INCOME_FIELDS).map(toIncomeData);
 
-            if (annualReports.length === 0) {
+            if (annualData.length === 0) {
                 throw new Error('No income statement data available for this ticker');
             }
 
-            const processedData: IncomeData[] = annualReports
-                .slice(0, 10)
-                .map((report: any) => {
-                    const year = report.fiscalDateEnding.substring(0, 4);
-                    const totalRevenue = parseFloat(report.totalRevenue) || 0;
-                    const netIncome = parseFloat(report.netIncome) || 0;
-                    const operatingIncome = parseFloat(report.operatingIncome) || 0;
-                    const grossProfit = parseFloat(report.grossProfit) || 0;
-                    const operatingExpenses = parseFloat(report.operatingExpenses) || 0;
-
-                    return {
-                        year,
-                        totalRevenue: totalRevenue / 1000000000,
-                        netIncome: netIncome / 1000000000,
-                        operatingIncome: operatingIncome / 1000000000,
-                        grossProfit: grossProfit / 1000000000,
-                        operatingExpenses: operatingExpenses / 1000000000
-                    };
-                })
-                .sort((a: any, b: any) => parseInt(a.year) - parseInt(b.year));
-
-            setIncomeData(processedData);
+            setStatement(response);
+
+            // the summary always describes fiscal years, whichever period is shown
+            const latest = annualData[annualData.length - 1];
+            const revenueGrowth = latest.yoy.totalRevenue;
+            onMetrics?.({
+                netMargin: latest.totalRevenue > 0
+                    ? { value: (latest.netIncome / latest.totalRevenue) * 100, period: latest.label }
+                    : undefined,
+                revenueGrowth: revenueGrowth !== null ? { value: revenueGrowth, period: latest.label } : undefined
+            });
 
         } catch (err: any) {
             console.error('Error fetching income statement data:', err);
@@ -93,10 +118,15 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
         }
     }, [ticker, shouldFetch]);
 
+    const periods = statement ? availableStatementPeriods(statement, INCOME_FIELDS, REQUIRED_INCOME_FIELDS) : [];
+    // a period without data (no quarters, or too few for a TTM) falls back to annual
+    const period = periods.includes(selectedPeriod) ? selectedPeriod : 'annual';
+    const incomeData = statement ? statementSeries(statement, period, INCOME_FIELDS, POINT_LIMITS[period], REQUIRED_INCOME_FIELDS).map(toIncomeData) : [];
+
     const getChartOption = () => {
         if (incomeData.length === 0) return {};
 
-        const years = incomeData.map(data => data.year);
+        const years = incomeData.map(data => data.label);
         const totalRevenue = incomeData.map(data => data.totalRevenue);
         const netIncome = incomeData.map(data => data.netIncome);
         const operatingIncome = incomeData.map(data => data.operatingIncome);
@@ -107,7 +137,7 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
         return {
             title: {
                 text: `${ticker.toUpperCase()} Income Statement`,
-                subtext: 'Revenue, Profit & Operating Performance ($ Billions)',
+                subtext: `${STATEMENT_PERIOD_LABELS[period]} Revenue, Profit & Operating Performance ($ Billions)`,
                 left: 'center',
                 top: '2%',
                 textStyle: {
@@ -146,18 +176,14 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
                     const dataIndex = params[0].dataIndex;
                     const data = incomeData[dataIndex];
 
-                    const grossMargin = data.totalRevenue > 0 ? (data.grossProfit / data.totalRevenue * 100) : 0;
-                    const operatingMargin = data.totalRevenue > 0 ? (data.operatingIncome / data.totalRevenue * 100) : 0;
-                    const netMargin = data.totalRevenue > 0 ? (data.netIncome / data.totalRevenue * 100) : 0;
-
                     return `
                         <div style="padding: 8px;">
-                            <div style="font-weight: bold; margin-bottom: 4px;">${data.year}</div>
-                            <div>Revenue: <span style="color: #3b82f6;">$${data.totalRevenue.toFixed(1)}B</span></div>
-                            <div>Gross Profit: <span style="color: #22c55e;">$${data.grossProfit.toFixed(1)}B</span> (${grossMargin.toFixed(1)}%)</div>
-                            <div>Operating Income: <span style="color: #f59e0b;">$${data.operatingIncome.toFixed(1)}B</span> (${operatingMargin.toFixed(1)}%)</div>
-                            <div>Net Income: <span style="color: #ef4444;">$${data.netIncome.toFixed(1)}B</span> (${netMargin.toFixed(1)}%)</div>
-                            <div>Operating Expenses: <span style="color: #9ca3af;">$${data.operatingExpenses.toFixed(1)}B</span></div>
+                            <div style="font-weight: bold; margin-bottom: 4px;">${period === 'annual' ? data.label : `${period === 'ttm' ? 'TTM' : 'Quarter'} ending ${data.fiscalDateEnding}`}</div>
+                            <div>Revenue: <span style="color: #3b82f6;">$${data.totalRevenue.toFixed(1)}B</span>${formatGrowth(data, 'totalRevenue')}</div>
+                            <div>Gross Profit: <span style="color: #22c55e;">${formatBillions(data.grossProfit)}</span>${formatMargin(data.grossProfit, data.totalRevenue)}${formatGrowth(data, 'grossProfit')}</div>
+                            <div>Operating Income: <span style="color: #f59e0b;">${formatBillions(data.operatingIncome)}</span>${formatMargin(data.operatingIncome, data.totalRevenue)}${formatGrowth(data, 'operatingIncome')}</div>
+                            <div>Net Income: <span style="color: #ef4444;">$${data.netIncome.toFixed(1)}B</span>${formatMargin(data.netIncome, data.totalRevenue)}${formatGrowth(data, 'netIncome')}</div>
+                            <div>Operating Expenses: <span style="color: #9ca3af;">${formatBillions(data.operatingExpenses)}</span></div>
                         </div>
                     `;
                 }
@@ -321,7 +347,7 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
         );
     }
 
-    if (incomeData.length === 0) {
+    if (!statement) {
         return (
             <FloatingCard className="h-full min-h-[350px] lg:min-h-[450px]">
                 <CardHeader>
@@ -344,8 +370,7 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
     }
 
     const latestData = incomeData[incomeData.length - 1];
-    const avgRevenue = incomeData.reduce((sum, data) => sum + data.totalRevenue, 0) / incomeData.length;
-    const profitMargin = (latestData.netIncome / latestData.totalRevenue) * 100;
+    const profitMargin = latestData && latestData.totalRevenue !== 0 ? (latestData.netIncome / latestData.totalRevenue) * 100 : 0;
 
     return (
         <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
@@ -355,14 +380,37 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
                         <LineChart className="h-5 w-5 text-blue-400" />
                         <CardTitle className="text-lg font-bold text-white">Income Statement</CardTitle>
                     </div>
-                    <Badge variant="secondary" className="text-xs">
-                        <TrendingUp className="h-3 w-3 mr-1" />
-                        ${latestData.totalRevenue.toFixed(1)}B Revenue
-                    </Badge>
+                    {latestData && (
+                        <Badge variant="secondary" className="text-xs">
+                            <TrendingUp className="h-3 w-3 mr-1" />
+                            ${latestData.totalRevenue.toFixed(1)}B Revenue
+                        </Badge>
+                    )}
                 </div>
                 <CardDescription className="text-gray-300">
-                    Revenue, Profit & Operating Performance ($ Billions)
+                    {period === 'ttm'
+                        ? 'Trailing twelve months at each quarter end ($ Billions)'
+                        : 'Revenue, Profit & Operating Performance ($ Billions)'}
                 </CardDescription>
+                <div className="flex items-center gap-2 flex-wrap">
+                    {STATEMENT_PERIODS.map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={period === option ? 'default' : 'outline'}
+                            onClick={() => setPeriod(option)}
+                            disabled={!periods.includes(option)}
+                            className="h-7 px-3 text-xs"
+                        >
+                            {STATEMENT_PERIOD_LABELS[option]}
+                        </Button>
+                    ))}
+                </div>
+                {period !== selectedPeriod && (
+                    <p className="text-xs text-amber-300">
+                        No {STATEMENT_PERIOD_LABELS[selectedPeriod]} data for this ticker, showing annual
+                    </p>
+                )}
             </CardHeader>
 
             <CardContent className="flex flex-col h-full space-y-4">
@@ -373,11 +421,12 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
                         style={{ height: '100%', width: '100%' }}
                         theme="dark"
                         opts={{ renderer: 'svg' }}
+                        notMerge={true}
                     />
                 </div>
 
                 {/* summary stats */}
-                {incomeData.length > 0 && (
+                {latestData && (
                     <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
                         <Card className="bg-neutral-700/50 border-neutral-600">
                             <CardContent className="p-3 text-center">
@@ -401,12 +450,9 @@ export default function IncomeStatementChart({ ticker, shouldFetch }: IncomeStat
                         </Card>
                         <Card className="bg-neutral-700/50 border-neutral-600">
                             <CardContent className="p-3 text-center">
-                                <div className="text-xs text-gray-300 mb-1 font-medium">Revenue Growth</div>
+                                <div className="text-xs text-gray-300 mb-1 font-medium">Revenue Growth (YoY)</div>
                                 <div className="text-sm font-bold text-white">
-                                    {incomeData.length >= 2 ?
-                                        (((latestData.totalRevenue - incomeData[incomeData.length - 2].totalRevenue) / incomeData[incomeData.length - 2].totalRevenue) * 100).toFixed(1) + '%'
-                                        : 'N/A'
-                                    }
+                                    {latestData.yoy.totalRevenue !== null ? latestData.yoy.totalRevenue.toFixed(1) + '%' : 'N/A'}
                                 </div>
                             </CardContent>
                         </Card>
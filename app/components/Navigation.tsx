@@ -4,11 +4,14 @@ import Link from 'next/link';
 import { usePathname } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { TrendingUp, Home, BarChart3 } from 'lucide-react';
+import { TrendingUp, Home, BarChart3, MessageSquareText, Star } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import QuotaIndicator from './QuotaIndicator';
 
 export default function Navigation() {
     const pathname = usePathname();
+    // /dashboard and /dashboard/[ticker]
+    const isDashboard = pathname === '/dashboard' || pathname.startsWith('/dashboard/');
 
     return (
         <nav className="border-b border-neutral-700 bg-neutral-900/50 backdrop-blur sticky top-0 z-50">
@@ -36,24 +39,52 @@ export default function Navigation() {
                             </Link>
                             <Link href="/dashboard">
                                 <Button 
-                                    variant={pathname === '/dashboard' ? 'default' : 'ghost'} 
+                                    variant={isDashboard ? 'default' : 'ghost'} 
                                     size="sm"
                                     className={cn(
                                         "text-gray-300 hover:text-white",
-                                        pathname === '/dashboard' && "bg-blue-600 text-white hover:bg-blue-700"
+                                        isDashboard && "bg-blue-600 text-white hover:bg-blue-700"
                                     )}
                                 >
                                     <BarChart3 className="mr-2 h-4 w-4" />
                                     Dashboard
                                 </Button>
                             </Link>
+                            <Link href="/analyze">
+                                <Button 
+                                    variant={pathname === '/analyze' ? 'default' : 'ghost'} 
+                                    size="sm"
+                                    className={cn(
+                                        "text-gray-300 hover:text-white",
+                                        pathname === '/analyze' && "bg-blue-600 text-white hover:bg-blue-700"
+                                    )}
+                                >
+                                    <MessageSquareText className="mr-2 h-4 w-4" />
+                                    Analyze Posts
+                                </Button>
+                            </Link>
+                            <Link href="/watchlists">
+                                <Button 
+                                    variant={pathname === '/watchlists' ? 'default' : 'ghost'} 
+                                    size="sm"
+                                    className={cn(
+                                        "text-gray-300 hover:text-white",
+                                        pathname === '/watchlists' && "bg-blue-600 text-white hover:bg-blue-700"
+                                    )}
+                                >
+                                    <Star className="mr-2 h-4 w-4" />
+                                    Watchlists
+                                </Button>
+                            </Link>
                         </div>
                         
+                        <QuotaIndicator />
+
                         <Badge variant="secondary" className="bg-blue-500/20 text-blue-300 border-blue-500/30">
                             AI-Powered
                         </Badge>
                         
-                        {pathname !== '/dashboard' && (
+                        {!isDashboard && (
                             <Link href="/dashboard">
                                 <Button size="lg" className="bg-blue-600 hover:bg-blue-700">
                                     Launch Dashboard
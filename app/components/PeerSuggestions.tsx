@@ -0,0 +1,126 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Loader2, Plus, Users } from 'lucide-react';
+import { fetchMarketData } from '../utils/marketApi';
+import { parseOverview } from '../utils/fundamentals';
+import { PeerProfile, PeerSuggestion, peerIndex, profileFromOverview, suggestPeers } from '../utils/peers';
+import { MAX_COMPARE_TICKERS } from '../utils/comparison';
+import { tickerListCodec, useQueryState } from '../utils/urlState';
+
+interface PeerSuggestionsProps {
+    ticker: string;
+}
+
+const SUGGESTION_COUNT = 5;
+
+const formatMarketCap = (value: number | null) => {
+    if (value === null) return 'size unknown';
+    return value >= 1e12 ? `$${(value / 1e12).toFixed(1)}T` : `$${(value / 1e9).toFixed(0)}B`;
+};
+
+const describe = (peer: PeerSuggestion) =>
+    `${peer.name} · same ${peer.match} (${(peer.match === 'industry' ? peer.industry : peer.sector).toLowerCase()}) · ${formatMarketCap(peer.marketCap)}`;
+
+export default function PeerSuggestions({ ticker }: PeerSuggestionsProps) {
+    const [others, setOthers] = useQueryState<string[]>('compare', [], tickerListCodec(MAX_COMPARE_TICKERS - 1));
+    const [target, setTarget] = useState<PeerProfile | null>(null);
+    const [profiles, setProfiles] = useState<PeerProfile[]>([]);
+    const [loading, setLoading] = useState<boolean>(false);
+
+    const symbol = ticker.trim().toUpperCase();
+
+    // read the index after mount, localStorage isn't available during SSR
+    useEffect(() => {
+        const readProfiles = () => setProfiles(peerIndex.getProfiles());
+
+        readProfiles();
+        return peerIndex.subscribe(readProfiles);
+    }, []);
+
+    // the ticker's own classification; OVERVIEW is cached for a day
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadTarget = async () => {
+            setLoading(true);
+            setTarget(peerIndex.getProfile(symbol) ?? null);
+
+            try {
+                const overview = parseOverview(await fetchMarketData('OVERVIEW', { symbol }));
+                if (overview && !cancelled) {
+                    peerIndex.record(overview);
+                    setTarget(profileFromOverview(overview));
+                }
+            } catch (err) {
+                // fall back to whatever the index already knows
+                console.error(`Error fetching overview for ${symbol}:`, err);
+            } finally {
+                if (!cancelled) setLoading(false);
+            }
+        };
+
+        loadTarget();
+        return () => {
+            cancelled = true;
+        };
+    }, [symbol]);
+
+    const slots = MAX_COMPARE_TICKERS - 1 - others.filter(other => other !== symbol).length;
+    const suggestions = target ? suggestPeers(target, profiles, SUGGESTION_COUNT, others) : [];
+    const fillCount = Math.min(slots, suggestions.length);
+
+    const addPeers = (peers: string[]) => {
+        setOthers([...others, ...peers].slice(0, MAX_COMPARE_TICKERS - 1));
+    };
+
+    if (loading && !target) {
+        return (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+                <Loader2 className="h-3 w-3 animate-spin" />
+                Finding peers...
+            </div>
+        );
+    }
+
+    if (suggestions.length === 0) {
+        return (
+            <p className="text-xs text-gray-500">
+                {target ? `No known peers in ${target.industry || target.sector || 'this industry'} yet` : `No sector data for ${symbol}`}
+            </p>
+        );
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <span className="flex items-center gap-1 text-xs text-gray-400">
+                <Users className="h-3 w-3" />
+                Suggested peers
+            </span>
+            {suggestions.map(peer => (
+                <Button
+                    key={peer.symbol}
+                    size="sm"
+                    variant="outline"
+                    onClick={() => addPeers([peer.symbol])}
+                    disabled={slots <= 0}
+                    className="h-7 px-3 text-xs"
+                    title={describe(peer)}
+                >
+                    <Plus className="mr-1 h-3 w-3" />
+                    {peer.symbol}
+                </Button>
+            ))}
+            <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => addPeers(suggestions.map(peer => peer.symbol))}
+                disabled={slots <= 0}
+                className="h-7 px-3 text-xs text-blue-300 hover:text-blue-200"
+            >
+                {fillCount > 1 ? `Add top ${fillCount}` : 'Add top peer'}
+            </Button>
+        </div>
+    );
+}
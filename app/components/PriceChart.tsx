@@ -0,0 +1,704 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, CandlestickChart, TrendingUp, TrendingDown, Activity } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import {
+    PRICE_RANGES,
+    PriceBar,
+    PriceRange,
+    loadPriceHistory,
+    sliceToRange,
+    toAdjustedBar,
+    usesMonthlyBars
+} from '../utils/priceSeries';
+import { IndicatorSeries, atr, bollingerBands, ema, macd, rsi, sma, vwap } from '../utils/indicators';
+import { QueryCodec, optionCodec, useQueryState } from '../utils/urlState';
+
+interface PriceChartProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+type PriceBasis = 'adjusted' | 'raw';
+
+const PRICE_BASES: PriceBasis[] = ['adjusted', 'raw'];
+
+type IndicatorKey = 'sma' | 'ema' | 'bollinger' | 'vwap' | 'rsi' | 'macd' | 'atr';
+
+interface IndicatorDefinition {
+    key: IndicatorKey;
+    label: string;
+    /** overlays share the price pane, sub-panes get their own grid below volume */
+    placement: 'overlay' | 'pane';
+    params: Array<{ name: string; label: string; min: number; max: number; step?: number }>;
+}
+
+interface IndicatorSetting {
+    enabled: boolean;
+    params: Record<string, number>;
+}
+
+const INDICATORS: IndicatorDefinition[] = [
+    { key: 'sma', label: 'SMA', placement: 'overlay', params: [{ name: 'period', label: 'Period', min: 2, max: 400 }] },
+    { key: 'ema', label: 'EMA', placement: 'overlay', params: [{ name: 'period', label: 'Period', min: 2, max: 400 }] },
+    {
+        key: 'bollinger',
+        label: 'Bollinger',
+        placement: 'overlay',
+        params: [
+            { name: 'period', label: 'Period', min: 2, max: 200 },
+            { name: 'stdDev', label: 'σ', min: 0.5, max: 5, step: 0.5 }
+        ]
+    },
+    { key: 'vwap', label: 'VWAP', placement: 'overlay', params: [] },
+    { key: 'rsi', label: 'RSI', placement: 'pane', params: [{ name: 'period', label: 'Period', min: 2, max: 100 }] },
+    {
+        key: 'macd',
+        label: 'MACD',
+        placement: 'pane',
+        params: [
+            { name: 'fast', label: 'Fast', min: 2, max: 100 },
+            { name: 'slow', label: 'Slow', min: 3, max: 200 },
+            { name: 'signal', label: 'Signal', min: 2, max: 100 }
+        ]
+    },
+    { key: 'atr', label: 'ATR', placement: 'pane', params: [{ name: 'period', label: 'Period', min: 2, max: 100 }] }
+];
+
+const DEFAULT_INDICATOR_SETTINGS: Record<IndicatorKey, IndicatorSetting> = {
+    sma: { enabled: false, params: { period: 50 } },
+    ema: { enabled: false, params: { period: 20 } },
+    bollinger: { enabled: false, params: { period: 20, stdDev: 2 } },
+    vwap: { enabled: false, params: {} },
+    rsi: { enabled: false, params: { period: 14 } },
+    macd: { enabled: false, params: { fast: 12, slow: 26, signal: 9 } },
+    atr: { enabled: false, params: { period: 14 } }
+};
+
+/**
+ * Snap a param onto its step (whole bars for periods) within its range;
+ * null for input that isn't a number, e.g. a cleared field
+ */
+const normalizeParam = (param: IndicatorDefinition['params'][number], value: number): number | null => {
+    if (!Number.isFinite(value)) return null;
+
+    const step = param.step ?? 1;
+    return Math.min(param.max, Math.max(param.min, Math.round(value / step) * step));
+};
+
+/**
+ * Enabled indicators in the query string, each with its params in definition order,
+ * e.g. `sma:50,macd:12:26:9`
+ */
+const indicatorCodec: QueryCodec<Record<IndicatorKey, IndicatorSetting>> = {
+    parse: raw => {
+        const settings = { ...DEFAULT_INDICATOR_SETTINGS };
+
+        raw.split(',').forEach(item => {
+            const [key, ...values] = item.split(':');
+            const definition = INDICATORS.find(indicator => indicator.key === key);
+            if (!definition) return;
+
+            const params = { ...settings[definition.key].params };
+            definition.params.forEach((param, index) => {
+                const value = normalizeParam(param, parseFloat(values[index]));
+                if (value !== null) {
+                    params[param.name] = value;
+                }
+            });
+
+            settings[definition.key] = { enabled: true, params };
+        });
+
+        return settings;
+    },
+    serialize: settings => INDICATORS
+        .filter(indicator => settings[indicator.key].enabled)
+        .map(indicator => [indicator.key, ...indicator.params.map(param => settings[indicator.key].params[param.name])].join(':'))
+        .join(',')
+};
+
+// pixel layout of the stacked panes
+const PRICE_PANE_HEIGHT = 220;
+const VOLUME_PANE_HEIGHT = 60;
+const SUB_PANE_HEIGHT = 80;
+const PANE_GAP = 30;
+
+export default function PriceChart({ ticker, shouldFetch }: PriceChartProps) {
+    const [dailyBars, setDailyBars] = useState<PriceBar[]>([]);
+    const [monthlyBars, setMonthlyBars] = useState<PriceBar[]>([]);
+    const [dailyIsCompact, setDailyIsCompact] = useState<boolean>(false);
+    const [range, setRange] = useQueryState<PriceRange>('range', '1Y', optionCodec(PRICE_RANGES));
+    const [basis, setBasis] = useQueryState<PriceBasis>('basis', 'adjusted', optionCodec(PRICE_BASES));
+    const [indicators, setIndicators] = useQueryState('indicators', DEFAULT_INDICATOR_SETTINGS, indicatorCodec);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>('');
+
+    const fetchPriceData = async () => {
+        if (!ticker) return;
+
+        setLoading(true);
+        setError('');
+
+        try {
+            const history = await loadPriceHistory(ticker);
+
+            setDailyBars(history.daily);
+            setMonthlyBars(history.monthly);
+            setDailyIsCompact(history.dailyIsCompact);
+
+        } catch (err: any) {
+            console.error('Error fetching price data:', err);
+            setError(err.message || 'Failed to fetch price data');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (shouldFetch && ticker && ticker.length >= 3 && !ticker.includes(' ')) {
+            fetchPriceData();
+        }
+    }, [ticker, shouldFetch]);
+
+    // long ranges (or a missing daily series) read better as monthly candles
+    const useMonthly = (usesMonthlyBars(range) && monthlyBars.length > 0) || dailyBars.length === 0;
+    const sourceBars = useMonthly ? monthlyBars : dailyBars;
+    const basisBars = basis === 'adjusted' ? sourceBars.map(toAdjustedBar) : sourceBars;
+    const visibleBars = sliceToRange(basisBars, range);
+
+    const toggleIndicator = (key: IndicatorKey) => {
+        setIndicators({
+            ...indicators,
+            [key]: { ...indicators[key], enabled: !indicators[key].enabled }
+        });
+    };
+
+    const setIndicatorParam = (key: IndicatorKey, name: string, value: number) => {
+        if (!Number.isFinite(value)) return;
+        setIndicators({
+            ...indicators,
+            [key]: { ...indicators[key], params: { ...indicators[key].params, [name]: value } }
+        });
+    };
+
+    const activePanes = INDICATORS.filter(indicator => indicator.placement === 'pane' && indicators[indicator.key].enabled);
+    const chartHeight = PRICE_PANE_HEIGHT + VOLUME_PANE_HEIGHT + activePanes.length * (SUB_PANE_HEIGHT + PANE_GAP) + PANE_GAP * 2 + 50;
+
+    const getIndicatorSeries = () => {
+        // computed over the whole series so long periods are warmed up at the start of the range
+        const closes = basisBars.map(bar => bar.close);
+        const offset = basisBars.length - visibleBars.length;
+        const visible = (values: IndicatorSeries) => values.slice(offset);
+        const lineSeries = (name: string, data: IndicatorSeries, color: string, axisIndex: number, dashed = false) => ({
+            name,
+            type: 'line',
+            data,
+            xAxisIndex: axisIndex,
+            yAxisIndex: axisIndex,
+            showSymbol: false,
+            connectNulls: false,
+            lineStyle: {
+                color,
+                width: 1.5,
+                type: dashed ? 'dashed' : 'solid'
+            },
+            itemStyle: {
+                color
+            }
+        });
+
+        const series: any[] = [];
+
+        if (indicators.sma.enabled) {
+            const { period } = indicators.sma.params;
+            series.push(lineSeries(`SMA ${period}`, visible(sma(closes, period)), '#f59e0b', 0));
+        }
+
+        if (indicators.ema.enabled) {
+            const { period } = indicators.ema.params;
+            series.push(lineSeries(`EMA ${period}`, visible(ema(closes, period)), '#a855f7', 0));
+        }
+
+        if (indicators.bollinger.enabled) {
+            const { period, stdDev } = indicators.bollinger.params;
+            const bands = bollingerBands(closes, period, stdDev);
+            series.push(lineSeries('BB Upper', visible(bands.upper), '#38bdf8', 0, true));
+            series.push(lineSeries('BB Middle', visible(bands.middle), '#38bdf8', 0));
+            series.push(lineSeries('BB Lower', visible(bands.lower), '#38bdf8', 0, true));
+        }
+
+        if (indicators.vwap.enabled) {
+            // anchored at the start of the selected range
+            series.push(lineSeries('VWAP', vwap(visibleBars), '#f472b6', 0));
+        }
+
+        activePanes.forEach((pane, paneIndex) => {
+            const axisIndex = paneIndex + 2;
+
+            if (pane.key === 'rsi') {
+                const { period } = indicators.rsi.params;
+                series.push({
+                    ...lineSeries(`RSI ${period}`, visible(rsi(closes, period)), '#eab308', axisIndex),
+                    markLine: {
+                        silent: true,
+                        symbol: 'none',
+                        lineStyle: { color: '#6b7280', type: 'dashed' },
+                        data: [{ yAxis: 30 }, { yAxis: 70 }]
+                    }
+                });
+            } else if (pane.key === 'macd') {
+                const { fast, slow, signal } = indicators.macd.params;
+                const result = macd(closes, fast, slow, signal);
+                series.push(lineSeries('MACD', visible(result.macd), '#3b82f6', axisIndex));
+                series.push(lineSeries('Signal', visible(result.signal), '#f97316', axisIndex));
+                series.push({
+                    name: 'Histogram',
+                    type: 'bar',
+                    xAxisIndex: axisIndex,
+                    yAxisIndex: axisIndex,
+                    data: visible(result.histogram).map(value => ({
+                        value,
+                        itemStyle: {
+                            color: (value ?? 0) >= 0 ? 'rgba(34, 197, 94, 0.6)' : 'rgba(239, 68, 68, 0.6)'
+                        }
+                    }))
+                });
+            } else if (pane.key === 'atr') {
+                const { period } = indicators.atr.params;
+                series.push(lineSeries(`ATR ${period}`, visible(atr(basisBars, period)), '#14b8a6', axisIndex));
+            }
+        });
+
+        return series;
+    };
+
+    const getChartOption = () => {
+        if (visibleBars.length === 0) return {};
+
+        const dates = visibleBars.map(bar => bar.date);
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+        const left = isMobile ? 50 : 60;
+        const right = isMobile ? 12 : 20;
+        const paneTop = (paneIndex: number) =>
+            PANE_GAP + PRICE_PANE_HEIGHT + PANE_GAP + VOLUME_PANE_HEIGHT + PANE_GAP + paneIndex * (SUB_PANE_HEIGHT + PANE_GAP);
+
+        return {
+            backgroundColor: 'transparent',
+            animation: false,
+            tooltip: {
+                trigger: 'axis',
+                axisPointer: {
+                    type: 'cross'
+                },
+                backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                borderColor: '#374151',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 11 : 12
+                },
+                formatter: function (params: any) {
+                    const dataIndex = params[0].dataIndex;
+                    const bar = visibleBars[dataIndex];
+                    const changeColor = bar.close >= bar.open ? '#22c55e' : '#ef4444';
+
+                    return `
+                        <div style="padding: 8px;">
+                            <div style="font-weight: bold; margin-bottom: 4px;">${bar.date}</div>
+                            <div>Open: <span style="color: #9ca3af;">$${bar.open.toFixed(2)}</span></div>
+                            <div>High: <span style="color: #9ca3af;">$${bar.high.toFixed(2)}</span></div>
+                            <div>Low: <span style="color: #9ca3af;">$${bar.low.toFixed(2)}</span></div>
+                            <div>Close: <span style="color: ${changeColor};">$${bar.close.toFixed(2)}</span></div>
+                            <div>Volume: <span style="color: #9ca3af;">${(bar.volume / 1000000).toFixed(1)}M</span></div>
+                        </div>
+                    `;
+                }
+            },
+            axisPointer: {
+                link: [{ xAxisIndex: 'all' }]
+            },
+            legend: {
+                show: activePanes.length > 0 || INDICATORS.some(indicator => indicators[indicator.key].enabled),
+                top: 0,
+                textStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 9 : 11
+                },
+                data: getIndicatorSeries().map(item => item.name).filter(name => name !== 'Histogram')
+            },
+            grid: [
+                {
+                    left,
+                    right,
+                    top: PANE_GAP,
+                    height: PRICE_PANE_HEIGHT
+                },
+                {
+                    left,
+                    right,
+                    top: PANE_GAP * 2 + PRICE_PANE_HEIGHT,
+                    height: VOLUME_PANE_HEIGHT
+                },
+                ...activePanes.map((_, paneIndex) => ({
+                    left,
+                    right,
+                    top: paneTop(paneIndex),
+                    height: SUB_PANE_HEIGHT
+                }))
+            ],
+            xAxis: [
+                {
+                    type: 'category',
+                    data: dates,
+                    boundaryGap: true,
+                    axisLabel: {
+                        color: '#e5e7eb',
+                        fontSize: isMobile ? 10 : 12
+                    },
+                    axisLine: {
+                        lineStyle: {
+                            color: '#374151'
+                        }
+                    }
+                },
+                {
+                    type: 'category',
+                    gridIndex: 1,
+                    data: dates,
+                    boundaryGap: true,
+                    axisLabel: {
+                        show: false
+                    },
+                    axisTick: {
+                        show: false
+                    },
+                    axisLine: {
+                        lineStyle: {
+                            color: '#374151'
+                        }
+                    }
+                },
+                ...activePanes.map((_, paneIndex) => ({
+                    type: 'category',
+                    gridIndex: paneIndex + 2,
+                    data: dates,
+                    boundaryGap: true,
+                    axisLabel: {
+                        show: false
+                    },
+                    axisTick: {
+                        show: false
+                    },
+                    axisLine: {
+                        lineStyle: {
+                            color: '#374151'
+                        }
+                    }
+                }))
+            ],
+            yAxis: [
+                {
+                    scale: true,
+                    axisLabel: {
+                        color: '#e5e7eb',
+                        formatter: '${value}',
+                        fontSize: isMobile ? 10 : 12
+                    },
+                    splitLine: {
+                        lineStyle: {
+                            color: '#374151',
+                            type: 'dashed'
+                        }
+                    }
+                },
+                {
+                    scale: true,
+                    gridIndex: 1,
+                    splitNumber: 2,
+                    axisLabel: {
+                        show: false
+                    },
+                    splitLine: {
+                        show: false
+                    }
+                },
+                ...activePanes.map((pane, paneIndex) => ({
+                    scale: pane.key !== 'rsi',
+                    min: pane.key === 'rsi' ? 0 : undefined,
+                    max: pane.key === 'rsi' ? 100 : undefined,
+                    gridIndex: paneIndex + 2,
+                    splitNumber: 2,
+                    name: pane.label,
+                    nameLocation: 'middle',
+                    nameGap: isMobile ? 32 : 40,
+                    nameTextStyle: {
+                        color: '#9ca3af',
+                        fontSize: 11
+                    },
+                    axisLabel: {
+                        color: '#9ca3af',
+                        fontSize: 10
+                    },
+                    splitLine: {
+                        lineStyle: {
+                            color: '#374151',
+                            type: 'dashed'
+                        }
+                    }
+                }))
+            ],
+            dataZoom: [
+                {
+                    type: 'inside',
+                    xAxisIndex: [0, 1, ...activePanes.map((_, paneIndex) => paneIndex + 2)],
+                    start: 0,
+                    end: 100
+                },
+                {
+                    type: 'slider',
+                    xAxisIndex: [0, 1, ...activePanes.map((_, paneIndex) => paneIndex + 2)],
+                    bottom: 8,
+                    height: 20,
+                    borderColor: '#374151',
+                    textStyle: {
+                        color: '#9ca3af'
+                    }
+                }
+            ],
+            series: [
+                {
+                    name: 'Price',
+                    type: 'candlestick',
+                    data: visibleBars.map(bar => [bar.open, bar.close, bar.low, bar.high]),
+                    itemStyle: {
+                        color: '#22c55e',
+                        color0: '#ef4444',
+                        borderColor: '#22c55e',
+                        borderColor0: '#ef4444'
+                    }
+                },
+                {
+                    name: 'Volume',
+                    type: 'bar',
+                    xAxisIndex: 1,
+                    yAxisIndex: 1,
+                    data: visibleBars.map(bar => ({
+                        value: bar.volume,
+                        itemStyle: {
+                            color: bar.close >= bar.open ? 'rgba(34, 197, 94, 0.5)' : 'rgba(239, 68, 68, 0.5)'
+                        }
+                    }))
+                },
+                ...getIndicatorSeries()
+            ]
+        };
+    };
+
+    if (loading) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <CandlestickChart className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Price History</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-4">
+                        <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-4 w-48" />
+                            <Skeleton className="h-3 w-32" />
+                        </div>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (error) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <CandlestickChart className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Price History</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (visibleBars.length === 0) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <CandlestickChart className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Price History</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Enter a ticker symbol to view price and volume history
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <CandlestickChart className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>Ready to analyze price history</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    const firstBar = visibleBars[0];
+    const lastBar = visibleBars[visibleBars.length - 1];
+    const rangeChange = ((lastBar.close - firstBar.open) / firstBar.open) * 100;
+    const rangeHigh = Math.max(...visibleBars.map(bar => bar.high));
+    const rangeLow = Math.min(...visibleBars.map(bar => bar.low));
+
+    return (
+        <FloatingCard className="flex flex-col h-full min-h-[450px] lg:min-h-[550px]">
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <CandlestickChart className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Price History</CardTitle>
+                    </div>
+                    <Badge variant={rangeChange >= 0 ? 'default' : 'destructive'} className="text-xs">
+                        {rangeChange >= 0 ? <TrendingUp className="h-3 w-3 mr-1" /> : <TrendingDown className="h-3 w-3 mr-1" />}
+                        ${lastBar.close.toFixed(2)} ({rangeChange > 0 ? '+' : ''}{rangeChange.toFixed(1)}%)
+                    </Badge>
+                </div>
+                <CardDescription className="text-gray-300">
+                    {useMonthly ? 'Monthly' : 'Daily'} OHLC candles with volume
+                    {basis === 'adjusted' ? ', split & dividend adjusted' : ', unadjusted'}
+                    {dailyIsCompact && !useMonthly && ' (last 100 trading days)'}
+                </CardDescription>
+                <div className="flex items-center gap-2 flex-wrap">
+                    {PRICE_RANGES.map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={range === option ? 'default' : 'outline'}
+                            onClick={() => setRange(option)}
+                            className="h-7 px-3 text-xs"
+                        >
+                            {option === 'MAX' ? 'Max' : option}
+                        </Button>
+                    ))}
+                    <div className="flex items-center gap-1 ml-auto">
+                        {PRICE_BASES.map(option => (
+                            <Button
+                                key={option}
+                                size="sm"
+                                variant={basis === option ? 'secondary' : 'ghost'}
+                                onClick={() => setBasis(option)}
+                                disabled={option === 'adjusted' && monthlyBars.length === 0}
+                                className="h-7 px-2 text-xs capitalize"
+                            >
+                                {option} close
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            </CardHeader>
+
+            <CardContent className="flex flex-col h-full space-y-4">
+                {/* indicator toggles */}
+                <div className="flex flex-wrap items-center gap-2">
+                    <Activity className="h-4 w-4 text-gray-400" />
+                    {INDICATORS.map(indicator => {
+                        const setting = indicators[indicator.key];
+
+                        return (
+                            <div key={indicator.key} className="flex items-center gap-1">
+                                <Button
+                                    size="sm"
+                                    variant={setting.enabled ? 'default' : 'outline'}
+                                    onClick={() => toggleIndicator(indicator.key)}
+                                    title={indicator.placement === 'overlay' ? 'Overlay on price' : 'Separate pane'}
+                                    className="h-7 px-2 text-xs"
+                                >
+                                    {indicator.label}
+                                </Button>
+                                {setting.enabled && indicator.params.map(param => (
+                                    <Input
+                                        key={param.name}
+                                        type="number"
+                                        aria-label={`${indicator.label} ${param.label}`}
+                                        title={param.label}
+                                        min={param.min}
+                                        max={param.max}
+                                        step={param.step ?? 1}
+                                        value={setting.params[param.name]}
+                                        onChange={(e) => {
+                                            const value = normalizeParam(param, parseFloat(e.target.value));
+                                            if (value !== null) setIndicatorParam(indicator.key, param.name, value);
+                                        }}
+                                        className="h-7 w-16 px-2 text-xs bg-neutral-800/50 border-neutral-600"
+                                    />
+                                ))}
+                            </div>
+                        );
+                    })}
+                </div>
+
+                {/* echarts candlestick + volume + indicator panes */}
+                <div className="w-full" style={{ height: chartHeight }}>
+                    <ReactECharts
+                        option={getChartOption()}
+                        style={{ height: '100%', width: '100%' }}
+                        theme="dark"
+                        opts={{ renderer: 'canvas' }}
+                        notMerge={true}
+                    />
+                </div>
+
+                {/* summary stats */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Last Close</div>
+                            <div className="text-sm font-bold text-white">${lastBar.close.toFixed(2)}</div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">{range === 'MAX' ? 'Max' : range} Change</div>
+                            <div className={`text-sm font-bold ${rangeChange >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                                {rangeChange > 0 ? '+' : ''}{rangeChange.toFixed(1)}%
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Range High</div>
+                            <div className="text-sm font-bold text-white">${rangeHigh.toFixed(2)}</div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Range Low</div>
+                            <div className="text-sm font-bold text-white">${rangeLow.toFixed(2)}</div>
+                        </CardContent>
+                    </Card>
+                </div>
+            </CardContent>
+        </FloatingCard>
+    );
+}
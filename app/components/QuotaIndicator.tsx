@@ -0,0 +1,57 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Gauge } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { QuotaStatus, marketScheduler } from '../utils/requestScheduler';
+
+export default function QuotaIndicator() {
+    const [status, setStatus] = useState<QuotaStatus | null>(null);
+    const [now, setNow] = useState<number>(() => Date.now());
+
+    // read usage after mount, localStorage isn't available during SSR
+    useEffect(() => {
+        setStatus(marketScheduler.getStatus());
+        return marketScheduler.subscribe(setStatus);
+    }, []);
+
+    // tick the countdown while throttled
+    useEffect(() => {
+        if (!status?.throttledUntil) return;
+
+        const interval = setInterval(() => {
+            setNow(Date.now());
+            if (status.throttledUntil && Date.now() >= status.throttledUntil) {
+                setStatus(marketScheduler.getStatus());
+            }
+        }, 1000);
+
+        return () => clearInterval(interval);
+    }, [status?.throttledUntil]);
+
+    if (!status) return null;
+
+    const { remainingToday, perDayLimit, queued, throttledUntil } = status;
+    const secondsUntilReset = throttledUntil ? Math.max(0, Math.ceil((throttledUntil - now) / 1000)) : 0;
+
+    return (
+        <Badge
+            variant="outline"
+            title={`Alpha Vantage budget: ${perDayLimit} calls per day, ${status.perMinuteLimit} per minute`}
+            className={cn(
+                "hidden sm:inline-flex gap-1",
+                remainingToday === 0
+                    ? "border-red-500/40 text-red-300"
+                    : remainingToday <= perDayLimit * 0.2
+                        ? "border-amber-500/40 text-amber-300"
+                        : "border-neutral-600 text-gray-300"
+            )}
+        >
+            <Gauge className="h-3 w-3" />
+            {remainingToday} calls left today
+            {queued > 0 && <span className="text-gray-400">· {queued} queued</span>}
+            {secondsUntilReset > 0 && <span className="text-amber-300">· resumes in {secondsUntilReset}s</span>}
+        </Badge>
+    );
+}
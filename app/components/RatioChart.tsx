@@ -0,0 +1,330 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Percent } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import { fetchMarketData } from '../utils/marketApi';
+import { RATIOS, RATIO_GROUPS, RATIO_IDS, RatioGroup, RatioId, RatioYear, buildRatioHistory } from '../utils/ratios';
+import { optionCodec, useQueryState } from '../utils/urlState';
+
+interface RatioChartProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+const GROUP_LABELS: Record<RatioGroup, string> = {
+    margins: 'Margins',
+    returns: 'Returns',
+    efficiency: 'Efficiency'
+};
+
+const GROUP_DESCRIPTIONS: Record<RatioGroup, string> = {
+    margins: 'Gross, operating, net and free cash flow margin (%)',
+    returns: 'Return on equity, assets and invested capital (%)',
+    efficiency: 'Asset turnover and interest coverage (x)'
+};
+
+const SERIES_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#ef4444'];
+
+const formatRatio = (id: RatioId, value: number | null) => {
+    if (value === null) return 'N/A';
+    return RATIOS[id].unit === '%' ? `${value.toFixed(1)}%` : `${value.toFixed(2)}x`;
+};
+
+// percentage ratios change in points, multiples in turns
+const formatChange = (id: RatioId, change: number) =>
+    `${change >= 0 ? '+' : ''}${change.toFixed(RATIOS[id].unit === '%' ? 1 : 2)}${RATIOS[id].unit === '%' ? ' pts' : 'x'}`;
+
+export default function RatioChart({ ticker, shouldFetch }: RatioChartProps) {
+    const [ratioData, setRatioData] = useState<RatioYear[]>([]);
+    const [group, setGroup] = useQueryState<RatioGroup>('ratios', 'margins', optionCodec(RATIO_GROUPS));
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>('');
+
+    const fetchRatioData = async () => {
+        if (!ticker) return;
+
+        setLoading(true);
+        setError('');
+
+        try {
+            // the balance sheet and cash flow only add ratios, so a failure there isn't fatal
+            const [incomeStatement, balanceSheet, cashFlow] = await Promise.all([
+                fetchMarketData('INCOME_STATEMENT', { symbol: ticker }),
+                fetchMarketData('BALANCE_SHEET', { symbol: ticker }).catch(() => undefined),
+                fetchMarketData('CASH_FLOW', { symbol: ticker }).catch(() => undefined)
+            ]);
+
+            const history = buildRatioHistory(incomeStatement, balanceSheet, cashFlow);
+
+            if (history.length === 0) {
+                throw new Error('No income statement data available for this ticker');
+            }
+
+            setRatioData(history);
+
+        } catch (err: any) {
+            console.error('Error fetching ratio data:', err);
+            setError(err.message || 'Failed to fetch ratio data');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (shouldFetch && ticker && ticker.length >= 3 && !ticker.includes(' ')) {
+            fetchRatioData();
+        }
+    }, [ticker, shouldFetch]);
+
+    const groupRatios = RATIO_IDS.filter(id => RATIOS[id].group === group);
+    const isPercent = RATIOS[groupRatios[0]].unit === '%';
+
+    const getChartOption = () => {
+        if (ratioData.length === 0) return {};
+
+        const years = ratioData.map(data => data.year);
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+
+        return {
+            backgroundColor: 'transparent',
+            legend: {
+                data: groupRatios.map(id => RATIOS[id].label),
+                top: 0,
+                left: 'center',
+                textStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 9 : 12
+                }
+            },
+            tooltip: {
+                trigger: 'axis',
+                backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                borderColor: '#374151',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 11 : 12
+                },
+                formatter: function (params: any) {
+                    const dataIndex = params[0].dataIndex;
+                    const data = ratioData[dataIndex];
+                    const previous = ratioData[dataIndex - 1];
+
+                    const rows = groupRatios.map((id, index) => {
+                        const value = data.ratios[id];
+                        const previousValue = previous?.ratios[id] ?? null;
+                        const change = value !== null && previousValue !== null
+                            ? ` <span style="color: #9ca3af;">(${formatChange(id, value - previousValue)})</span>`
+                            : '';
+
+                        return `<div>${RATIOS[id].label}: <span style="color: ${SERIES_COLORS[index]};">${formatRatio(id, value)}</span>${change}</div>`;
+                    });
+
+                    return `
+                        <div style="padding: 8px;">
+                            <div style="font-weight: bold; margin-bottom: 4px;">FY ${data.year} (ended ${data.fiscalDateEnding})</div>
+                            ${rows.join('')}
+                        </div>
+                    `;
+                }
+            },
+            grid: {
+                left: isMobile ? '8%' : '5%',
+                right: isMobile ? '8%' : '5%',
+                bottom: '5%',
+                top: 40,
+                containLabel: true
+            },
+            xAxis: {
+                type: 'category',
+                data: years,
+                axisLabel: {
+                    color: '#e5e7eb',
+                    fontSize: isMobile ? 11 : 13,
+                    fontWeight: 500
+                },
+                axisLine: {
+                    lineStyle: {
+                        color: '#374151'
+                    }
+                }
+            },
+            yAxis: {
+                type: 'value',
+                name: isPercent ? 'Percent' : 'Times',
+                nameTextStyle: {
+                    color: '#d1d5db',
+                    fontSize: isMobile ? 11 : 13,
+                    fontWeight: 500
+                },
+                axisLabel: {
+                    color: '#e5e7eb',
+                    formatter: isPercent ? '{value}%' : '{value}x',
+                    fontSize: isMobile ? 11 : 13,
+                    fontWeight: 500
+                },
+                splitLine: {
+                    lineStyle: {
+                        color: '#374151',
+                        type: 'dashed'
+                    }
+                }
+            },
+            series: groupRatios.map((id, index) => ({
+                name: RATIOS[id].label,
+                type: 'line',
+                data: ratioData.map(data => data.ratios[id]),
+                connectNulls: false,
+                smooth: true,
+                lineStyle: {
+                    color: SERIES_COLORS[index],
+                    width: isMobile ? 2 : 3
+                },
+                itemStyle: {
+                    color: SERIES_COLORS[index]
+                }
+            }))
+        };
+    };
+
+    if (loading) {
+        return (
+            <FloatingCard className="h-full min-h-[350px] lg:min-h-[450px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Percent className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Financial Ratios</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-4">
+                        <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-4 w-48" />
+                            <Skeleton className="h-3 w-32" />
+                        </div>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (error) {
+        return (
+            <FloatingCard className="h-full min-h-[350px] lg:min-h-[450px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Percent className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Financial Ratios</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (ratioData.length === 0) {
+        return (
+            <FloatingCard className="h-full min-h-[350px] lg:min-h-[450px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Percent className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Financial Ratios</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Enter a ticker symbol to view margins, returns and efficiency
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <Percent className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>Ready to analyze financial ratios</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    const latestData = ratioData[ratioData.length - 1];
+    const previousData = ratioData[ratioData.length - 2];
+
+    return (
+        <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Percent className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Financial Ratios</CardTitle>
+                    </div>
+                    <Badge variant="secondary" className="text-xs">
+                        {ratioData[0].year}–{latestData.year}
+                    </Badge>
+                </div>
+                <CardDescription className="text-gray-300">
+                    {GROUP_DESCRIPTIONS[group]}
+                </CardDescription>
+                <div className="flex items-center gap-2 flex-wrap">
+                    {RATIO_GROUPS.map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={group === option ? 'default' : 'outline'}
+                            onClick={() => setGroup(option)}
+                            className="h-7 px-3 text-xs"
+                        >
+                            {GROUP_LABELS[option]}
+                        </Button>
+                    ))}
+                </div>
+            </CardHeader>
+
+            <CardContent className="flex flex-col h-full space-y-4">
+                {/* echarts line chart */}
+                <div className="flex-1 min-h-[200px] w-full">
+                    <ReactECharts
+                        option={getChartOption()}
+                        style={{ height: '100%', width: '100%' }}
+                        theme="dark"
+                        opts={{ renderer: 'svg' }}
+                        notMerge={true}
+                    />
+                </div>
+
+                {/* latest year, with the change from the year before */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    {groupRatios.map(id => {
+                        const value = latestData.ratios[id];
+                        const previousValue = previousData?.ratios[id] ?? null;
+
+                        return (
+                            <Card key={id} className="bg-neutral-700/50 border-neutral-600">
+                                <CardContent className="p-3 text-center" title={RATIOS[id].description}>
+                                    <div className="text-xs text-gray-300 mb-1 font-medium">{RATIOS[id].label}</div>
+                                    <div className={`text-sm font-bold ${value !== null && value < 0 ? 'text-red-300' : 'text-white'}`}>
+                                        {formatRatio(id, value)}
+                                    </div>
+                                    {value !== null && previousValue !== null && (
+                                        <div className={`text-xs ${value >= previousValue ? 'text-green-400' : 'text-red-400'}`}>
+                                            {formatChange(id, value - previousValue)}
+                                        </div>
+                                    )}
+                                </CardContent>
+                            </Card>
+                        );
+                    })}
+                </div>
+            </CardContent>
+        </FloatingCard>
+    );
+}
@@ -1,224 +1,441 @@
 'use client';
 
-import { useState } from 'react';
-import axios from 'axios';
+import { Fragment, useEffect, useState } from 'react';
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Progress } from '@/components/ui/progress';
+import { Brain, Loader2, ArrowUp, ArrowDown, ArrowUpDown, AlertCircle, GitCompare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import FloatingCard from './ui/floating-card';
+import SentimentProviderSelect from './SentimentProviderSelect';
+import {
+    SENTIMENT_LABELS,
+    SentimentLabel,
+    SentimentScore,
+    parsePostsInput,
+    scoreTexts
+} from '../utils/sentiment';
+import {
+    DEFAULT_PROVIDER_ID,
+    SENTIMENT_PROVIDERS,
+    SENTIMENT_PROVIDER_IDS,
+    SentimentProviderId,
+    loadAvailableProviders,
+    loadProviderPreference
+} from '../utils/sentimentProviders';
 
-interface SentimentResult {
-    text: string;
-    predictions: Array<{
-        label: string;
-        score: number;
-    }>;
-    model: string;
-    source?: string;
-    note?: string;
+interface ProviderResult {
+    status: 'pending' | 'done' | 'error';
+    score?: SentimentScore;
+    error?: string;
 }
 
-interface DisplayResult {
+interface PostResult {
+    index: number;
     text: string;
-    sentiment: 'positive' | 'neutral' | 'negative';
-    confidence: number;
-    probabilities: {
-        positive: number;
-        neutral: number;
-        negative: number;
-    };
-    source?: string;
-    note?: string;
+    results: Partial<Record<SentimentProviderId, ProviderResult>>;
+}
+
+type AnalyzerMode = 'single' | 'compare';
+
+type SortKey = 'index' | 'sentiment' | 'confidence' | 'agreement' | SentimentLabel;
+
+interface SortState {
+    key: SortKey;
+    direction: 'asc' | 'desc';
 }
 
+const LABEL_ORDER: Record<SentimentLabel, number> = {
+    negative: 0,
+    neutral: 1,
+    positive: 2
+};
+
+const LABEL_TEXT_COLORS: Record<SentimentLabel, string> = {
+    positive: 'text-green-300',
+    neutral: 'text-yellow-300',
+    negative: 'text-red-300'
+};
+
+const LABEL_BAR_COLORS: Record<SentimentLabel, string> = {
+    positive: 'bg-green-500',
+    neutral: 'bg-yellow-500',
+    negative: 'bg-red-500'
+};
+
+/**
+ * Distinct labels the scored models gave a post; more than one means they disagree
+ */
+const distinctLabels = (row: PostResult, providers: SentimentProviderId[]) =>
+    new Set(providers.flatMap(id => row.results[id]?.score ? [row.results[id]!.score!.sentiment] : []));
+
+// rows without a score (pending or failed) always sort last
+const sortValue = (row: PostResult, key: SortKey, providers: SentimentProviderId[]): number | null => {
+    if (key === 'index') return row.index;
+    if (key === 'agreement') {
+        const scored = providers.filter(id => row.results[id]?.score).length;
+        return scored > 0 ? distinctLabels(row, providers).size : null;
+    }
+
+    const score = row.results[providers[0]]?.score;
+    if (!score) return null;
+    if (key === 'sentiment') return LABEL_ORDER[score.sentiment];
+    if (key === 'confidence') return score.confidence;
+    return score.probabilities[key];
+};
+
 export default function SentimentAnalyzer() {
     const [text, setText] = useState<string>('');
-    const [result, setResult] = useState<DisplayResult | null>(null);
+    const [results, setResults] = useState<PostResult[]>([]);
+    const [provider, setProvider] = useState<SentimentProviderId>(DEFAULT_PROVIDER_ID);
+    const [mode, setMode] = useState<AnalyzerMode>('single');
+    // the providers behind the current results, which can differ from the current selection
+    const [scoredProviders, setScoredProviders] = useState<SentimentProviderId[]>([DEFAULT_PROVIDER_ID]);
+    // compare mode leaves out providers the server has turned off
+    const [availableProviders, setAvailableProviders] = useState<SentimentProviderId[]>(SENTIMENT_PROVIDER_IDS);
+    const [sort, setSort] = useState<SortState>({ key: 'index', direction: 'asc' });
     const [loading, setLoading] = useState<boolean>(false);
     const [error, setError] = useState<string>('');
 
-    const processApiResponse = (apiResult: SentimentResult): DisplayResult => {
-        // Convert API response to display format
-        const probabilities = {
-            positive: 0,
-            neutral: 0,
-            negative: 0
-        };
-
-        // Map predictions to probabilities
-        apiResult.predictions.forEach(pred => {
-            const label = pred.label.toLowerCase();
-            if (label.includes('positive') || label.includes('pos')) {
-                probabilities.positive = pred.score;
-            } else if (label.includes('negative') || label.includes('neg')) {
-                probabilities.negative = pred.score;
-            } else if (label.includes('neutral') || label.includes('neu')) {
-                probabilities.neutral = pred.score;
-            }
-        });
-
-        // Determine primary sentiment
-        const maxProb = Math.max(probabilities.positive, probabilities.neutral, probabilities.negative);
-        let sentiment: 'positive' | 'neutral' | 'negative' = 'neutral';
-
-        if (probabilities.positive === maxProb) {
-            sentiment = 'positive';
-        } else if (probabilities.negative === maxProb) {
-            sentiment = 'negative';
-        }
+    // read the saved choice after mount, localStorage isn't available during SSR
+    useEffect(() => {
+        setProvider(loadProviderPreference());
+        loadAvailableProviders().then(setAvailableProviders);
+    }, []);
 
-        return {
-            text: apiResult.text,
-            sentiment,
-            confidence: maxProb,
-            probabilities,
-            source: apiResult.source,
-            note: apiResult.note
-        };
-    };
+    const posts = parsePostsInput(text);
 
     const analyzeSentiment = async () => {
-        if (!text.trim()) {
+        if (posts.length === 0) {
             setError('Please enter some text to analyze');
             return;
         }
 
+        const providers = mode === 'compare' ? availableProviders : [provider];
+
         setLoading(true);
         setError('');
-        setResult(null);
+        setScoredProviders(providers);
+        setSort(current => current.key === 'agreement' && mode !== 'compare' ? { key: 'index', direction: 'asc' } : current);
+        setResults(posts.map((post, index) => ({
+            index,
+            text: post,
+            results: Object.fromEntries(providers.map(id => [id, { status: 'pending' }]))
+        })));
 
         try {
-            const API_URL = process.env.NODE_ENV === 'development' ? 'http://localhost:5000' : process.env.NEXT_PUBLIC_API_URL;
-
-            console.log('Environment:', process.env.NODE_ENV);
-            console.log('Using API URL:', API_URL);
-
-            const response = await axios.post(`${API_URL}/api/analyze`, {
-                text: text.trim()
-            }, {
-                timeout: 30000,
-                headers: {
-                    'Content-Type': 'application/json',
-                }
-            });
-
-            console.log('API Response:', response.data);
-
-            if (response.data.error) {
-                throw new Error(response.data.error);
-            }
-
-            // Process the response and show results
-            if (response.data.predictions) {
-                const processedResult = processApiResponse(response.data);
-                setResult(processedResult);
-            } else {
-                throw new Error('No predictions received from API');
-            }
-
-        } catch (err: unknown) {
-            console.error('Error analyzing sentiment:', err);
-
-            let errorMessage = 'Failed to analyze sentiment. Please try again.';
-
-            if (err && typeof err === 'object' && 'response' in err) {
-                const axiosError = err as { response?: { data?: { error?: string } }; message?: string };
-                if (axiosError.response?.data?.error) {
-                    errorMessage = axiosError.response.data.error;
-                } else if (axiosError.message?.includes('timeout')) {
-                    errorMessage = 'Request timed out. Please try again.';
-                } else if (axiosError.message?.includes('Network Error')) {
-                    errorMessage = 'Network error. Please check your connection and try again.';
-                }
-            }
-
-            setError(errorMessage);
+            // each model works through the posts on its own, so a slow backend doesn't hold up the others
+            await Promise.all(providers.map(id => scoreTexts(posts, (index, result) => {
+                setResults(current => current.map(row => row.index === index
+                    ? { ...row, results: { ...row.results, [id]: { status: result.score ? 'done' : 'error', ...result } } }
+                    : row
+                ));
+            }, { analyze: SENTIMENT_PROVIDERS[id].analyze })));
         } finally {
             setLoading(false);
         }
     };
 
-    const getSentimentColor = (sentiment: string) => {
-        if (sentiment === 'positive') return '#4caf50';
-        if (sentiment === 'negative') return '#f44336';
-        return '#ff9800';
+    const toggleSort = (key: SortKey) => {
+        setSort(current => current.key === key
+            ? { key, direction: current.direction === 'asc' ? 'desc' : 'asc' }
+            : { key, direction: key === 'index' ? 'asc' : 'desc' }
+        );
     };
 
-    return (
-        <div className="w-full max-w-3xl mx-auto">
-            <div className="mb-8">
-                <textarea
-                    value={text}
-                    onChange={(e) => setText(e.target.value)}
-                    placeholder="Enter a WallStreetBets post to analyze sentiment... (e.g., 'TSLA to the moon!')"
-                    className="w-full p-4 text-base border border-gray-700 rounded-md mb-4 font-sans resize-vertical 
-                             bg-neutral-900 text-white placeholder-gray-400 focus:border-blue-500 focus:ring-1 focus:ring-blue-500"
-                    rows={6}
-                />
-                <button
-                    onClick={analyzeSentiment}
-                    disabled={loading || !text.trim()}
-                    className="px-6 py-3 bg-blue-600 text-white border-none rounded-md cursor-pointer text-base
-                    transition-colors hover:bg-blue-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
-                >
-                    {loading ? 'Analyzing...' : 'Analyze Sentiment'}
-                </button>
-
-                {error && (
-                    <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-md">
-                        <p className="text-red-700">{error}</p>
-                    </div>
-                )}
-            </div>
+    const sortedResults = [...results].sort((a, b) => {
+        const aValue = sortValue(a, sort.key, scoredProviders);
+        const bValue = sortValue(b, sort.key, scoredProviders);
+        if (aValue === null && bValue === null) return a.index - b.index;
+        if (aValue === null) return 1;
+        if (bValue === null) return -1;
+        return sort.direction === 'asc' ? aValue - bValue : bValue - aValue;
+    });
 
-            {result && (
-                <div className="w-full border border-gray-200 rounded-lg p-6 shadow-md bg-neutral-800">
-                    <h2 className="text-xl font-bold mb-4">Analysis Result:</h2>
+    const isComparison = scoredProviders.length > 1;
+    const cells = results.flatMap(row => scoredProviders.map(id => row.results[id]));
+    const completed = cells.filter(cell => cell && cell.status !== 'pending').length;
+    const failed = cells.filter(cell => cell?.status === 'error').length;
+    const counts = SENTIMENT_LABELS.map(label => ({
+        label,
+        count: results.filter(row => row.results[scoredProviders[0]]?.score?.sentiment === label).length
+    }));
 
-                    <div className="mb-4 p-3 bg-gray-50 rounded-lg">
-                        <p className="text-sm text-gray-600 font-medium">Analyzed Text:</p>
-                        <p className="text-gray-800 italic">&ldquo;{result.text}&rdquo;</p>
-                    </div>
+    // how often each pair of models gives the same label, over posts both scored
+    const pairAgreement = scoredProviders.flatMap((first, position) =>
+        scoredProviders.slice(position + 1).map(second => {
+            const both = results.filter(row => row.results[first]?.score && row.results[second]?.score);
+            const agreed = both.filter(row => row.results[first]!.score!.sentiment === row.results[second]!.score!.sentiment);
+            return { first, second, compared: both.length, rate: both.length > 0 ? agreed.length / both.length : null };
+        })
+    );
+    const disagreements = results.filter(row => distinctLabels(row, scoredProviders).size > 1).length;
 
-                    <div
-                        className="text-center p-4 rounded-lg mb-6 text-white"
-                        style={{ backgroundColor: getSentimentColor(result.sentiment) }}
-                    >
-                        <p className="text-2xl font-bold mb-2">{result.sentiment.toUpperCase()}</p>
-                        <p className="text-base">
-                            Confidence: {(result.confidence * 100).toFixed(2)}%
-                        </p>
-                    </div>
+    const renderCellStatus = (cell: ProviderResult | undefined, colSpan: number) => {
+        if (!cell || cell.status === 'pending') {
+            return (
+                <td colSpan={colSpan} className="px-3 py-2 text-gray-500">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                </td>
+            );
+        }
 
-                    <div className="mt-6">
-                        <h3 className="text-lg font-semibold mb-3">Probability Breakdown:</h3>
-                        {Object.entries(result.probabilities).map(([sentiment, value]) => (
-                            <div key={sentiment} className="mb-4">
-                                <div className="flex justify-between mb-1">
-                                    <span className="capitalize font-medium">{sentiment}:</span>
-                                    <span className="font-bold">{(value * 100).toFixed(2)}%</span>
-                                </div>
-                                <div className="h-5 bg-gray-100 rounded-full overflow-hidden">
-                                    <div
-                                        className="h-full transition-all duration-300"
-                                        style={{
-                                            width: `${value * 100}%`,
-                                            backgroundColor: getSentimentColor(sentiment)
-                                        }}
-                                    ></div>
-                                </div>
-                            </div>
-                        ))}
+        return (
+            <td colSpan={colSpan} className="px-3 py-2 text-red-400 text-xs">
+                <span className="inline-flex items-center gap-1" title={cell.error}>
+                    <AlertCircle className="h-3 w-3 flex-shrink-0" />
+                    <span className="line-clamp-2">{cell.error}</span>
+                </span>
+            </td>
+        );
+    };
+
+    const SortHeader = ({ sortKey, label, className }: { sortKey: SortKey; label: string; className?: string }) => (
+        <th className={cn('px-3 py-2 font-medium', className)}>
+            <button
+                type="button"
+                onClick={() => toggleSort(sortKey)}
+                className="inline-flex items-center gap-1 hover:text-white"
+            >
+                {label}
+                {sort.key !== sortKey
+                    ? <ArrowUpDown className="h-3 w-3 opacity-50" />
+                    : sort.direction === 'asc'
+                        ? <ArrowUp className="h-3 w-3" />
+                        : <ArrowDown className="h-3 w-3" />}
+            </button>
+        </th>
+    );
+
+    return (
+        <div className="w-full space-y-6">
+            <FloatingCard hoverEffect={false}>
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Brain className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Analyze Posts</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        One post per line, or paste a JSON array of strings or objects with a <code>text</code>, <code>body</code> or <code>title</code> field
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <textarea
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        placeholder={'TSLA to the moon! 🚀🚀🚀\nGME bagholders in shambles after earnings\n...'}
+                        className="w-full p-4 text-sm border border-neutral-600 rounded-md font-mono resize-y
+                                 bg-neutral-800/50 text-white placeholder-gray-500 focus:border-blue-500 focus:ring-1 focus:ring-blue-500 outline-none"
+                        rows={8}
+                    />
+                    <div className="flex flex-wrap items-center gap-3">
+                        <Button
+                            size="sm"
+                            variant={mode === 'compare' ? 'default' : 'outline'}
+                            onClick={() => setMode(mode === 'compare' ? 'single' : 'compare')}
+                            disabled={loading}
+                            title="Score every post with each model and flag where they disagree"
+                            className="h-7 px-2 text-xs"
+                        >
+                            <GitCompare className="mr-1 h-3 w-3" />
+                            Compare models
+                        </Button>
+                        {mode === 'single' && (
+                            <SentimentProviderSelect value={provider} onChange={setProvider} disabled={loading} />
+                        )}
+                    </div>
+                    <div className="flex items-center justify-between gap-3">
+                        <span className="text-xs text-muted-foreground">
+                            {posts.length} post{posts.length === 1 ? '' : 's'} detected
+                        </span>
+                        <Button
+                            onClick={analyzeSentiment}
+                            disabled={loading || posts.length === 0}
+                            className="bg-blue-600 hover:bg-blue-700"
+                        >
+                            {loading ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Analyzing...
+                                </>
+                            ) : (
+                                <>
+                                    <Brain className="mr-2 h-4 w-4" />
+                                    Analyze Sentiment
+                                </>
+                            )}
+                        </Button>
                     </div>
 
-                    {result.note && (
-                        <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
-                            <p className="text-blue-700 text-sm">{result.note}</p>
-                        </div>
+                    {error && (
+                        <Alert variant="destructive">
+                            <AlertDescription>{error}</AlertDescription>
+                        </Alert>
                     )}
+                </CardContent>
+            </FloatingCard>
 
-                    {result.source && (
-                        <div className="mt-2 text-xs text-gray-500">
-                            Source: {result.source}
+            {results.length > 0 && (
+                <FloatingCard hoverEffect={false}>
+                    <CardHeader className="space-y-3">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <CardTitle className="text-lg font-bold text-white">
+                                Results
+                                <span className="ml-2 text-xs font-normal text-gray-400">
+                                    {scoredProviders.map(id => SENTIMENT_PROVIDERS[id].label).join(' vs. ')}
+                                </span>
+                            </CardTitle>
+                            <div className="flex flex-wrap items-center gap-2">
+                                {isComparison && (
+                                    <Badge variant="outline" className="text-xs text-amber-300">
+                                        {disagreements} disagreement{disagreements === 1 ? '' : 's'}
+                                    </Badge>
+                                )}
+                                {!isComparison && counts.map(({ label, count }) => (
+                                    <Badge key={label} variant="outline" className={cn('text-xs capitalize', LABEL_TEXT_COLORS[label])}>
+                                        {count} {label}
+                                    </Badge>
+                                ))}
+                                {failed > 0 && (
+                                    <Badge variant="destructive" className="text-xs">
+                                        {failed} failed
+                                    </Badge>
+                                )}
+                            </div>
                         </div>
-                    )}
-                </div>
+                        {isComparison && (
+                            <div className="flex flex-wrap gap-2">
+                                {pairAgreement.map(({ first, second, compared, rate }) => (
+                                    <Badge key={`${first}-${second}`} variant="secondary" className="text-xs font-normal">
+                                        {SENTIMENT_PROVIDERS[first].label} / {SENTIMENT_PROVIDERS[second].label}:{' '}
+                                        {rate !== null ? `${(rate * 100).toFixed(0)}% agree (${compared})` : 'n/a'}
+                                    </Badge>
+                                ))}
+                            </div>
+                        )}
+                        {loading && (
+                            <div className="space-y-1">
+                                <Progress value={(completed / Math.max(1, cells.length)) * 100} className="h-2" />
+                                <p className="text-xs text-muted-foreground">{completed} of {cells.length} scored</p>
+                            </div>
+                        )}
+                    </CardHeader>
+                    <CardContent>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="border-b border-neutral-700 text-left text-xs text-gray-400">
+                                        <SortHeader sortKey="index" label="#" className="w-12" />
+                                        <th className="px-3 py-2 font-medium">Post</th>
+                                        {isComparison ? (
+                                            <>
+                                                {scoredProviders.map(id => (
+                                                    <th key={id} className="px-3 py-2 font-medium">{SENTIMENT_PROVIDERS[id].label}</th>
+                                                ))}
+                                                <SortHeader sortKey="agreement" label="Agreement" />
+                                            </>
+                                        ) : (
+                                            <>
+                                                <SortHeader sortKey="sentiment" label="Label" />
+                                                <SortHeader sortKey="confidence" label="Confidence" className="text-right" />
+                                                {SENTIMENT_LABELS.map(label => (
+                                                    <SortHeader
+                                                        key={label}
+                                                        sortKey={label}
+                                                        label={label.charAt(0).toUpperCase() + label.slice(1)}
+                                                        className="text-right"
+                                                    />
+                                                ))}
+                                            </>
+                                        )}
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {sortedResults.map(row => {
+                                        const primary = row.results[scoredProviders[0]];
+                                        const disagree = isComparison && distinctLabels(row, scoredProviders).size > 1;
+
+                                        return (
+                                            <tr
+                                                key={row.index}
+                                                className={cn('border-b border-neutral-800 align-top', disagree && 'bg-amber-500/10')}
+                                            >
+                                                <td className="px-3 py-2 text-gray-500">{row.index + 1}</td>
+                                                <td className="px-3 py-2 text-gray-200 max-w-md">
+                                                    <p className="line-clamp-3 break-words">{row.text}</p>
+                                                    {!isComparison && primary?.score && (
+                                                        // stacked probability bar
+                                                        <div className="mt-1 flex h-1 w-full overflow-hidden rounded-full bg-neutral-700">
+                                                            {SENTIMENT_LABELS.map(label => (
+                                                                <div
+                                                                    key={label}
+                                                                    className={LABEL_BAR_COLORS[label]}
+                                                                    style={{ width: `${primary.score!.probabilities[label] * 100}%` }}
+                                                                />
+                                                            ))}
+                                                        </div>
+                                                    )}
+                                                </td>
+                                                {isComparison ? (
+                                                    <>
+                                                        {scoredProviders.map(id => {
+                                                            const cell = row.results[id];
+                                                            if (!cell?.score) {
+                                                                return <Fragment key={id}>{renderCellStatus(cell, 1)}</Fragment>;
+                                                            }
+
+                                                            return (
+                                                                <td
+                                                                    key={id}
+                                                                    className="px-3 py-2"
+                                                                    title={SENTIMENT_LABELS
+                                                                        .map(label => `${label} ${(cell.score!.probabilities[label] * 100).toFixed(1)}%`)
+                                                                        .join(' · ')}
+                                                                >
+                                                                    <span className={cn('font-medium capitalize', LABEL_TEXT_COLORS[cell.score.sentiment])}>
+                                                                        {cell.score.sentiment}
+                                                                    </span>
+                                                                    <span className="ml-1 text-xs text-gray-400">
+                                                                        {(cell.score.confidence * 100).toFixed(0)}%
+                                                                    </span>
+                                                                </td>
+                                                            );
+                                                        })}
+                                                        <td className="px-3 py-2">
+                                                            {disagree ? (
+                                                                <Badge variant="outline" className="text-xs text-amber-300 border-amber-500/40">
+                                                                    Disagree
+                                                                </Badge>
+                                                            ) : (
+                                                                <span className="text-xs text-gray-500">Agree</span>
+                                                            )}
+                                                        </td>
+                                                    </>
+                                                ) : primary?.score ? (
+                                                    <>
+                                                        <td className={cn('px-3 py-2 font-medium capitalize', LABEL_TEXT_COLORS[primary.score.sentiment])}>
+                                                            {primary.score.sentiment}
+                                                        </td>
+                                                        <td className="px-3 py-2 text-right text-white">
+                                                            {(primary.score.confidence * 100).toFixed(1)}%
+                                                        </td>
+                                                        {SENTIMENT_LABELS.map(label => (
+                                                            <td key={label} className="px-3 py-2 text-right text-gray-300">
+                                                                {(primary.score!.probabilities[label] * 100).toFixed(1)}%
+                                                            </td>
+                                                        ))}
+                                                    </>
+                                                ) : renderCellStatus(primary, 5)}
+                                            </tr>
+                                        );
+                                    })}
+                                </tbody>
+                            </table>
+                        </div>
+                    </CardContent>
+                </FloatingCard>
             )}
         </div>
     );
@@ -0,0 +1,461 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { AlertCircle, Sigma } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import { PriceBar, loadPriceHistory } from '../utils/priceSeries';
+import { SentimentHistoryEntry, sentimentHistory } from '../utils/sentimentHistory';
+import {
+    RETURN_HORIZONS,
+    ReturnHorizon,
+    buildDailySentiment,
+    collectArticles,
+    eventStudy,
+    hitRate,
+    pairWithForwardReturns,
+    pearson
+} from '../utils/sentimentCorrelation';
+import { optionCodec, useQueryState } from '../utils/urlState';
+
+interface SentimentCorrelationChartProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+type CorrelationView = 'scatter' | 'event';
+
+const CORRELATION_VIEWS: CorrelationView[] = ['scatter', 'event'];
+
+// a day's net sentiment at or beyond this counts as a strong event
+const EVENT_THRESHOLD = 0.5;
+const EVENT_WINDOW = 5;
+// below this many days the statistics are mostly noise
+const MIN_RELIABLE_DAYS = 10;
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${(value * 100).toFixed(2)}%`;
+
+export default function SentimentCorrelationChart({ ticker, shouldFetch }: SentimentCorrelationChartProps) {
+    const [bars, setBars] = useState<PriceBar[]>([]);
+    const [entries, setEntries] = useState<SentimentHistoryEntry[]>([]);
+    const [horizon, setHorizon] = useQueryState<ReturnHorizon>('horizon', 5, optionCodec(RETURN_HORIZONS));
+    const [view, setView] = useQueryState<CorrelationView>('correlation', 'scatter', optionCodec(CORRELATION_VIEWS));
+    const [loading, setLoading] = useState<boolean>(false);
+    const [error, setError] = useState<string>('');
+
+    const fetchPriceData = async () => {
+        if (!ticker) return;
+
+        setLoading(true);
+        setError('');
+
+        try {
+            // shares the price chart's cached responses, so this costs no extra API calls
+            const history = await loadPriceHistory(ticker);
+
+            if (history.daily.length === 0) {
+                throw new Error('No daily price data available for this ticker');
+            }
+
+            setBars(history.daily);
+
+        } catch (err: any) {
+            console.error('Error fetching price data for correlation:', err);
+            setError(err.message || 'Failed to fetch price data');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        if (shouldFetch && ticker && ticker.length >= 3 && !ticker.includes(' ')) {
+            fetchPriceData();
+        }
+    }, [ticker, shouldFetch]);
+
+    useEffect(() => {
+        if (!shouldFetch || !ticker) {
+            setEntries([]);
+            return;
+        }
+
+        const symbol = ticker.toUpperCase();
+        setEntries(sentimentHistory.getEntries(symbol));
+
+        return sentimentHistory.subscribe(changed => {
+            if (changed === symbol) {
+                setEntries(sentimentHistory.getEntries(symbol));
+            }
+        });
+    }, [ticker, shouldFetch]);
+
+    const daily = buildDailySentiment(collectArticles(entries), bars.map(bar => bar.date));
+    const points = pairWithForwardReturns(daily, bars, horizon);
+    const correlation = pearson(points.map(point => point.score), points.map(point => point.forwardReturn));
+    const hits = hitRate(points);
+    const events = eventStudy(daily, bars, EVENT_THRESHOLD, EVENT_WINDOW);
+
+    const getScatterOption = (isMobile: boolean) => ({
+        tooltip: {
+            trigger: 'item',
+            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            borderColor: '#374151',
+            textStyle: {
+                color: '#ffffff',
+                fontSize: isMobile ? 11 : 12
+            },
+            formatter: function (params: any) {
+                const point = points[params.dataIndex];
+
+                return `
+                    <div style="padding: 8px;">
+                        <div style="font-weight: bold; margin-bottom: 4px;">${point.date}</div>
+                        <div>Sentiment: ${point.score.toFixed(2)}</div>
+                        <div>${horizon}-day return: <span style="color: ${point.forwardReturn >= 0 ? '#22c55e' : '#ef4444'};">${formatPercent(point.forwardReturn)}</span></div>
+                    </div>
+                `;
+            }
+        },
+        xAxis: {
+            type: 'value',
+            name: 'Net Sentiment',
+            nameLocation: 'middle',
+            nameGap: 28,
+            min: -1,
+            max: 1,
+            nameTextStyle: {
+                color: '#d1d5db',
+                fontSize: isMobile ? 11 : 13
+            },
+            axisLabel: {
+                color: '#e5e7eb',
+                fontSize: isMobile ? 11 : 13
+            },
+            splitLine: {
+                lineStyle: {
+                    color: '#374151',
+                    type: 'dashed'
+                }
+            }
+        },
+        yAxis: {
+            type: 'value',
+            name: `${horizon}D Forward Return`,
+            nameTextStyle: {
+                color: '#d1d5db',
+                fontSize: isMobile ? 11 : 13
+            },
+            axisLabel: {
+                color: '#e5e7eb',
+                formatter: (value: number) => `${(value * 100).toFixed(0)}%`,
+                fontSize: isMobile ? 11 : 13
+            },
+            splitLine: {
+                lineStyle: {
+                    color: '#374151',
+                    type: 'dashed'
+                }
+            }
+        },
+        series: [
+            {
+                name: 'Days',
+                type: 'scatter',
+                symbolSize: isMobile ? 7 : 9,
+                data: points.map(point => ({
+                    value: [point.score, point.forwardReturn],
+                    itemStyle: {
+                        color: point.forwardReturn >= 0 ? 'rgba(34, 197, 94, 0.8)' : 'rgba(239, 68, 68, 0.8)'
+                    }
+                })),
+                markLine: {
+                    silent: true,
+                    symbol: 'none',
+                    lineStyle: { color: '#6b7280', type: 'dashed' },
+                    data: [{ xAxis: 0 }, { yAxis: 0 }]
+                }
+            }
+        ]
+    });
+
+    const getEventOption = (isMobile: boolean) => ({
+        legend: {
+            data: [`Strong positive (${events.positiveCount})`, `Strong negative (${events.negativeCount})`],
+            top: 0,
+            textStyle: {
+                color: '#9ca3af',
+                fontSize: isMobile ? 9 : 12
+            }
+        },
+        tooltip: {
+            trigger: 'axis',
+            backgroundColor: 'rgba(0, 0, 0, 0.8)',
+            borderColor: '#374151',
+            textStyle: {
+                color: '#ffffff',
+                fontSize: isMobile ? 11 : 12
+            },
+            valueFormatter: (value: number | null) => value === null ? 'N/A' : formatPercent(value)
+        },
+        xAxis: {
+            type: 'category',
+            name: 'Trading days from event',
+            nameLocation: 'middle',
+            nameGap: 28,
+            data: events.offsets.map(offset => offset > 0 ? `+${offset}` : `${offset}`),
+            nameTextStyle: {
+                color: '#d1d5db',
+                fontSize: isMobile ? 11 : 13
+            },
+            axisLabel: {
+                color: '#e5e7eb',
+                fontSize: isMobile ? 11 : 13
+            },
+            axisLine: {
+                lineStyle: {
+                    color: '#374151'
+                }
+            }
+        },
+        yAxis: {
+            type: 'value',
+            name: 'Avg. Cumulative Return',
+            nameTextStyle: {
+                color: '#d1d5db',
+                fontSize: isMobile ? 11 : 13
+            },
+            axisLabel: {
+                color: '#e5e7eb',
+                formatter: (value: number) => `${(value * 100).toFixed(1)}%`,
+                fontSize: isMobile ? 11 : 13
+            },
+            splitLine: {
+                lineStyle: {
+                    color: '#374151',
+                    type: 'dashed'
+                }
+            }
+        },
+        series: [
+            {
+                name: `Strong positive (${events.positiveCount})`,
+                type: 'line',
+                data: events.positive,
+                lineStyle: {
+                    color: '#22c55e',
+                    width: isMobile ? 2 : 3
+                },
+                itemStyle: {
+                    color: '#22c55e'
+                },
+                markLine: {
+                    silent: true,
+                    symbol: 'none',
+                    lineStyle: { color: '#6b7280', type: 'dashed' },
+                    data: [{ xAxis: '0' }]
+                }
+            },
+            {
+                name: `Strong negative (${events.negativeCount})`,
+                type: 'line',
+                data: events.negative,
+                lineStyle: {
+                    color: '#ef4444',
+                    width: isMobile ? 2 : 3
+                },
+                itemStyle: {
+                    color: '#ef4444'
+                }
+            }
+        ]
+    });
+
+    const getChartOption = () => {
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+
+        return {
+            backgroundColor: 'transparent',
+            grid: {
+                left: isMobile ? '8%' : '5%',
+                right: isMobile ? '8%' : '5%',
+                bottom: isMobile ? '12%' : '10%',
+                top: '15%',
+                containLabel: true
+            },
+            ...(view === 'scatter' ? getScatterOption(isMobile) : getEventOption(isMobile))
+        };
+    };
+
+    if (loading) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Sigma className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Sentiment vs. Returns</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center space-y-4">
+                        <Skeleton className="h-12 w-12 rounded-full mx-auto" />
+                        <div className="space-y-2">
+                            <Skeleton className="h-4 w-48" />
+                            <Skeleton className="h-3 w-32" />
+                        </div>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (error) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Sigma className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Sentiment vs. Returns</CardTitle>
+                    </div>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <Alert variant="destructive">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription>{error}</AlertDescription>
+                    </Alert>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    if (daily.length === 0 || bars.length === 0) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <Sigma className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Sentiment vs. Returns</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Does news sentiment lead the stock? Builds up as analyses are saved
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <Sigma className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>{shouldFetch && ticker ? `No dated sentiment for ${ticker.toUpperCase()} yet` : 'Ready to test the sentiment signal'}</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    return (
+        <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <Sigma className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Sentiment vs. Returns</CardTitle>
+                    </div>
+                    {points.length < MIN_RELIABLE_DAYS && (
+                        <Badge variant="secondary" className="text-xs" title={`Fewer than ${MIN_RELIABLE_DAYS} days with both sentiment and a ${horizon}-day return`}>
+                            Small sample
+                        </Badge>
+                    )}
+                </div>
+                <CardDescription className="text-gray-300">
+                    Daily news sentiment against forward returns for {ticker.toUpperCase()}
+                </CardDescription>
+                <div className="flex flex-wrap items-center gap-2">
+                    <Button
+                        size="sm"
+                        variant={view === 'scatter' ? 'default' : 'outline'}
+                        onClick={() => setView('scatter')}
+                        className="h-7 px-3 text-xs"
+                    >
+                        Scatter
+                    </Button>
+                    <Button
+                        size="sm"
+                        variant={view === 'event' ? 'default' : 'outline'}
+                        onClick={() => setView('event')}
+                        className="h-7 px-3 text-xs"
+                    >
+                        Event Study
+                    </Button>
+                    {view === 'scatter' && (
+                        <div className="flex items-center gap-1 ml-auto">
+                            {RETURN_HORIZONS.map(option => (
+                                <Button
+                                    key={option}
+                                    size="sm"
+                                    variant={horizon === option ? 'default' : 'outline'}
+                                    onClick={() => setHorizon(option)}
+                                    className="h-7 px-2 text-xs"
+                                >
+                                    {option}D
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            </CardHeader>
+
+            <CardContent className="flex flex-col h-full space-y-4">
+                {/* echarts scatter / event study */}
+                <div className="flex-1 min-h-[200px] w-full">
+                    <ReactECharts
+                        option={getChartOption()}
+                        style={{ height: '100%', width: '100%' }}
+                        theme="dark"
+                        opts={{ renderer: 'svg' }}
+                        notMerge={true}
+                    />
+                </div>
+
+                {/* summary stats */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Correlation ({horizon}D)</div>
+                            <div className={`text-sm font-bold ${correlation === null ? 'text-white' : correlation >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                                {correlation !== null ? correlation.toFixed(2) : 'N/A'}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Hit Rate ({horizon}D)</div>
+                            <div className={`text-sm font-bold ${hits.rate !== null && hits.rate >= 0.5 ? 'text-green-300' : 'text-white'}`}>
+                                {hits.rate !== null ? `${(hits.rate * 100).toFixed(0)}%` : 'N/A'}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Days</div>
+                            <div className="text-sm font-bold text-white">
+                                {points.length}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Strong Days</div>
+                            <div className="text-sm font-bold text-white">
+                                <span className="text-green-300">{events.positiveCount}</span>
+                                {' / '}
+                                <span className="text-red-300">{events.negativeCount}</span>
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+            </CardContent>
+        </FloatingCard>
+    );
+}
@@ -0,0 +1,347 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import ReactECharts from 'echarts-for-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { History, Trash2 } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import { SentimentHistoryEntry, sentimentHistory } from '../utils/sentimentHistory';
+import { netSentiment } from '../utils/sentiment';
+import { optionCodec, useQueryState } from '../utils/urlState';
+
+interface SentimentHistoryChartProps {
+    ticker: string;
+    shouldFetch: boolean;
+}
+
+type HistoryWindow = '7D' | '30D' | 'ALL';
+
+const WINDOW_DAYS: Record<HistoryWindow, number | null> = {
+    '7D': 7,
+    '30D': 30,
+    'ALL': null
+};
+
+const HISTORY_WINDOWS = Object.keys(WINDOW_DAYS) as HistoryWindow[];
+
+const LABEL_COLORS: Record<string, string> = {
+    positive: '#22c55e',
+    neutral: '#eab308',
+    negative: '#ef4444'
+};
+
+const formatNet = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+export default function SentimentHistoryChart({ ticker, shouldFetch }: SentimentHistoryChartProps) {
+    const [entries, setEntries] = useState<SentimentHistoryEntry[]>([]);
+    const [historyWindow, setHistoryWindow] = useQueryState<HistoryWindow>('history', '30D', optionCodec(HISTORY_WINDOWS));
+
+    // history is local, so it's read as soon as a ticker is searched and refreshed on every new analysis
+    useEffect(() => {
+        if (!shouldFetch || !ticker) {
+            setEntries([]);
+            return;
+        }
+
+        const symbol = ticker.toUpperCase();
+        setEntries(sentimentHistory.getEntries(symbol));
+
+        return sentimentHistory.subscribe(changed => {
+            if (changed === symbol) {
+                setEntries(sentimentHistory.getEntries(symbol));
+            }
+        });
+    }, [ticker, shouldFetch]);
+
+    const days = WINDOW_DAYS[historyWindow];
+    const visibleEntries = days === null
+        ? entries
+        : entries.filter(entry => Date.parse(entry.timestamp) >= Date.now() - days * 24 * 60 * 60 * 1000);
+
+    const getChartOption = () => {
+        const isMobile = typeof window !== 'undefined' && window.innerWidth < 768;
+
+        return {
+            title: {
+                text: `${ticker.toUpperCase()} Sentiment Over Time`,
+                subtext: 'Net score (positive − negative) and class probabilities',
+                left: 'center',
+                top: '2%',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 14 : 18,
+                    fontWeight: 'bold'
+                },
+                subtextStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 10 : 12
+                }
+            },
+            backgroundColor: 'transparent',
+            legend: {
+                data: ['Net Sentiment', 'Positive', 'Neutral', 'Negative'],
+                top: isMobile ? '22%' : '18%',
+                left: 'center',
+                itemGap: isMobile ? 8 : 15,
+                textStyle: {
+                    color: '#9ca3af',
+                    fontSize: isMobile ? 9 : 12
+                },
+                itemWidth: isMobile ? 12 : 18,
+                itemHeight: isMobile ? 8 : 12
+            },
+            tooltip: {
+                trigger: 'axis',
+                backgroundColor: 'rgba(0, 0, 0, 0.8)',
+                borderColor: '#374151',
+                textStyle: {
+                    color: '#ffffff',
+                    fontSize: isMobile ? 11 : 12
+                },
+                formatter: function (params: any) {
+                    const entry = visibleEntries[params[0].dataIndex];
+                    const net = netSentiment(entry.probabilities);
+
+                    return `
+                        <div style="padding: 8px;">
+                            <div style="font-weight: bold; margin-bottom: 4px;">${new Date(entry.timestamp).toLocaleString()}</div>
+                            <div>Label: <span style="color: ${LABEL_COLORS[entry.sentiment]}; text-transform: capitalize;">${entry.sentiment}</span> (${(entry.confidence * 100).toFixed(1)}%)</div>
+                            <div>Net: <span style="color: ${net >= 0 ? '#22c55e' : '#ef4444'};">${formatNet(net)}</span></div>
+                            <div>Articles: ${entry.articles.length}</div>
+                            <div style="color: #9ca3af;">Model: ${entry.model}${entry.fallback ? ' (offline fallback)' : ''}</div>
+                        </div>
+                    `;
+                }
+            },
+            grid: {
+                left: isMobile ? '8%' : '5%',
+                right: isMobile ? '8%' : '5%',
+                bottom: isMobile ? '8%' : '5%',
+                top: isMobile ? '40%' : '35%',
+                containLabel: true
+            },
+            xAxis: {
+                type: 'time',
+                axisLabel: {
+                    color: '#e5e7eb',
+                    fontSize: isMobile ? 10 : 12
+                },
+                axisLine: {
+                    lineStyle: {
+                        color: '#374151'
+                    }
+                }
+            },
+            yAxis: [
+                {
+                    type: 'value',
+                    name: 'Net',
+                    min: -1,
+                    max: 1,
+                    nameTextStyle: {
+                        color: '#d1d5db',
+                        fontSize: isMobile ? 11 : 13
+                    },
+                    axisLabel: {
+                        color: '#e5e7eb',
+                        fontSize: isMobile ? 11 : 13
+                    },
+                    axisLine: {
+                        lineStyle: {
+                            color: '#374151'
+                        }
+                    },
+                    splitLine: {
+                        lineStyle: {
+                            color: '#374151',
+                            type: 'dashed'
+                        }
+                    }
+                },
+                {
+                    type: 'value',
+                    name: 'Probability',
+                    min: 0,
+                    max: 100,
+                    nameTextStyle: {
+                        color: '#d1d5db',
+                        fontSize: isMobile ? 11 : 13
+                    },
+                    axisLabel: {
+                        color: '#e5e7eb',
+                        formatter: '{value}%',
+                        fontSize: isMobile ? 11 : 13
+                    },
+                    splitLine: {
+                        show: false
+                    }
+                }
+            ],
+            series: [
+                {
+                    name: 'Net Sentiment',
+                    type: 'line',
+                    data: visibleEntries.map(entry => [entry.timestamp, netSentiment(entry.probabilities)]),
+                    lineStyle: {
+                        color: '#3b82f6',
+                        width: isMobile ? 2 : 3
+                    },
+                    itemStyle: {
+                        color: '#3b82f6'
+                    },
+                    symbolSize: 7,
+                    markLine: {
+                        silent: true,
+                        symbol: 'none',
+                        lineStyle: { color: '#6b7280', type: 'dashed' },
+                        data: [{ yAxis: 0 }]
+                    }
+                },
+                ...(['positive', 'neutral', 'negative'] as const).map(label => ({
+                    name: label.charAt(0).toUpperCase() + label.slice(1),
+                    type: 'line',
+                    yAxisIndex: 1,
+                    data: visibleEntries.map(entry => [entry.timestamp, entry.probabilities[label] * 100]),
+                    showSymbol: false,
+                    lineStyle: {
+                        color: LABEL_COLORS[label],
+                        width: 1,
+                        opacity: 0.6
+                    },
+                    itemStyle: {
+                        color: LABEL_COLORS[label]
+                    }
+                }))
+            ]
+        };
+    };
+
+    if (entries.length === 0) {
+        return (
+            <FloatingCard className="h-full min-h-[250px] lg:min-h-[400px]">
+                <CardHeader>
+                    <div className="flex items-center gap-2">
+                        <History className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Sentiment History</CardTitle>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Every analysis is saved in this browser to track sentiment drift
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="flex-1 flex items-center justify-center">
+                    <div className="text-center text-muted-foreground">
+                        <History className="h-12 w-12 mx-auto mb-4 opacity-50" />
+                        <p>{shouldFetch && ticker ? `No saved analyses for ${ticker.toUpperCase()} yet` : 'Ready to track sentiment'}</p>
+                    </div>
+                </CardContent>
+            </FloatingCard>
+        );
+    }
+
+    const latest = entries[entries.length - 1];
+    const latestNet = netSentiment(latest.probabilities);
+    const windowNets = visibleEntries.map(entry => netSentiment(entry.probabilities));
+    const averageNet = windowNets.length > 0
+        ? windowNets.reduce((sum, value) => sum + value, 0) / windowNets.length
+        : null;
+    // drift is measured from the first analysis in the window to the latest one
+    const drift = windowNets.length > 1 ? windowNets[windowNets.length - 1] - windowNets[0] : null;
+
+    return (
+        <FloatingCard className="flex flex-col h-full min-h-[350px] lg:min-h-[450px]">
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                        <History className="h-5 w-5 text-blue-400" />
+                        <CardTitle className="text-lg font-bold text-white">Sentiment History</CardTitle>
+                    </div>
+                    <Badge variant="secondary" className="text-xs">
+                        {entries.length} saved
+                    </Badge>
+                </div>
+                <CardDescription className="text-gray-300">
+                    News sentiment from each analysis of {ticker.toUpperCase()}
+                </CardDescription>
+                <div className="flex items-center gap-2">
+                    {HISTORY_WINDOWS.map(option => (
+                        <Button
+                            key={option}
+                            size="sm"
+                            variant={historyWindow === option ? 'default' : 'outline'}
+                            onClick={() => setHistoryWindow(option)}
+                            className="h-7 px-3 text-xs"
+                        >
+                            {option === 'ALL' ? 'All' : option}
+                        </Button>
+                    ))}
+                    <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => sentimentHistory.clear(ticker)}
+                        title={`Delete saved history for ${ticker.toUpperCase()}`}
+                        className="h-7 px-2 text-xs ml-auto text-gray-400"
+                    >
+                        <Trash2 className="h-3 w-3" />
+                    </Button>
+                </div>
+            </CardHeader>
+
+            <CardContent className="flex flex-col h-full space-y-4">
+                {/* echarts line chart */}
+                <div className="flex-1 min-h-[200px] w-full">
+                    {visibleEntries.length > 0 ? (
+                        <ReactECharts
+                            option={getChartOption()}
+                            style={{ height: '100%', width: '100%' }}
+                            theme="dark"
+                            opts={{ renderer: 'svg' }}
+                            notMerge={true}
+                        />
+                    ) : (
+                        <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+                            No analyses in this window
+                        </div>
+                    )}
+                </div>
+
+                {/* summary stats */}
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-3">
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Latest</div>
+                            <div className={`text-sm font-bold ${latestNet >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                                {formatNet(latestNet)}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Average</div>
+                            <div className="text-sm font-bold text-white">
+                                {averageNet !== null ? formatNet(averageNet) : 'N/A'}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Drift</div>
+                            <div className={`text-sm font-bold ${drift === null ? 'text-white' : drift >= 0 ? 'text-green-300' : 'text-red-300'}`}>
+                                {drift !== null ? formatNet(drift) : 'N/A'}
+                            </div>
+                        </CardContent>
+                    </Card>
+                    <Card className="bg-neutral-700/50 border-neutral-600">
+                        <CardContent className="p-3 text-center">
+                            <div className="text-xs text-gray-300 mb-1 font-medium">Analyses</div>
+                            <div className="text-sm font-bold text-white">
+                                {visibleEntries.length}
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+            </CardContent>
+        </FloatingCard>
+    );
+}
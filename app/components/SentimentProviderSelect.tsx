@@ -0,0 +1,41 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { Cpu } from 'lucide-react';
+import {
+    SENTIMENT_PROVIDERS,
+    SENTIMENT_PROVIDER_IDS,
+    SentimentProviderId,
+    saveProviderPreference
+} from '../utils/sentimentProviders';
+
+interface SentimentProviderSelectProps {
+    value: SentimentProviderId;
+    onChange: (id: SentimentProviderId) => void;
+    disabled?: boolean;
+}
+
+export default function SentimentProviderSelect({ value, onChange, disabled }: SentimentProviderSelectProps) {
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            <Cpu className="h-4 w-4 text-gray-400" />
+            <span className="text-xs text-gray-400">Model</span>
+            {SENTIMENT_PROVIDER_IDS.map(id => (
+                <Button
+                    key={id}
+                    size="sm"
+                    variant={value === id ? 'default' : 'outline'}
+                    disabled={disabled}
+                    title={SENTIMENT_PROVIDERS[id].description}
+                    onClick={() => {
+                        saveProviderPreference(id);
+                        onChange(id);
+                    }}
+                    className="h-7 px-2 text-xs"
+                >
+                    {SENTIMENT_PROVIDERS[id].label}
+                </Button>
+            ))}
+        </div>
+    );
+}
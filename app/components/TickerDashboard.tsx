@@ -1,20 +1,58 @@
 'use client';
 
-import { useState } from 'react';
-import axios from 'axios';
+import { useEffect, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
 import EarningsChart from './EarningsChart';
 import TickerSearchInput from './TickerSearchInput';
 import DividendsChart from './DividendsChart';
 import CashFlowChart from './CashFlowChart';
 import IncomeStatementChart from './IncomeStatementChart';
-import { fetchStockNews, getCompanyName } from '../utils/newsApi';
+import BalanceSheetChart from './BalanceSheetChart';
+import RatioChart from './RatioChart';
+import DcfCalculator from './DcfCalculator';
+import PriceChart from './PriceChart';
+import CompanyOverviewCard from './CompanyOverviewCard';
+import SentimentHistoryChart from './SentimentHistoryChart';
+import SentimentCorrelationChart from './SentimentCorrelationChart';
+import ComparisonChart from './ComparisonChart';
+import SentimentProviderSelect from './SentimentProviderSelect';
+import HighlightedText from './HighlightedText';
+import { NewsArticle, fetchStockNews, getCompanyName } from '../utils/newsApi';
+import {
+    Attribution,
+    SENTIMENT_LABELS,
+    SentimentLabel,
+    SentimentProbabilities,
+    SentimentScore,
+    aggregateSentiment,
+    getSentimentErrorMessage,
+    netSentiment
+} from '../utils/sentiment';
+import {
+    DEFAULT_PROVIDER_ID,
+    SENTIMENT_PROVIDERS,
+    SentimentProviderId,
+    analyzeWithFallback,
+    loadProviderPreference
+} from '../utils/sentimentProviders';
+import { sentimentHistory } from '../utils/sentimentHistory';
+import { explainByOcclusion, topDrivers } from '../utils/sentimentExplanation';
+import {
+    FundamentalMetrics,
+    NARRATIVE_GENERATORS,
+    NarrativeGeneratorId,
+    NarrativeInput,
+    narrativeSentences
+} from '../utils/narrative';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
-import { Brain, TrendingUp, TrendingDown, Minus, Loader2 } from 'lucide-react';
+import { Brain, TrendingUp, TrendingDown, Minus, Loader2, Newspaper, ExternalLink, WifiOff, Highlighter, Sparkles } from 'lucide-react';
 import FloatingCard from './ui/floating-card';
+import CacheStatsIndicator from './CacheStatsIndicator';
+import { dashboardPath } from '../utils/urlState';
 
 /**
  * Development-only logging utility
@@ -25,90 +63,166 @@ const devLog = (message: string, ...args: any[]) => {
   }
 };
 
+interface ScoredArticle extends NewsArticle {
+    score: SentimentScore | null;
+    /** Share of the aggregate, 0 when the article couldn't be scored */
+    weight: number;
+    /** Provider that produced `score`, the lexicon when it stood in for the selected one */
+    scoredBy?: SentimentProviderId;
+    error?: string;
+}
+
 interface SentimentData {
-    sentiment: 'positive' | 'neutral' | 'negative';
+    ticker: string;
+    sentiment: SentimentLabel;
     confidence: number;
-    summary: string;
-    probabilities?: {
-        positive: number;
-        neutral: number;
-        negative: number;
-    };
-    newsArticles?: Array<{
-        title: string;
-        source: { name: string };
-        publishedAt: string;
-        url: string;
-    }>;
-    newsText?: string;
+    probabilities: SentimentProbabilities;
+    model: string;
+    /** Why the offline lexicon was used, if it had to be */
+    fallbackReason?: string;
+    articles: ScoredArticle[];
 }
 
-interface ApiResponse {
-    text: string;
-    predictions: Array<{
-        label: string;
-        score: number;
-    }>;
-    model: string;
-    source?: string;
-    note?: string;
+interface GeneratedNarrative {
+    loading: boolean;
+    text?: string;
+    error?: string;
+    /** The input it was generated from, to tell when newer figures have loaded */
+    inputKey: string;
 }
 
-export default function TickerDashboard() {
-    const [ticker, setTicker] = useState<string>('');
+interface ArticleExplanation {
+    loading: boolean;
+    attributions?: Attribution[];
+    error?: string;
+}
+
+const LABEL_BAR_COLORS: Record<SentimentLabel, string> = {
+    positive: 'bg-green-500',
+    neutral: 'bg-yellow-500',
+    negative: 'bg-red-500'
+};
+
+interface TickerDashboardProps {
+    /** Ticker from the /dashboard/[ticker] route, analyzed on mount */
+    initialTicker?: string;
+}
+
+export default function TickerDashboard({ initialTicker = '' }: TickerDashboardProps) {
+    const router = useRouter();
+    const [ticker, setTicker] = useState<string>(initialTicker);
     const [loading, setLoading] = useState<boolean>(false);
     const [sentimentData, setSentimentData] = useState<SentimentData | null>(null);
     const [error, setError] = useState<string>('');
     const [shouldFetchResults, setShouldFetchResults] = useState<boolean>(false);
+    const [provider, setProvider] = useState<SentimentProviderId>(DEFAULT_PROVIDER_ID);
+    // leave-one-out explanations requested per article, keyed by url
+    const [explanations, setExplanations] = useState<Record<string, ArticleExplanation>>({});
+    // figures reported by the fundamentals cards as they load, for the summary
+    const [fundamentals, setFundamentals] = useState<FundamentalMetrics>({});
+    // the cards only reload for a new ticker, so re-analyzing the same one keeps their figures
+    const fundamentalsTicker = useRef<string>('');
+    const [narrator, setNarrator] = useState<NarrativeGeneratorId>('template');
+    const [generatedNarrative, setGeneratedNarrative] = useState<GeneratedNarrative | null>(null);
+
+    // read the saved choice after mount, localStorage isn't available during SSR
+    useEffect(() => {
+        const savedProvider = loadProviderPreference();
+        setProvider(savedProvider);
+
+        if (initialTicker) {
+            analyze(initialTicker, savedProvider);
+        }
+    }, [initialTicker]);
 
-    const processApiResponse = (apiResult: ApiResponse): SentimentData => {
-        const probabilities = {
-            positive: 0,
-            neutral: 0,
-            negative: 0
-        };
-
-        apiResult.predictions.forEach(pred => {
-            const label = pred.label.toLowerCase();
-            if (label.includes('positive') || label.includes('pos')) {
-                probabilities.positive = pred.score;
-            } else if (label.includes('negative') || label.includes('neg')) {
-                probabilities.negative = pred.score;
-            } else if (label.includes('neutral') || label.includes('neu')) {
-                probabilities.neutral = pred.score;
-            }
-        });
+    /**
+     * Explain an article by re-scoring it with each chunk of words left out,
+     * using whichever provider produced its score
+     */
+    const explainArticle = async (article: ScoredArticle) => {
+        if (!article.score || !article.scoredBy) return;
 
-        // determine sentiment
-        const maxProb = Math.max(probabilities.positive, probabilities.neutral, probabilities.negative);
-        let sentiment: 'positive' | 'neutral' | 'negative' = 'neutral';
+        const explainer = SENTIMENT_PROVIDERS[article.scoredBy];
+        setExplanations(current => ({ ...current, [article.url]: { loading: true } }));
 
-        if (probabilities.positive === maxProb) {
-            sentiment = 'positive';
-        } else if (probabilities.negative === maxProb) {
-            sentiment = 'negative';
+        try {
+            const attributions = await explainByOcclusion(article.text, article.score, text => explainer.analyze(text, 15000));
+            setExplanations(current => ({ ...current, [article.url]: { loading: false, attributions } }));
+        } catch (err: unknown) {
+            setExplanations(current => ({
+                ...current,
+                [article.url]: { loading: false, error: getSentimentErrorMessage(err, 'Could not explain this article') }
+            }));
         }
+    };
 
-        const tickerUpper = ticker.toUpperCase();
-        let summary = '';
+    const getAttributions = (article: ScoredArticle): Attribution[] | undefined =>
+        article.score?.attributions || explanations[article.url]?.attributions;
 
-        if (sentiment === 'positive') {
-            summary = `Recent news analysis for ${tickerUpper} indicates positive market sentiment. The AI model detected optimistic language in financial reports and news coverage, suggesting favorable investor outlook, potential growth opportunities, or positive market reception. This analysis is based on actual news content from reliable financial sources.`;
-        } else if (sentiment === 'negative') {
-            summary = `Recent news analysis for ${tickerUpper} shows negative market sentiment. The AI model identified concerning language in financial reports and news coverage that might indicate investor concerns, market uncertainties, or potential challenges. This suggests caution may be warranted based on current news sentiment.`;
-        } else {
-            summary = `Recent news analysis for ${tickerUpper} reveals neutral market sentiment. The AI model found balanced language in financial reports and news coverage without strong directional bias, suggesting mixed investor opinions or a period of consolidation based on current news coverage.`;
-        }
+    /**
+     * How much an article moved the aggregate's net score
+     */
+    const getContribution = (article: ScoredArticle): number =>
+        article.score ? article.weight * netSentiment(article.score.probabilities) : 0;
+
+    const handleMetrics = (metrics: FundamentalMetrics) => {
+        setFundamentals(current => ({ ...current, ...metrics }));
+    };
+
+    const getNarrativeInput = (data: SentimentData): NarrativeInput => {
+        const scored = data.articles.filter(article => article.score);
+        const byContribution = [...scored].sort((a, b) => getContribution(b) - getContribution(a));
+        const toHeadline = (article?: ScoredArticle) => article && {
+            title: article.title,
+            source: article.source.name,
+            contribution: getContribution(article)
+        };
 
         return {
-            sentiment,
-            confidence: maxProb,
-            summary,
-            probabilities
+            ticker: data.ticker,
+            sentiment: data.sentiment,
+            confidence: data.confidence,
+            articleCount: scored.length,
+            fundamentals,
+            topPositive: toHeadline(byContribution[0]),
+            topNegative: toHeadline(byContribution[byContribution.length - 1])
         };
     };
 
-    const handleSearch = async () => {
+    /**
+     * Rewrite the summary with the LLM generator; the template one needs no request
+     */
+    const generateNarrative = async (input: NarrativeInput) => {
+        const inputKey = JSON.stringify(input);
+        setNarrator('llm');
+        setGeneratedNarrative({ loading: true, inputKey });
+
+        try {
+            const text = await NARRATIVE_GENERATORS.llm.generate(input);
+            setGeneratedNarrative({ loading: false, text, inputKey });
+        } catch (err: unknown) {
+            setGeneratedNarrative({
+                loading: false,
+                error: getSentimentErrorMessage(err, 'Could not generate the summary'),
+                inputKey
+            });
+        }
+    };
+
+    const selectNarrator = (id: NarrativeGeneratorId, input: NarrativeInput) => {
+        // generate on first use, or retry after a failure; otherwise switch back to the kept text
+        if (id === 'llm' && (!generatedNarrative || generatedNarrative.error)) {
+            generateNarrative(input);
+        } else {
+            setNarrator(id);
+        }
+    };
+
+    /**
+     * A new ticker gets its own URL (and history entry, so back/forward move
+     * between tickers); re-analyzing the current one stays on the page
+     */
+    const handleSearch = () => {
         devLog('handleSearch called with ticker:', ticker);
 
         if (!ticker.trim()) {
@@ -116,79 +230,119 @@ export default function TickerDashboard() {
             return;
         }
 
+        if (ticker.trim().toUpperCase() !== initialTicker.toUpperCase()) {
+            // carry the card settings over to the new ticker
+            router.push(`${dashboardPath(ticker)}${window.location.search}`);
+            return;
+        }
+
+        analyze(ticker, provider);
+    };
+
+    const analyze = async (symbol: string, sentimentProvider: SentimentProviderId) => {
         setLoading(true);
         setError('');
         setSentimentData(null);
+        setExplanations({});
+        if (symbol.toUpperCase() !== fundamentalsTicker.current) {
+            fundamentalsTicker.current = symbol.toUpperCase();
+            setFundamentals({});
+        }
+        setNarrator('template');
+        setGeneratedNarrative(null);
         setShouldFetchResults(true);
 
-        devLog('Starting news-based analysis for ticker:', ticker);
+        devLog('Starting news-based analysis for ticker:', symbol);
 
         try {
             // Step 1: Fetch recent news about the stock
             devLog('Fetching recent news...');
-            const companyName = getCompanyName(ticker);
-            const newsResult = await fetchStockNews(ticker, companyName);
+            const companyName = getCompanyName(symbol);
+            const newsResult = await fetchStockNews(symbol, companyName);
 
             if (!newsResult.success) {
                 throw new Error(newsResult.error || 'Failed to fetch news');
             }
 
-            devLog('Found news articles, proceeding to sentiment analysis...');
+            devLog(`Found ${newsResult.articles.length} news articles, scoring each...`);
 
-            // Step 2: Analyze sentiment of the news content
-            const API_URL = process.env.NODE_ENV === 'development'
-                ? 'http://localhost:5000'
-                : process.env.NEXT_PUBLIC_API_URL;
+            // Step 2: Score every article on its own, offline if the model backend is down
+            const results = await Promise.allSettled(
+                newsResult.articles.map(article => analyzeWithFallback(sentimentProvider, article.text, 15000))
+            );
 
-            devLog('Analyzing sentiment of news content...');
-            devLog('News text preview:', newsResult.text.substring(0, 200) + '...');
+            const firstFailure = results.find(result => result.status === 'rejected');
+            if (!results.some(result => result.status === 'fulfilled')) {
+                throw firstFailure?.status === 'rejected' ? firstFailure.reason : new Error('No predictions received from API');
+            }
 
-            const response = await axios.post(`${API_URL}/api/analyze`, {
-                text: newsResult.text
-            }, {
-                timeout: 15000,
-                headers: {
-                    'Content-Type': 'application/json',
+            const scored = newsResult.articles.flatMap((article, index) => {
+                const result = results[index];
+                return result.status === 'fulfilled' ? [{ article, score: result.value }] : [];
+            });
+            const aggregate = aggregateSentiment(
+                scored.map(({ article, score }) => ({ score, publishedAt: article.publishedAt })),
+                { defaultModel: SENTIMENT_PROVIDERS[sentimentProvider].label }
+            );
+
+            const articles: ScoredArticle[] = newsResult.articles.map((article, index) => {
+                const result = results[index];
+                if (result.status === 'rejected') {
+                    return {
+                        ...article,
+                        score: null,
+                        weight: 0,
+                        error: getSentimentErrorMessage(result.reason, 'Could not score this article')
+                    };
                 }
+
+                const scoredIndex = scored.findIndex(item => item.article === article);
+                return {
+                    ...article,
+                    score: result.value,
+                    weight: aggregate.weights[scoredIndex],
+                    scoredBy: result.value.fallback ? 'lexicon' : sentimentProvider
+                };
             });
 
-            if (response.data.error) {
-                throw new Error(response.data.error);
-            }
+            const fallback = scored.find(item => item.score.fallback)?.score.fallback;
 
-            if (response.data.predictions) {
-                const processedResult = processApiResponse(response.data);
-                
-                // Add news metadata to the result
-                processedResult.newsArticles = newsResult.articles;
-                processedResult.newsText = newsResult.text;
-                
-                setSentimentData(processedResult);
-                devLog('Analysis complete!');
-            } else {
-                throw new Error('No predictions received from API');
-            }
+            setSentimentData({
+                ticker: symbol,
+                sentiment: aggregate.sentiment,
+                confidence: aggregate.confidence,
+                probabilities: aggregate.probabilities,
+                model: aggregate.model || SENTIMENT_PROVIDERS[sentimentProvider].label,
+                fallbackReason: fallback && `${fallback.provider} unavailable: ${fallback.reason}`,
+                articles
+            });
+
+            // Step 3: Keep the result so sentiment can be tracked over time
+            sentimentHistory.add({
+                ticker: symbol,
+                timestamp: new Date().toISOString(),
+                sentiment: aggregate.sentiment,
+                confidence: aggregate.confidence,
+                probabilities: aggregate.probabilities,
+                model: aggregate.model || SENTIMENT_PROVIDERS[sentimentProvider].label,
+                fallback: Boolean(fallback),
+                articles: articles.flatMap(article => article.score ? [{
+                    title: article.title,
+                    url: article.url,
+                    source: article.source.name,
+                    publishedAt: article.publishedAt,
+                    sentiment: article.score.sentiment,
+                    confidence: article.score.confidence,
+                    probabilities: article.score.probabilities,
+                    weight: article.weight
+                }] : [])
+            });
+            devLog('Analysis complete!');
 
         } catch (err: unknown) {
             console.error('Error in news-based sentiment analysis:', err);
             
-            let errorMessage = 'Failed to analyze stock sentiment. Please try again.';
-
-            if (err && typeof err === 'object') {
-                if ('response' in err) {
-                    const axiosError = err as { response?: { data?: { error?: string } }; message?: string };
-                    if (axiosError.response?.data?.error) {
-                        errorMessage = axiosError.response.data.error;
-                    } else if (axiosError.message?.includes('timeout')) {
-                        errorMessage = 'Request timed out. Please try again.';
-                    } else if (axiosError.message?.includes('Network Error')) {
-                        errorMessage = 'Network error. Please check your connection and try again.';
-                    }
-                } else if ('message' in err) {
-                    const genericError = err as { message: string };
-                    errorMessage = genericError.message;
-                }
-            }
+            const errorMessage = getSentimentErrorMessage(err, 'Failed to analyze stock sentiment. Please try again.');
 
             setError(errorMessage);
         } finally {
@@ -214,6 +368,11 @@ export default function TickerDashboard() {
         return 'secondary';
     };
 
+    const narrativeInput = sentimentData ? getNarrativeInput(sentimentData) : null;
+    const drivers = sentimentData
+        ? topDrivers(sentimentData.articles.map(article => ({ attributions: getAttributions(article), weight: article.weight })))
+        : [];
+
     return (
         <div className="w-full space-y-6">
             {/* main dashboard */}
@@ -265,6 +424,10 @@ export default function TickerDashboard() {
                                 <p className="text-xs text-muted-foreground">
                                     Try searching by company name or symbol
                                 </p>
+
+                                <SentimentProviderSelect value={provider} onChange={setProvider} disabled={loading} />
+
+                                <CacheStatsIndicator />
                             </div>
 
                             <div className="flex items-center gap-2">
@@ -276,6 +439,15 @@ export default function TickerDashboard() {
                         <CardContent className="flex-1 space-y-6">
                             {sentimentData ? (
                                 <div className="space-y-6">
+                                    {sentimentData.fallbackReason && (
+                                        <Alert className="border-amber-500/40 text-amber-200">
+                                            <WifiOff className="h-4 w-4" />
+                                            <AlertDescription className="text-amber-200">
+                                                Offline fallback: scored with the built-in lexicon. {sentimentData.fallbackReason}
+                                            </AlertDescription>
+                                        </Alert>
+                                    )}
+
                                     {/* Main Sentiment Display */}
                                     <div className="text-center space-y-4">
                                         <Badge 
@@ -297,6 +469,10 @@ export default function TickerDashboard() {
                                             <p className="text-sm font-medium">
                                                 {(sentimentData.confidence * 100).toFixed(1)}%
                                             </p>
+                                            <p className="text-xs text-muted-foreground">
+                                                Model: {sentimentData.model}
+                                                {sentimentData.fallbackReason && ' (offline fallback)'}
+                                            </p>
                                         </div>
                                     </div>
 
@@ -322,18 +498,170 @@ export default function TickerDashboard() {
                                         </Card>
                                     )}
 
-                                    {/* AI Summary */}
+                                    {/* Per-article scores */}
                                     <Card className="bg-neutral-800/50 border-neutral-700">
                                         <CardHeader>
                                             <CardTitle className="text-sm flex items-center gap-2">
-                                                <Brain className="h-4 w-4 text-blue-400" />
-                                                AI Summary
+                                                <Newspaper className="h-4 w-4 text-blue-400" />
+                                                News Articles
                                             </CardTitle>
                                         </CardHeader>
+                                        <CardContent className="space-y-4">
+                                            {sentimentData.articles.map(article => (
+                                                <div key={article.url} className="space-y-2 border-b border-neutral-700 pb-3 last:border-0 last:pb-0">
+                                                    <a
+                                                        href={article.url}
+                                                        target="_blank"
+                                                        rel="noopener noreferrer"
+                                                        className="text-sm font-medium text-white hover:text-blue-300 flex items-start gap-1"
+                                                    >
+                                                        <span>{article.title}</span>
+                                                        <ExternalLink className="h-3 w-3 flex-shrink-0 mt-1 text-gray-400" />
+                                                    </a>
+                                                    <p className="text-xs text-gray-400">
+                                                        {article.source.name} · {new Date(article.publishedAt).toLocaleDateString()}
+                                                    </p>
+                                                    {article.score ? (
+                                                        <>
+                                                            <div className="flex items-center justify-between gap-2">
+                                                                <Badge
+                                                                    variant={getSentimentVariant(article.score.sentiment)}
+                                                                    className={`${getSentimentColor(article.score.sentiment)} text-white text-xs capitalize`}
+                                                                >
+                                                                    {article.score.sentiment} {(article.score.confidence * 100).toFixed(0)}%
+                                                                </Badge>
+                                                                {article.score.fallback && (
+                                                                    <span className="text-xs text-amber-300" title={article.score.fallback.reason}>
+                                                                        offline
+                                                                    </span>
+                                                                )}
+                                                                <span className="text-xs text-gray-400 ml-auto" title="Share of the overall score">
+                                                                    weight {(article.weight * 100).toFixed(0)}%
+                                                                </span>
+                                                                <span
+                                                                    className={`text-xs font-medium ${getContribution(article) >= 0 ? 'text-green-400' : 'text-red-400'}`}
+                                                                    title="Contribution to the overall net score (weight × (positive − negative))"
+                                                                >
+                                                                    {getContribution(article) >= 0 ? '+' : ''}{getContribution(article).toFixed(2)}
+                                                                </span>
+                                                            </div>
+                                                            {/* stacked probability bar */}
+                                                            <div
+                                                                className="flex h-1.5 w-full overflow-hidden rounded-full bg-neutral-700"
+                                                                title={SENTIMENT_LABELS
+                                                                    .map(label => `${label} ${(article.score!.probabilities[label] * 100).toFixed(1)}%`)
+                                                                    .join(' · ')}
+                                                            >
+                                                                {SENTIMENT_LABELS.map(label => (
+                                                                    <div
+                                                                        key={label}
+                                                                        className={LABEL_BAR_COLORS[label]}
+                                                                        style={{ width: `${article.score!.probabilities[label] * 100}%` }}
+                                                                    />
+                                                                ))}
+                                                            </div>
+                                                            {getAttributions(article) ? (
+                                                                <HighlightedText
+                                                                    text={article.text}
+                                                                    attributions={getAttributions(article)!}
+                                                                    className="text-xs text-gray-300 leading-relaxed"
+                                                                />
+                                                            ) : (
+                                                                <div className="flex items-center gap-2">
+                                                                    <Button
+                                                                        size="sm"
+                                                                        variant="outline"
+                                                                        onClick={() => explainArticle(article)}
+                                                                        disabled={explanations[article.url]?.loading}
+                                                                        className="h-7 px-3 text-xs"
+                                                                    >
+                                                                        {explanations[article.url]?.loading
+                                                                            ? <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                                                                            : <Highlighter className="mr-1 h-3 w-3" />}
+                                                                        Explain
+                                                                    </Button>
+                                                                    {explanations[article.url]?.error && (
+                                                                        <span className="text-xs text-red-400">{explanations[article.url].error}</span>
+                                                                    )}
+                                                                </div>
+                                                            )}
+                                                        </>
+                                                    ) : (
+                                                        <p className="text-xs text-red-400">{article.error}</p>
+                                                    )}
+                                                </div>
+                                            ))}
+                                        </CardContent>
+                                    </Card>
+
+                                    {/* AI Summary */}
+                                    <Card className="bg-neutral-800/50 border-neutral-700">
+                                        <CardHeader>
+                                            <div className="flex items-center justify-between gap-2">
+                                                <CardTitle className="text-sm flex items-center gap-2">
+                                                    <Brain className="h-4 w-4 text-blue-400" />
+                                                    AI Summary
+                                                </CardTitle>
+                                                <div className="flex gap-1">
+                                                    {(Object.keys(NARRATIVE_GENERATORS) as NarrativeGeneratorId[]).map(id => (
+                                                        <Button
+                                                            key={id}
+                                                            size="sm"
+                                                            variant={narrator === id ? 'default' : 'outline'}
+                                                            onClick={() => selectNarrator(id, narrativeInput!)}
+                                                            className="h-7 px-3 text-xs"
+                                                        >
+                                                            {id === 'llm' && <Sparkles className="mr-1 h-3 w-3" />}
+                                                            {NARRATIVE_GENERATORS[id].label}
+                                                        </Button>
+                                                    ))}
+                                                </div>
+                                            </div>
+                                        </CardHeader>
                                         <CardContent>
-                                            <p className="text-sm text-muted-foreground leading-relaxed">
-                                                {sentimentData.summary}
-                                            </p>
+                                            {narrator === 'llm' && generatedNarrative?.loading ? (
+                                                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                                    Writing summary...
+                                                </div>
+                                            ) : (
+                                                <p className="text-sm text-muted-foreground leading-relaxed">
+                                                    {narrator === 'llm' && generatedNarrative?.text
+                                                        ? generatedNarrative.text
+                                                        : narrativeSentences(narrativeInput!).join(' ')}
+                                                </p>
+                                            )}
+                                            {narrator === 'llm' && generatedNarrative?.error && (
+                                                <p className="mt-2 text-xs text-red-400">{generatedNarrative.error}. Showing the template summary.</p>
+                                            )}
+                                            {narrator === 'llm' && generatedNarrative && !generatedNarrative.loading
+                                                && generatedNarrative.inputKey !== JSON.stringify(narrativeInput) && (
+                                                <Button
+                                                    size="sm"
+                                                    variant="outline"
+                                                    onClick={() => generateNarrative(narrativeInput!)}
+                                                    className="mt-2 h-7 px-3 text-xs"
+                                                >
+                                                    More figures have loaded, regenerate
+                                                </Button>
+                                            )}
+                                            {drivers.length > 0 && (
+                                                <div className="mt-4 space-y-2">
+                                                    <p className="text-xs font-medium text-gray-300">Key phrases</p>
+                                                    <div className="flex flex-wrap gap-2">
+                                                        {drivers.map((driver, index) => (
+                                                            <Badge
+                                                                key={index}
+                                                                variant="outline"
+                                                                className={`text-xs ${driver.weight >= 0 ? 'border-green-600 text-green-300' : 'border-red-600 text-red-300'}`}
+                                                                title={`${driver.weight >= 0 ? '+' : ''}${driver.weight.toFixed(3)} of the net score`}
+                                                            >
+                                                                {driver.text}
+                                                            </Badge>
+                                                        ))}
+                                                    </div>
+                                                </div>
+                                            )}
                                         </CardContent>
                                     </Card>
                                 </div>
@@ -358,10 +686,26 @@ export default function TickerDashboard() {
                 <div className="lg:col-span-3 order-2">
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         {/* chart components */}
-                        <EarningsChart ticker={ticker} shouldFetch={shouldFetchResults} />
-                        <DividendsChart ticker={ticker} shouldFetch={shouldFetchResults} />
-                        <CashFlowChart ticker={ticker} shouldFetch={shouldFetchResults} />
-                        <IncomeStatementChart ticker={ticker} shouldFetch={shouldFetchResults} />
+                        <div className="md:col-span-2">
+                            <CompanyOverviewCard ticker={ticker} shouldFetch={shouldFetchResults} />
+                        </div>
+                        <div className="md:col-span-2">
+                            <PriceChart ticker={ticker} shouldFetch={shouldFetchResults} />
+                        </div>
+                        <EarningsChart ticker={ticker} shouldFetch={shouldFetchResults} onMetrics={handleMetrics} />
+                        <DividendsChart ticker={ticker} shouldFetch={shouldFetchResults} onMetrics={handleMetrics} />
+                        <CashFlowChart ticker={ticker} shouldFetch={shouldFetchResults} onMetrics={handleMetrics} />
+                        <IncomeStatementChart ticker={ticker} shouldFetch={shouldFetchResults} onMetrics={handleMetrics} />
+                        <BalanceSheetChart ticker={ticker} shouldFetch={shouldFetchResults} />
+                        <RatioChart ticker={ticker} shouldFetch={shouldFetchResults} />
+                        <div className="md:col-span-2">
+                            <DcfCalculator ticker={ticker} shouldFetch={shouldFetchResults} />
+                        </div>
+                        <SentimentHistoryChart ticker={ticker} shouldFetch={shouldFetchResults} />
+                        <SentimentCorrelationChart ticker={ticker} shouldFetch={shouldFetchResults} />
+                        <div className="md:col-span-2">
+                            <ComparisonChart ticker={ticker} shouldFetch={shouldFetchResults} />
+                        </div>
                     </div>
                 </div>
             </div>
@@ -1,12 +1,14 @@
 'use client';
 
 import { useState, useEffect, useRef } from 'react';
-import axios from 'axios';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Loader2, Search, TrendingUp } from 'lucide-react';
+import { Loader2, Search, TrendingUp, Clock } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { fetchMarketData } from '../utils/marketApi';
+import { MarketApiError } from '../utils/alphaVantage';
+import AddToWatchlistSelect from './AddToWatchlistSelect';
 
 interface SearchResult {
     '1. symbol': string;
@@ -40,6 +42,7 @@ export default function TickerSearchInput({
     const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
     const [showSuggestions, setShowSuggestions] = useState(false);
     const [isSearching, setIsSearching] = useState(false);
+    const [rateLimitMessage, setRateLimitMessage] = useState<string>('');
     const [searchTimeout, setSearchTimeout] = useState<NodeJS.Timeout | null>(null);
     const inputRef = useRef<HTMLInputElement>(null);
     const suggestionsRef = useRef<HTMLDivElement>(null);
@@ -52,38 +55,13 @@ export default function TickerSearchInput({
         }
 
         setIsSearching(true);
+        setRateLimitMessage('');
 
         try {
-            const API_KEY = process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY;
+            // autocomplete only gets budget the charts don't need
+            const response = await fetchMarketData('SYMBOL_SEARCH', { keywords: query }, { priority: 'autocomplete' });
 
-            if (!API_KEY) {
-                setSearchResults([]);
-                setShowSuggestions(false);
-                setIsSearching(false);
-                return;
-            }
-
-            const url = `https://www.alphavantage.co/query?function=SYMBOL_SEARCH&keywords=${encodeURIComponent(query)}&apikey=${API_KEY}`;
-
-            const response = await axios.get(url);
-
-            if (response.data['Error Message']) {
-                // API error
-                setSearchResults([]);
-                setShowSuggestions(false);
-                setIsSearching(false);
-                return;
-            }
-
-            if (response.data['Note']) {
-                // Rate limit - don't show suggestions
-                setSearchResults([]);
-                setShowSuggestions(false);
-                setIsSearching(false);
-                return;
-            }
-
-            const results = response.data.bestMatches || [];
+            const results = response.bestMatches || [];
 
             const filteredResults = results
                 .filter((result: SearchResult) =>
@@ -100,7 +78,15 @@ export default function TickerSearchInput({
 
         } catch (error) {
             setSearchResults([]);
-            setShowSuggestions(false);
+
+            if (error instanceof MarketApiError && error.code === 'RATE_LIMITED') {
+                // tell the user why suggestions stopped instead of hiding them
+                setRateLimitMessage(error.message);
+                setShowSuggestions(true);
+            } else {
+                // invalid query - don't show suggestions
+                setShowSuggestions(false);
+            }
         } finally {
             setIsSearching(false);
         }
@@ -126,6 +112,7 @@ export default function TickerSearchInput({
         } else {
             setSearchResults([]);
             setShowSuggestions(false);
+            setRateLimitMessage('');
         }
     };
 
@@ -240,7 +227,7 @@ export default function TickerSearchInput({
                                 onClick={() => handleSuggestionClick(result)}
                                 className="px-4 py-3 hover:bg-neutral-700/50 cursor-pointer border-b border-neutral-700 last:border-b-0 transition-colors will-change-auto"
                             >
-                                <div className="flex items-center justify-between">
+                                <div className="flex items-center justify-between gap-3">
                                     <div className="flex-1 min-w-0">
                                         <div className="flex items-center gap-3">
                                             <Badge variant="secondary" className="font-mono text-blue-400 bg-blue-500/20">
@@ -258,6 +245,7 @@ export default function TickerSearchInput({
                                             </Badge>
                                         </div>
                                     </div>
+                                    <AddToWatchlistSelect ticker={result['1. symbol']} />
                                 </div>
                             </div>
                         ))}
@@ -270,8 +258,23 @@ export default function TickerSearchInput({
                 </Card>
             )}
 
+            {/* rate limit message - suggestions paused until budget frees up */}
+            {showSuggestions && rateLimitMessage && !isSearching && (
+                <div className="absolute z-50 w-full mt-1 bg-neutral-800 border border-amber-500/40 rounded-lg shadow-lg">
+                    <div className="px-4 py-3 text-amber-300 text-center text-sm flex flex-col items-center gap-1">
+                        <div className="flex items-center gap-2">
+                            <Clock className="h-4 w-4" />
+                            Suggestions paused: {rateLimitMessage}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                            Press Enter to search anyway
+                        </div>
+                    </div>
+                </div>
+            )}
+
             {/* no results message - only show if API is working but no matches found */}
-            {showSuggestions && searchResults.length === 0 && !isSearching && value.length >= 3 && process.env.NEXT_PUBLIC_ALPHA_VANTAGE_API_KEY && (
+            {showSuggestions && searchResults.length === 0 && !rateLimitMessage && !isSearching && value.length >= 3 && (
                 <div className="absolute z-50 w-full mt-1 bg-neutral-800 border border-gray-600 rounded-lg shadow-lg">
                     <div className="px-4 py-3 text-gray-400 text-center">
                         No matching stocks found for "{value}"
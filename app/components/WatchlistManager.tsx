@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Loader2, Plus, RefreshCw, Star } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import WatchlistTable from './WatchlistTable';
+import { fetchMarketData } from '../utils/marketApi';
+import { MarketApiError } from '../utils/alphaVantage';
+import { marketScheduler } from '../utils/requestScheduler';
+import { parseGlobalQuote, parseOverview } from '../utils/fundamentals';
+import { SentimentHistoryEntry, sentimentHistory } from '../utils/sentimentHistory';
+import { peerIndex } from '../utils/peers';
+import { TickerSnapshot, Watchlist, loadSnapshots, saveSnapshots, watchlists } from '../utils/watchlists';
+
+// how often the page looks for stale rows, and when a row counts as stale
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const QUOTE_MAX_AGE_MS = 15 * 60 * 1000;
+const OVERVIEW_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// calls left for the dashboard; background refresh stops here
+const QUOTA_RESERVE = 5;
+// a failing ticker waits 15 minutes, then twice as long after each further failure, up to a day
+const MAX_FAILURE_BACKOFF_MS = 24 * 60 * 60 * 1000;
+
+const isFresh = (updatedAt: number | undefined, maxAge: number) => updatedAt !== undefined && Date.now() - updatedAt < maxAge;
+
+/**
+ * Whether a background refresh should try this row again; only forced
+ * refreshes retry a failing ticker before its backoff is over
+ */
+const isDue = (snapshot: TickerSnapshot | undefined) => {
+    if (snapshot?.failures) {
+        const backoff = Math.min(QUOTE_MAX_AGE_MS * Math.pow(2, snapshot.failures - 1), MAX_FAILURE_BACKOFF_MS);
+        return !isFresh(snapshot.lastAttemptAt, backoff);
+    }
+    return !isFresh(snapshot?.quoteUpdatedAt, QUOTE_MAX_AGE_MS);
+};
+
+const uniqueTickers = (lists: Watchlist[]) => Array.from(new Set(lists.flatMap(list => list.tickers)));
+
+const hasBudget = () => marketScheduler.getStatus().remainingToday > QUOTA_RESERVE;
+
+export default function WatchlistManager() {
+    const [lists, setLists] = useState<Watchlist[]>([]);
+    const [snapshots, setSnapshots] = useState<Record<string, TickerSnapshot>>({});
+    const [sentiments, setSentiments] = useState<Record<string, SentimentHistoryEntry | undefined>>({});
+    const [newListName, setNewListName] = useState<string>('');
+    const [refreshing, setRefreshing] = useState<boolean>(false);
+    const [notice, setNotice] = useState<string>('');
+    const [serverSync, setServerSync] = useState<boolean>(false);
+    // the refresh loop outlives renders, so it works on refs
+    const snapshotsRef = useRef<Record<string, TickerSnapshot>>({});
+    const refreshingRef = useRef<boolean>(false);
+
+    // read storage after mount, localStorage isn't available during SSR
+    useEffect(() => {
+        setLists(watchlists.getLists());
+        snapshotsRef.current = loadSnapshots();
+        setSnapshots(snapshotsRef.current);
+        watchlists.sync().then(setServerSync);
+        return watchlists.subscribe(setLists);
+    }, []);
+
+    const tickerKey = uniqueTickers(lists).join(',');
+
+    // latest dashboard analysis per ticker
+    useEffect(() => {
+        const readSentiments = () => {
+            setSentiments(Object.fromEntries(
+                uniqueTickers(lists).map(ticker => [ticker, sentimentHistory.getEntries(ticker).slice(-1)[0]])
+            ));
+        };
+
+        readSentiments();
+        return sentimentHistory.subscribe(readSentiments);
+    }, [lists]);
+
+    /**
+     * Refresh stale rows, stalest first, at background priority so anything
+     * on screen elsewhere goes first. Stops before eating the last few calls of the day.
+     */
+    const refresh = async (force: boolean) => {
+        if (refreshingRef.current) return;
+
+        refreshingRef.current = true;
+        setRefreshing(true);
+        setNotice('');
+
+        const current = { ...snapshotsRef.current };
+        const commit = () => {
+            snapshotsRef.current = current;
+            setSnapshots({ ...current });
+            saveSnapshots(current);
+        };
+
+        const due = uniqueTickers(watchlists.getLists())
+            .filter(ticker => force || isDue(current[ticker]))
+            .sort((a, b) => (current[a]?.lastAttemptAt ?? 0) - (current[b]?.lastAttemptAt ?? 0));
+
+        try {
+            for (const [index, ticker] of due.entries()) {
+                if (!hasBudget()) {
+                    setNotice(`Paused to keep the last ${QUOTA_RESERVE} API calls of the day for the dashboard; ${due.length - index} ticker${due.length - index === 1 ? '' : 's'} not refreshed.`);
+                    break;
+                }
+
+                const snapshot: TickerSnapshot = { ...current[ticker], error: undefined, lastAttemptAt: Date.now() };
+
+                try {
+                    const quote = parseGlobalQuote(await fetchMarketData('GLOBAL_QUOTE', { symbol: ticker }, { priority: 'background' }));
+                    if (!quote) throw new Error('No quote for this ticker');
+
+                    snapshot.quote = quote;
+                    snapshot.quoteUpdatedAt = Date.now();
+                    snapshot.failures = undefined;
+
+                    // fundamentals only change with filings, so daily is plenty
+                    if (!isFresh(snapshot.overviewUpdatedAt, OVERVIEW_MAX_AGE_MS) && hasBudget()) {
+                        snapshot.overview = parseOverview(await fetchMarketData('OVERVIEW', { symbol: ticker }, { priority: 'background' })) ?? undefined;
+                        snapshot.overviewUpdatedAt = Date.now();
+                        // every overview fetched widens the comparison peer pool
+                        if (snapshot.overview) peerIndex.record(snapshot.overview);
+                    }
+                } catch (err: any) {
+                    snapshot.error = err.message || 'Failed to refresh';
+
+                    // running out of calls says nothing about the ticker, so it doesn't count toward backing off
+                    if (err instanceof MarketApiError && err.code === 'RATE_LIMITED') {
+                        current[ticker] = snapshot;
+                        commit();
+                        setNotice(err.message);
+                        break;
+                    }
+
+                    snapshot.failures = (snapshot.failures ?? 0) + 1;
+                }
+
+                current[ticker] = snapshot;
+                commit();
+            }
+        } finally {
+            refreshingRef.current = false;
+            setRefreshing(false);
+        }
+    };
+
+    // refresh on load and whenever tickers change, then keep stale rows topped up
+    useEffect(() => {
+        if (!tickerKey) return;
+
+        refresh(false);
+        const interval = setInterval(() => refresh(false), REFRESH_INTERVAL_MS);
+        return () => clearInterval(interval);
+    }, [tickerKey]);
+
+    const createList = () => {
+        watchlists.create(newListName || `Watchlist ${lists.length + 1}`);
+        setNewListName('');
+    };
+
+    return (
+        <div className="space-y-6">
+            <FloatingCard hoverEffect={false}>
+                <CardHeader>
+                    <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2">
+                            <Star className="h-5 w-5 text-blue-400" />
+                            <CardTitle className="text-lg font-bold text-white">Watchlists</CardTitle>
+                        </div>
+                        <Badge variant="outline" className="text-xs text-gray-300">
+                            {serverSync ? 'Synced to server' : 'Stored in this browser'}
+                        </Badge>
+                    </div>
+                    <CardDescription className="text-gray-300">
+                        Prices and fundamentals refresh in the background within the Alpha Vantage quota; sentiment is the latest dashboard analysis
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <Input
+                            value={newListName}
+                            onChange={(e) => setNewListName(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && createList()}
+                            placeholder="New watchlist name"
+                            className="h-9 w-64 bg-neutral-800/50 border-neutral-600"
+                        />
+                        <Button onClick={createList} className="bg-blue-600 hover:bg-blue-700">
+                            <Plus className="mr-2 h-4 w-4" />
+                            Create
+                        </Button>
+                        <Button
+                            variant="outline"
+                            onClick={() => refresh(true)}
+                            disabled={refreshing || !tickerKey}
+                            className="ml-auto"
+                        >
+                            {refreshing
+                                ? <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                : <RefreshCw className="mr-2 h-4 w-4" />}
+                            {refreshing ? 'Refreshing...' : 'Refresh now'}
+                        </Button>
+                    </div>
+
+                    {notice && (
+                        <Alert>
+                            <AlertDescription>{notice}</AlertDescription>
+                        </Alert>
+                    )}
+
+                    {lists.length === 0 && (
+                        <p className="text-sm text-muted-foreground">
+                            No watchlists yet. Create one here, or add a ticker from the dashboard search suggestions.
+                        </p>
+                    )}
+                </CardContent>
+            </FloatingCard>
+
+            {lists.map(list => (
+                <WatchlistTable key={list.id} watchlist={list} snapshots={snapshots} sentiments={sentiments} />
+            ))}
+        </div>
+    );
+}
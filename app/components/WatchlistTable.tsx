@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { Check, Pencil, Plus, Star, Trash2, X } from 'lucide-react';
+import FloatingCard from './ui/floating-card';
+import { TickerSnapshot, Watchlist, watchlists } from '../utils/watchlists';
+import { SentimentHistoryEntry } from '../utils/sentimentHistory';
+import { dashboardPath } from '../utils/urlState';
+
+interface WatchlistTableProps {
+    watchlist: Watchlist;
+    snapshots: Record<string, TickerSnapshot>;
+    /** Latest saved dashboard analysis per ticker */
+    sentiments: Record<string, SentimentHistoryEntry | undefined>;
+}
+
+const LABEL_TEXT_COLORS: Record<string, string> = {
+    positive: 'text-green-400',
+    neutral: 'text-yellow-400',
+    negative: 'text-red-400'
+};
+
+const formatSigned = (value: number, digits = 2) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const formatPercent = (value: number | null | undefined, signed = false) =>
+    value === null || value === undefined ? '—' : `${signed ? formatSigned(value, 1) : value.toFixed(2)}%`;
+
+export default function WatchlistTable({ watchlist, snapshots, sentiments }: WatchlistTableProps) {
+    const [newTicker, setNewTicker] = useState<string>('');
+    const [editingName, setEditingName] = useState<string | null>(null);
+
+    const addTicker = () => {
+        if (!newTicker.trim()) return;
+        watchlists.addTicker(watchlist.id, newTicker);
+        setNewTicker('');
+    };
+
+    const saveName = () => {
+        if (editingName !== null) {
+            watchlists.rename(watchlist.id, editingName);
+        }
+        setEditingName(null);
+    };
+
+    return (
+        <FloatingCard hoverEffect={false}>
+            <CardHeader>
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                    {editingName === null ? (
+                        <div className="flex items-center gap-2">
+                            <Star className="h-5 w-5 text-blue-400" />
+                            <CardTitle className="text-lg font-bold text-white">{watchlist.name}</CardTitle>
+                            <Badge variant="outline" className="text-xs text-gray-300">
+                                {watchlist.tickers.length} ticker{watchlist.tickers.length === 1 ? '' : 's'}
+                            </Badge>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setEditingName(watchlist.name)}
+                                className="h-7 px-2 text-gray-400 hover:text-white"
+                                title="Rename"
+                            >
+                                <Pencil className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="flex items-center gap-2">
+                            <Input
+                                value={editingName}
+                                onChange={(e) => setEditingName(e.target.value)}
+                                onKeyDown={(e) => {
+                                    if (e.key === 'Enter') saveName();
+                                    if (e.key === 'Escape') setEditingName(null);
+                                }}
+                                className="h-8 w-56 bg-neutral-800/50 border-neutral-600"
+                                autoFocus
+                            />
+                            <Button size="sm" variant="ghost" onClick={saveName} className="h-7 px-2" title="Save">
+                                <Check className="h-3 w-3" />
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setEditingName(null)} className="h-7 px-2" title="Cancel">
+                                <X className="h-3 w-3" />
+                            </Button>
+                        </div>
+                    )}
+
+                    <div className="flex items-center gap-2">
+                        <Input
+                            value={newTicker}
+                            onChange={(e) => setNewTicker(e.target.value.toUpperCase())}
+                            onKeyDown={(e) => e.key === 'Enter' && addTicker()}
+                            placeholder="Add ticker"
+                            className="h-8 w-32 bg-neutral-800/50 border-neutral-600 text-sm"
+                        />
+                        <Button size="sm" variant="outline" onClick={addTicker} disabled={!newTicker.trim()} className="h-7 px-3 text-xs">
+                            <Plus className="mr-1 h-3 w-3" />
+                            Add
+                        </Button>
+                        <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => watchlists.remove(watchlist.id)}
+                            className="h-7 px-2 text-gray-400 hover:text-red-400"
+                            title="Delete watchlist"
+                        >
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {watchlist.tickers.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        No tickers yet. Add one above or from the dashboard search suggestions.
+                    </p>
+                ) : (
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="border-b border-neutral-700 text-left text-xs text-gray-400">
+                                    <th className="px-3 py-2 font-medium">Ticker</th>
+                                    <th className="px-3 py-2 font-medium text-right">Last</th>
+                                    <th className="px-3 py-2 font-medium text-right">Day change</th>
+                                    <th className="px-3 py-2 font-medium">Sentiment</th>
+                                    <th className="px-3 py-2 font-medium text-right" title="Latest quarter vs. a year earlier">EPS growth</th>
+                                    <th className="px-3 py-2 font-medium text-right">Div. yield</th>
+                                    <th className="px-3 py-2 font-medium text-right">Updated</th>
+                                    <th className="px-3 py-2 w-10" />
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {watchlist.tickers.map(ticker => {
+                                    const snapshot = snapshots[ticker];
+                                    const quote = snapshot?.quote;
+                                    const overview = snapshot?.overview;
+                                    const sentiment = sentiments[ticker];
+
+                                    return (
+                                        <tr key={ticker} className="border-b border-neutral-800">
+                                            <td className="px-3 py-2">
+                                                <Link href={dashboardPath(ticker)} className="font-mono font-medium text-blue-300 hover:text-blue-200">
+                                                    {ticker}
+                                                </Link>
+                                                {overview?.name && (
+                                                    <p className="text-xs text-gray-500 truncate max-w-[12rem]">{overview.name}</p>
+                                                )}
+                                            </td>
+                                            <td className="px-3 py-2 text-right text-white">
+                                                {quote ? `$${quote.price.toFixed(2)}` : '—'}
+                                            </td>
+                                            <td className={cn(
+                                                'px-3 py-2 text-right',
+                                                quote ? (quote.change >= 0 ? 'text-green-400' : 'text-red-400') : 'text-gray-500'
+                                            )}>
+                                                {quote ? `${formatSigned(quote.change)} (${formatPercent(quote.changePercent, true)})` : '—'}
+                                            </td>
+                                            <td className="px-3 py-2">
+                                                {sentiment ? (
+                                                    <span
+                                                        className={cn('capitalize', LABEL_TEXT_COLORS[sentiment.sentiment])}
+                                                        title={`Analyzed ${new Date(sentiment.timestamp).toLocaleString()} with ${sentiment.model}`}
+                                                    >
+                                                        {sentiment.sentiment} {(sentiment.confidence * 100).toFixed(0)}%
+                                                    </span>
+                                                ) : (
+                                                    <span className="text-xs text-gray-500">not analyzed</span>
+                                                )}
+                                            </td>
+                                            <td className={cn(
+                                                'px-3 py-2 text-right',
+                                                overview?.epsGrowth == null ? 'text-gray-500' : overview.epsGrowth >= 0 ? 'text-green-400' : 'text-red-400'
+                                            )}>
+                                                {formatPercent(overview?.epsGrowth, true)}
+                                            </td>
+                                            <td className="px-3 py-2 text-right text-gray-300">
+                                                {formatPercent(overview?.dividendYield)}
+                                            </td>
+                                            <td className="px-3 py-2 text-right text-xs text-gray-500">
+                                                {snapshot?.error ? (
+                                                    <span className="text-red-400" title={snapshot.error}>failed</span>
+                                                ) : snapshot?.quoteUpdatedAt ? (
+                                                    new Date(snapshot.quoteUpdatedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+                                                ) : 'pending'}
+                                            </td>
+                                            <td className="px-3 py-2 text-right">
+                                                <Button
+                                                    size="sm"
+                                                    variant="ghost"
+                                                    onClick={() => watchlists.removeTicker(watchlist.id, ticker)}
+                                                    className="h-7 px-2 text-gray-500 hover:text-red-400"
+                                                    title={`Remove ${ticker}`}
+                                                >
+                                                    <X className="h-3 w-3" />
+                                                </Button>
+                                            </td>
+                                        </tr>
+                                    );
+                                })}
+                            </tbody>
+                        </table>
+                    </div>
+                )}
+            </CardContent>
+        </FloatingCard>
+    );
+}
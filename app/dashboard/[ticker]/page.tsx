@@ -0,0 +1,36 @@
+import { Suspense } from 'react';
+import type { Metadata } from 'next';
+import TickerDashboard from '../../components/TickerDashboard';
+import Navigation from '../../components/Navigation';
+
+interface TickerDashboardPageProps {
+    params: Promise<{ ticker: string }>;
+}
+
+export async function generateMetadata({ params }: TickerDashboardPageProps): Promise<Metadata> {
+    const { ticker } = await params;
+    return { title: `${decodeURIComponent(ticker).toUpperCase()} - Market Maker` };
+}
+
+export default async function TickerDashboardPage({ params }: TickerDashboardPageProps) {
+    const ticker = decodeURIComponent((await params).ticker).toUpperCase();
+
+    return (
+        <div className="min-h-screen flex flex-col bg-neutral-900">
+            <Navigation />
+            <div className="flex-1 p-4">
+                <div className="max-w-[95%] mx-auto w-full flex flex-col">
+                    <h1 className="text-3xl font-bold mb-4 text-center text-white flex-shrink-0">
+                        Financial Dashboard
+                    </h1>
+                    <div className="flex-1">
+                        {/* keyed so moving between tickers starts from a clean dashboard */}
+                        <Suspense>
+                            <TickerDashboard key={ticker} initialTicker={ticker} />
+                        </Suspense>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,3 +1,4 @@
+import { Suspense } from 'react';
 import TickerDashboard from '../components/TickerDashboard';
 import Navigation from '../components/Navigation';
 
@@ -11,7 +12,10 @@ export default function DashboardPage() {
                         Financial Dashboard
                     </h1>
                     <div className="flex-1">
-                        <TickerDashboard />
+                        {/* card settings are read from the query string */}
+                        <Suspense>
+                            <TickerDashboard />
+                        </Suspense>
                     </div>
                 </div>
             </div>
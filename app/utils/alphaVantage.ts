@@ -0,0 +1,117 @@
+import { CachePolicy, DAY, HOUR, MINUTE } from './responseCache';
+
+interface AlphaVantageFunctionConfig {
+  required: string[];
+  optional: string[];
+  cache: CachePolicy;
+}
+
+// fundamentals only change when a company files, so they can be held for days
+const FUNDAMENTALS_CACHE: CachePolicy = { ttl: 3 * DAY, staleWhileRevalidate: 7 * DAY };
+const PRICE_HISTORY_CACHE: CachePolicy = { ttl: DAY, staleWhileRevalidate: 3 * DAY };
+const SYMBOL_SEARCH_CACHE: CachePolicy = { ttl: 7 * DAY, staleWhileRevalidate: 30 * DAY };
+// quotes move during the session; a few minutes old is fine for a watchlist
+const QUOTE_CACHE: CachePolicy = { ttl: 5 * MINUTE, staleWhileRevalidate: HOUR };
+
+/**
+ * Alpha Vantage functions the market proxy route is allowed to forward,
+ * with the query parameters each one accepts and how long responses are cached
+ */
+export const ALPHA_VANTAGE_FUNCTIONS = {
+  EARNINGS: { required: ['symbol'], optional: [], cache: FUNDAMENTALS_CACHE },
+  INCOME_STATEMENT: { required: ['symbol'], optional: [], cache: FUNDAMENTALS_CACHE },
+  CASH_FLOW: { required: ['symbol'], optional: [], cache: FUNDAMENTALS_CACHE },
+  BALANCE_SHEET: { required: ['symbol'], optional: [], cache: FUNDAMENTALS_CACHE },
+  OVERVIEW: { required: ['symbol'], optional: [], cache: FUNDAMENTALS_CACHE },
+  GLOBAL_QUOTE: { required: ['symbol'], optional: [], cache: QUOTE_CACHE },
+  TIME_SERIES_DAILY: { required: ['symbol'], optional: ['outputsize'], cache: PRICE_HISTORY_CACHE },
+  TIME_SERIES_MONTHLY_ADJUSTED: { required: ['symbol'], optional: [], cache: PRICE_HISTORY_CACHE },
+  SYMBOL_SEARCH: { required: ['keywords'], optional: [], cache: SYMBOL_SEARCH_CACHE }
+} satisfies Record<string, AlphaVantageFunctionConfig>;
+
+export type AlphaVantageFunction = keyof typeof ALPHA_VANTAGE_FUNCTIONS;
+
+export type MarketErrorCode =
+  | 'UNSUPPORTED_FUNCTION'
+  | 'MISSING_PARAMETER'
+  | 'NOT_CONFIGURED'
+  | 'INVALID_REQUEST'
+  | 'RATE_LIMITED'
+  | 'PREMIUM_ONLY'
+  | 'UPSTREAM_ERROR';
+
+export interface MarketErrorBody {
+  error: string;
+  code: MarketErrorCode;
+}
+
+export const MARKET_ERROR_STATUS: Record<MarketErrorCode, number> = {
+  UNSUPPORTED_FUNCTION: 404,
+  MISSING_PARAMETER: 400,
+  NOT_CONFIGURED: 500,
+  INVALID_REQUEST: 400,
+  RATE_LIMITED: 429,
+  PREMIUM_ONLY: 403,
+  UPSTREAM_ERROR: 502
+};
+
+/**
+ * Error raised for any failed market data request, carrying the
+ * normalized code from the proxy route
+ */
+export class MarketApiError extends Error {
+  code: MarketErrorCode;
+  status: number;
+
+  constructor(message: string, code: MarketErrorCode, status: number) {
+    super(message);
+    this.name = 'MarketApiError';
+    this.code = code;
+    this.status = status;
+  }
+}
+
+export function isAlphaVantageFunction(value: string): value is AlphaVantageFunction {
+  return Object.prototype.hasOwnProperty.call(ALPHA_VANTAGE_FUNCTIONS, value);
+}
+
+/**
+ * Alpha Vantage answers most failures with HTTP 200 and one of
+ * `Error Message`, `Note` or `Information` in the body.
+ * Map those onto a typed error so callers don't have to sniff payloads.
+ */
+export function detectAlphaVantageError(payload: any): MarketErrorBody | null {
+  if (!payload || typeof payload !== 'object') {
+    return { error: 'Empty response from Alpha Vantage', code: 'UPSTREAM_ERROR' };
+  }
+
+  if (payload['Error Message']) {
+    return { error: payload['Error Message'], code: 'INVALID_REQUEST' };
+  }
+
+  // "Note" is the classic per-minute throttle message
+  if (payload['Note']) {
+    return { error: payload['Note'], code: 'RATE_LIMITED' };
+  }
+
+  // "Information" covers both the daily cap and premium-only endpoints
+  if (payload['Information']) {
+    const message: string = payload['Information'];
+    const isRateLimit = /rate limit|requests per day|call frequency/i.test(message);
+    return { error: message, code: isRateLimit ? 'RATE_LIMITED' : 'PREMIUM_ONLY' };
+  }
+
+  return null;
+}
+
+/**
+ * Stable cache key for a function call, independent of parameter order and ticker case
+ */
+export function getMarketCacheKey(functionName: AlphaVantageFunction, params: Record<string, string>): string {
+  const normalized = Object.keys(params)
+    .sort()
+    .map(name => `${name}=${params[name].trim().toUpperCase()}`)
+    .join('&');
+
+  return `${functionName}?${normalized}`;
+}
@@ -0,0 +1,132 @@
+import { AnnualFundamentals, AnnualSource } from './fundamentals';
+
+/**
+ * Overlaying several tickers' fundamentals on one axis: which figures can be
+ * compared, how they're normalized, and the side-by-side summary.
+ */
+
+export type ComparisonMetric = 'revenue' | 'netIncome' | 'eps' | 'freeCashFlow' | 'dividendPerShare';
+
+export type NormalizationMode = 'absolute' | 'indexed' | 'perShare';
+
+/** `sources` are the statements a metric needs besides the income statement */
+export const COMPARISON_METRICS: Record<ComparisonMetric, { label: string; isPerShare: boolean; sources: AnnualSource[] }> = {
+  revenue: { label: 'Revenue', isPerShare: false, sources: [] },
+  netIncome: { label: 'Net Income', isPerShare: false, sources: [] },
+  eps: { label: 'EPS', isPerShare: true, sources: ['earnings'] },
+  freeCashFlow: { label: 'Free Cash Flow', isPerShare: false, sources: ['cashFlow'] },
+  dividendPerShare: { label: 'Dividends / Share', isPerShare: true, sources: ['monthlyAdjusted'] }
+};
+
+export const COMPARISON_METRIC_IDS = Object.keys(COMPARISON_METRICS) as ComparisonMetric[];
+
+export const NORMALIZATION_MODES: NormalizationMode[] = ['absolute', 'indexed', 'perShare'];
+
+/**
+ * Sources to load for a metric; dividing totals per share also needs the share count
+ */
+export function metricSources(metric: ComparisonMetric, mode: NormalizationMode): AnnualSource[] {
+  const { isPerShare, sources } = COMPARISON_METRICS[metric];
+  return mode === 'perShare' && !isPerShare ? [...sources, 'balanceSheet'] : sources;
+}
+
+/** The dashboard ticker plus up to four others */
+export const MAX_COMPARE_TICKERS = 5;
+
+// fiscal years shown on the shared axis
+const MAX_YEARS = 10;
+
+/**
+ * Fiscal years present for any ticker, oldest first, limited to the latest ten
+ */
+export function comparisonYears(datasets: AnnualFundamentals[][]): string[] {
+  const years = new Set(datasets.flatMap(rows => rows.map(row => row.year)));
+  return Array.from(years).sort().slice(-MAX_YEARS);
+}
+
+/**
+ * One ticker's values for a metric on the shared year axis.
+ * `indexed` rebases to 100 at the ticker's first positive value in the window;
+ * `perShare` divides totals by that year's shares outstanding (per-share
+ * metrics are left as they are).
+ */
+export function normalizeSeries(
+  rows: AnnualFundamentals[],
+  metric: ComparisonMetric,
+  mode: NormalizationMode,
+  years: string[]
+): Array<number | null> {
+  const byYear = new Map(rows.map(row => [row.year, row]));
+
+  const values = years.map(year => {
+    const row = byYear.get(year);
+    const value = row?.[metric] ?? null;
+    if (value === null || mode !== 'perShare' || COMPARISON_METRICS[metric].isPerShare) return value;
+
+    const shares = row?.sharesOutstanding;
+    return shares ? value / shares : null;
+  });
+
+  if (mode !== 'indexed') return values;
+
+  // a negative or zero base can't be indexed meaningfully
+  const base = values.find((value): value is number => value !== null && value > 0);
+  return base === undefined ? values.map(() => null) : values.map(value => value === null ? null : (value / base) * 100);
+}
+
+/**
+ * Compound annual growth rate between two positive values, %
+ */
+export function cagr(first: number | null, last: number | null, years: number): number | null {
+  if (first === null || last === null || first <= 0 || last <= 0 || years <= 0) return null;
+  return (Math.pow(last / first, 1 / years) - 1) * 100;
+}
+
+const growth = (current: number | null, previous: number | null) =>
+  current === null || previous === null || previous === 0 ? null : ((current - previous) / Math.abs(previous)) * 100;
+
+const ratio = (numerator: number | null, denominator: number | null) =>
+  numerator === null || denominator === null || denominator === 0 ? null : (numerator / denominator) * 100;
+
+export interface ComparisonSummary {
+  year: string;
+  revenue: number | null;
+  revenueGrowth: number | null;
+  /** Revenue CAGR over up to five years, % */
+  revenueCagr: number | null;
+  netMargin: number | null;
+  eps: number | null;
+  epsGrowth: number | null;
+  freeCashFlow: number | null;
+  fcfMargin: number | null;
+  fcfPerShare: number | null;
+  dividendPerShare: number | null;
+  /** Dividends per share over EPS, % */
+  payoutRatio: number | null;
+}
+
+/**
+ * Latest-year figures for the side-by-side table
+ */
+export function summarizeFundamentals(rows: AnnualFundamentals[]): ComparisonSummary | null {
+  const latest = rows[rows.length - 1];
+  if (!latest) return null;
+
+  const previous = rows[rows.length - 2];
+  const cagrBase = rows[Math.max(0, rows.length - 6)];
+
+  return {
+    year: latest.year,
+    revenue: latest.revenue,
+    revenueGrowth: growth(latest.revenue, previous?.revenue ?? null),
+    revenueCagr: cagrBase === latest ? null : cagr(cagrBase.revenue, latest.revenue, Number(latest.year) - Number(cagrBase.year)),
+    netMargin: ratio(latest.netIncome, latest.revenue),
+    eps: latest.eps,
+    epsGrowth: growth(latest.eps, previous?.eps ?? null),
+    freeCashFlow: latest.freeCashFlow,
+    fcfMargin: ratio(latest.freeCashFlow, latest.revenue),
+    fcfPerShare: latest.freeCashFlow !== null && latest.sharesOutstanding ? latest.freeCashFlow / latest.sharesOutstanding : null,
+    dividendPerShare: latest.dividendPerShare,
+    payoutRatio: latest.eps !== null && latest.eps > 0 ? ratio(latest.dividendPerShare, latest.eps) : null
+  };
+}
@@ -0,0 +1,106 @@
+import { cagr } from './comparison';
+
+/**
+ * Discounted cash flow valuation: free cash flow grown at a constant rate
+ * over the projection years, plus a Gordon growth terminal value, all
+ * discounted back and bridged from enterprise value to equity per share.
+ */
+
+export interface DcfInputs {
+  /** Latest annual free cash flow, dollars */
+  baseFreeCashFlow: number;
+  /** Annual FCF growth over the projection, % */
+  growthRate: number;
+  /** Discount rate (WACC), % */
+  discountRate: number;
+  /** Perpetual growth after the projection, % */
+  terminalGrowth: number;
+  years: number;
+  sharesOutstanding: number;
+  /** Total debt less cash, dollars */
+  netDebt: number;
+}
+
+export interface DcfProjection {
+  /** Years from now */
+  year: number;
+  freeCashFlow: number;
+  presentValue: number;
+}
+
+export interface DcfResult {
+  projections: DcfProjection[];
+  terminalValue: number;
+  presentTerminalValue: number;
+  enterpriseValue: number;
+  equityValue: number;
+  valuePerShare: number;
+}
+
+export const DEFAULT_DISCOUNT_RATE = 9;
+export const DEFAULT_TERMINAL_GROWTH = 2.5;
+export const DEFAULT_PROJECTION_YEARS = 10;
+
+// used when there's no usable history; the clamp keeps one great year from
+// being projected for a decade
+const DEFAULT_GROWTH_RATE = 5;
+const MIN_SEED_GROWTH = -10;
+const MAX_SEED_GROWTH = 25;
+const SEED_CAGR_YEARS = 5;
+
+/**
+ * Starting growth rate from the FCF CAGR over up to five years, oldest first
+ * input. Falls back to 5% when either end isn't positive.
+ */
+export function seedGrowthRate(freeCashFlows: number[]): { rate: number; fromHistory: boolean } {
+  const recent = freeCashFlows.slice(-(SEED_CAGR_YEARS + 1));
+  const growth = recent.length >= 2 ? cagr(recent[0], recent[recent.length - 1], recent.length - 1) : null;
+
+  if (growth === null) return { rate: DEFAULT_GROWTH_RATE, fromHistory: false };
+  return { rate: Math.min(MAX_SEED_GROWTH, Math.max(MIN_SEED_GROWTH, growth)), fromHistory: true };
+}
+
+/**
+ * Null when the model has no finite answer: the discount rate must exceed
+ * terminal growth, and there must be shares to divide by
+ */
+export function discountedCashFlow(inputs: DcfInputs): DcfResult | null {
+  const { baseFreeCashFlow, growthRate, discountRate, terminalGrowth, years, sharesOutstanding, netDebt } = inputs;
+  const discount = discountRate / 100;
+  const terminal = terminalGrowth / 100;
+
+  if (discount <= terminal || sharesOutstanding <= 0 || years < 1) return null;
+
+  const projections: DcfProjection[] = [];
+  for (let year = 1; year <= years; year++) {
+    const freeCashFlow = baseFreeCashFlow * Math.pow(1 + growthRate / 100, year);
+    projections.push({ year, freeCashFlow, presentValue: freeCashFlow / Math.pow(1 + discount, year) });
+  }
+
+  const finalCashFlow = projections[projections.length - 1].freeCashFlow;
+  const terminalValue = (finalCashFlow * (1 + terminal)) / (discount - terminal);
+  const presentTerminalValue = terminalValue / Math.pow(1 + discount, years);
+  const enterpriseValue = projections.reduce((sum, projection) => sum + projection.presentValue, 0) + presentTerminalValue;
+  const equityValue = enterpriseValue - netDebt;
+
+  return {
+    projections,
+    terminalValue,
+    presentTerminalValue,
+    enterpriseValue,
+    equityValue,
+    valuePerShare: equityValue / sharesOutstanding
+  };
+}
+
+/**
+ * Value per share for each discount rate (rows) and terminal growth (columns);
+ * null where the discount rate doesn't exceed terminal growth
+ */
+export function sensitivityGrid(inputs: DcfInputs, discountRates: number[], terminalGrowths: number[]): Array<Array<number | null>> {
+  return discountRates.map(discountRate =>
+    terminalGrowths.map(terminalGrowth =>
+      discountedCashFlow({ ...inputs, discountRate, terminalGrowth })?.valuePerShare ?? null
+    )
+  );
+}
@@ -0,0 +1,118 @@
+import { parseNumber, reportFreeCashFlow, statementReports } from './fundamentals';
+import { PriceBar } from './priceSeries';
+import { cagr } from './comparison';
+
+/**
+ * Dividend yield, payout and growth figures for the dividends card, from the
+ * monthly adjusted series joined with EARNINGS and CASH_FLOW.
+ */
+
+export interface DividendStreak {
+  /** Consecutive full years with a dividend, counting back from last year */
+  paidYears: number;
+  /** Consecutive full years with a higher total than the year before */
+  raisedYears: number;
+}
+
+export interface DividendAnalytics extends DividendStreak {
+  /** Dividends per share paid over the last twelve monthly bars */
+  ttmDividend: number;
+  /** TTM dividend over the latest close, % */
+  dividendYield: number | null;
+  ttmEps: number | null;
+  /** TTM dividend per share over TTM EPS, % */
+  epsPayoutRatio: number | null;
+  /** Dividends paid over free cash flow, last four quarters, % */
+  fcfPayoutRatio: number | null;
+  /** Dividend-per-share CAGR to the last full year, % */
+  cagr5: number | null;
+  cagr10: number | null;
+  /** The current calendar year, when it already has payments; its total is partial */
+  inProgressYear: string | null;
+}
+
+const TTM_QUARTERS = 4;
+
+/**
+ * Dividend per share paid in each calendar year
+ */
+export function yearlyDividendTotals(bars: PriceBar[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  bars.forEach(bar => {
+    if (bar.dividend > 0) {
+      const year = bar.date.substring(0, 4);
+      totals.set(year, (totals.get(year) ?? 0) + bar.dividend);
+    }
+  });
+  return totals;
+}
+
+/**
+ * Streaks run back from the last full year; the current one is still being paid
+ */
+export function dividendStreak(totals: Map<string, number>, currentYear: number): DividendStreak {
+  let paidYears = 0;
+  let raisedYears = 0;
+
+  for (let year = currentYear - 1; totals.has(String(year)); year--) {
+    paidYears++;
+  }
+
+  for (let year = currentYear - 1; year > currentYear - 1 - paidYears; year--) {
+    const older = totals.get(String(year - 1));
+    if (older === undefined || totals.get(String(year))! <= older) break;
+    raisedYears++;
+  }
+
+  return { paidYears, raisedYears };
+}
+
+/**
+ * Sum of the latest four quarterly values; null unless all four are known
+ */
+const trailingSum = (values: Array<number | null>) => {
+  const latest = values.slice(-TTM_QUARTERS);
+  if (latest.length < TTM_QUARTERS || latest.some(value => value === null)) return null;
+  return latest.reduce((sum: number, value) => sum + value!, 0);
+};
+
+const ratio = (numerator: number | null, denominator: number | null) =>
+  numerator === null || denominator === null || denominator <= 0 ? null : (numerator / denominator) * 100;
+
+export function analyzeDividends(bars: PriceBar[], earnings?: any, cashFlow?: any, now = new Date()): DividendAnalytics {
+  const totals = yearlyDividendTotals(bars);
+  const currentYear = now.getFullYear();
+  const lastFullYear = currentYear - 1;
+
+  const ttmDividend = bars.slice(-12).reduce((sum, bar) => sum + bar.dividend, 0);
+  const latestClose = bars.length > 0 ? bars[bars.length - 1].close : null;
+
+  const quarterlyEarnings: any[] = Array.isArray(earnings?.quarterlyEarnings) ? earnings.quarterlyEarnings : [];
+  const ttmEps = trailingSum(
+    [...quarterlyEarnings]
+      .sort((a, b) => String(a.fiscalDateEnding).localeCompare(String(b.fiscalDateEnding)))
+      .map(quarter => parseNumber(quarter.reportedEPS))
+  );
+
+  const cashFlows = statementReports(cashFlow, 'quarterly');
+  const ttmFreeCashFlow = trailingSum(cashFlows.map(reportFreeCashFlow));
+  // reported as an outflow, sometimes with a sign
+  const ttmDividendsPaid = trailingSum(cashFlows.map(report => {
+    const paid = parseNumber(report.dividendPayout);
+    return paid === null ? null : Math.abs(paid);
+  }));
+
+  const growth = (years: number) => cagr(totals.get(String(lastFullYear - years)) ?? null, totals.get(String(lastFullYear)) ?? null, years);
+
+  return {
+    ...dividendStreak(totals, currentYear),
+    ttmDividend,
+    dividendYield: ttmDividend > 0 ? ratio(ttmDividend, latestClose) : null,
+    ttmEps,
+    epsPayoutRatio: ratio(ttmDividend, ttmEps),
+    fcfPayoutRatio: ratio(ttmDividendsPaid, ttmFreeCashFlow),
+    cagr5: growth(5),
+    cagr10: growth(10),
+    inProgressYear: totals.has(String(currentYear)) ? String(currentYear) : null
+  };
+}
@@ -0,0 +1,375 @@
+import { fetchMarketData } from './marketApi';
+import { AlphaVantageFunction } from './alphaVantage';
+import { RequestPriority } from './requestScheduler';
+import { parseMonthlyAdjustedSeries } from './priceSeries';
+import { percentChange } from './narrative';
+
+/**
+ * Parsers that turn Alpha Vantage's string-valued quote, company and
+ * statement payloads into numbers. Missing values ("None", "-", "") come back as null.
+ */
+
+export interface Quote {
+  symbol: string;
+  price: number;
+  change: number;
+  /** Day change, % */
+  changePercent: number;
+  previousClose: number | null;
+  latestTradingDay: string;
+}
+
+export interface CompanyOverview {
+  symbol: string;
+  name: string;
+  exchange: string;
+  description: string;
+  sector: string;
+  industry: string;
+  marketCap: number | null;
+  peRatio: number | null;
+  pegRatio: number | null;
+  priceToBook: number | null;
+  evToEbitda: number | null;
+  beta: number | null;
+  week52High: number | null;
+  week52Low: number | null;
+  movingAverage50: number | null;
+  eps: number | null;
+  /** Trailing dividend yield, % */
+  dividendYield: number | null;
+  /** Latest quarter's EPS growth over the same quarter a year earlier, % */
+  epsGrowth: number | null;
+  /** Latest quarter's revenue growth over the same quarter a year earlier, % */
+  revenueGrowth: number | null;
+}
+
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const parsed = parseFloat(value.replace(/[%,]/g, ''));
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+const parsePercent = (value: unknown) => {
+  const parsed = parseNumber(value);
+  return parsed === null ? null : parsed * 100;
+};
+
+/**
+ * GLOBAL_QUOTE; null when Alpha Vantage has no quote for the symbol
+ */
+export function parseGlobalQuote(payload: any): Quote | null {
+  const quote = payload?.['Global Quote'];
+  const price = parseNumber(quote?.['05. price']);
+  if (!quote || price === null) return null;
+
+  return {
+    symbol: quote['01. symbol'],
+    price,
+    change: parseNumber(quote['09. change']) ?? 0,
+    changePercent: parseNumber(quote['10. change percent']) ?? 0,
+    previousClose: parseNumber(quote['08. previous close']),
+    latestTradingDay: quote['07. latest trading day'] || ''
+  };
+}
+
+/**
+ * OVERVIEW; null when Alpha Vantage doesn't cover the company (it answers `{}`)
+ */
+export function parseOverview(payload: any): CompanyOverview | null {
+  if (!payload?.Symbol) return null;
+
+  return {
+    symbol: payload.Symbol,
+    name: payload.Name || payload.Symbol,
+    exchange: payload.Exchange || '',
+    description: payload.Description && payload.Description !== 'None' ? payload.Description : '',
+    sector: payload.Sector || '',
+    industry: payload.Industry || '',
+    marketCap: parseNumber(payload.MarketCapitalization),
+    peRatio: parseNumber(payload.PERatio),
+    pegRatio: parseNumber(payload.PEGRatio),
+    priceToBook: parseNumber(payload.PriceToBookRatio),
+    evToEbitda: parseNumber(payload.EVToEBITDA),
+    beta: parseNumber(payload.Beta),
+    week52High: parseNumber(payload['52WeekHigh']),
+    week52Low: parseNumber(payload['52WeekLow']),
+    movingAverage50: parseNumber(payload['50DayMovingAverage']),
+    eps: parseNumber(payload.EPS),
+    dividendYield: parsePercent(payload.DividendYield),
+    epsGrowth: parsePercent(payload.QuarterlyEarningsGrowthYOY),
+    revenueGrowth: parsePercent(payload.QuarterlyRevenueGrowthYOY)
+  };
+}
+
+/**
+ * Operating cash flow less capital expenditures (reported with either sign);
+ * null unless the report has both
+ */
+export function reportFreeCashFlow(report: Record<string, string> | undefined): number | null {
+  const operatingCashflow = parseNumber(report?.operatingCashflow);
+  const capitalExpenditures = parseNumber(report?.capitalExpenditures);
+  return operatingCashflow === null || capitalExpenditures === null ? null : operatingCashflow - Math.abs(capitalExpenditures);
+}
+
+export type ReportPeriod = 'annual' | 'quarterly';
+
+/**
+ * The annual or quarterly reports of a statement (INCOME_STATEMENT,
+ * CASH_FLOW, BALANCE_SHEET), oldest first
+ */
+export function statementReports(payload: any, period: ReportPeriod): Array<Record<string, string>> {
+  const reports = payload?.[period === 'annual' ? 'annualReports' : 'quarterlyReports'];
+  if (!Array.isArray(reports)) return [];
+
+  return reports
+    .filter(report => typeof report?.fiscalDateEnding === 'string')
+    .sort((a, b) => a.fiscalDateEnding.localeCompare(b.fiscalDateEnding));
+}
+
+export type StatementPeriod = ReportPeriod | 'ttm';
+
+export const STATEMENT_PERIODS: StatementPeriod[] = ['annual', 'quarterly', 'ttm'];
+
+export const STATEMENT_PERIOD_LABELS: Record<StatementPeriod, string> = {
+  annual: 'Annual',
+  quarterly: 'Quarterly',
+  ttm: 'TTM'
+};
+
+/** One point of a statement chart, in dollars; `Required` fields are always present */
+export interface StatementPoint<Field extends string, Required extends Field = Field> {
+  /** "2024" for annual points, "Q3 '24" (calendar quarter of the period end) otherwise */
+  label: string;
+  fiscalDateEnding: string;
+  /** Null where the report left the field out, or a TTM quarter did */
+  values: Record<Required, number> & Record<Exclude<Field, Required>, number | null>;
+  /** Change from a year earlier, % */
+  yoy: Record<Field, number | null>;
+  /** Change from the quarter before, %; null for annual points */
+  qoq: Record<Field, number | null> | null;
+}
+
+// four quarter ends fall within ~9 months; more means a quarter is missing
+const MAX_TTM_SPAN_DAYS = 290;
+
+const quarterLabel = (fiscalDateEnding: string) => {
+  const [year, month] = fiscalDateEnding.split('-').map(part => parseInt(part, 10));
+  return `Q${Math.floor((month - 1) / 3) + 1} '${year.toString().substring(2)}`;
+};
+
+const daysBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / (24 * 60 * 60 * 1000);
+
+/**
+ * Statement fields by period, oldest first, limited to the latest `limit`
+ * points. TTM points sum four consecutive quarters, so they start at the
+ * fourth quarter reported. Growth is computed before limiting, so the first
+ * point shown still has it.
+ *
+ * Reports missing a `required` field are dropped, so a TTM window can't span
+ * them; other missing fields stay null, as do sums and growth that need them.
+ */
+export function statementSeries<Field extends string, Required extends Field = Field>(
+  payload: any,
+  period: StatementPeriod,
+  fields: readonly Field[],
+  limit: number,
+  required: readonly Required[] = fields as readonly Field[] as readonly Required[]
+): StatementPoint<Field, Required>[] {
+  const reports = statementReports(payload, period === 'annual' ? 'annual' : 'quarterly')
+    .filter(report => required.every(field => parseNumber(report[field]) !== null));
+  const parsed = reports.map(report => Object.fromEntries(
+    fields.map(field => [field, parseNumber(report[field])])
+  ) as Record<Field, number | null>);
+
+  const points: Array<{ label: string; fiscalDateEnding: string; values: Record<Field, number | null> }> = [];
+  reports.forEach((report, index) => {
+    if (period !== 'ttm') {
+      points.push({
+        label: period === 'annual' ? report.fiscalDateEnding.substring(0, 4) : quarterLabel(report.fiscalDateEnding),
+        fiscalDateEnding: report.fiscalDateEnding,
+        values: parsed[index]
+      });
+      return;
+    }
+
+    if (index < 3 || daysBetween(reports[index - 3].fiscalDateEnding, report.fiscalDateEnding) > MAX_TTM_SPAN_DAYS) return;
+
+    points.push({
+      label: quarterLabel(report.fiscalDateEnding),
+      fiscalDateEnding: report.fiscalDateEnding,
+      values: Object.fromEntries(fields.map(field => {
+        const quarters = parsed.slice(index - 3, index + 1)
+          .map(values => values[field])
+          .filter((value): value is number => value !== null);
+        return [field, quarters.length === 4 ? quarters.reduce((sum, value) => sum + value, 0) : null];
+      })) as Record<Field, number | null>
+    });
+  });
+
+  const changeFrom = (current: Record<Field, number | null>, previous: Record<Field, number | null> | undefined) =>
+    Object.fromEntries(fields.map(field => {
+      const value = current[field];
+      const previousValue = previous?.[field] ?? null;
+      return [field, value === null || previousValue === null ? null : percentChange(value, previousValue)];
+    })) as Record<Field, number | null>;
+  const priors = priorPoints(points, period);
+
+  return points
+    .map((point, index) => ({
+      ...point,
+      yoy: changeFrom(point.values, priors[index].yearEarlier?.values),
+      qoq: period === 'annual' ? null : changeFrom(point.values, priors[index].quarterEarlier?.values)
+    }))
+    // the filter above guarantees the required fields
+    .slice(-limit) as StatementPoint<Field, Required>[];
+}
+
+/**
+ * Periods the statement has at least one point for; TTM needs four
+ * consecutive quarters
+ */
+export function availableStatementPeriods<Field extends string>(
+  payload: any,
+  fields: readonly Field[],
+  required: readonly Field[] = fields
+): StatementPeriod[] {
+  return STATEMENT_PERIODS.filter(period => statementSeries(payload, period, fields, 1, required).length > 0);
+}
+
+/**
+ * For each point, the point a year earlier and, for quarterly and TTM data,
+ * the one a quarter earlier. Missing when a gap in the reports would
+ * otherwise compare against the wrong period.
+ */
+export function priorPoints<Point extends { fiscalDateEnding: string }>(
+  points: Point[],
+  period: StatementPeriod
+): Array<{ yearEarlier?: Point; quarterEarlier?: Point }> {
+  // matched by date, so a dropped quarter doesn't shift the comparison
+  const earlier = (point: Point, days: number) =>
+    points.find(other => Math.abs(daysBetween(other.fiscalDateEnding, point.fiscalDateEnding) - days) <= 35);
+
+  return points.map((point, index) => period === 'annual'
+    ? { yearEarlier: points[index - 1] }
+    : { yearEarlier: earlier(point, 365), quarterEarlier: earlier(point, 91) });
+}
+
+/** One fiscal year of the figures the comparison view overlays, in dollars */
+export interface AnnualFundamentals {
+  year: string;
+  fiscalDateEnding: string;
+  revenue: number | null;
+  netIncome: number | null;
+  eps: number | null;
+  /** Operating cash flow minus capital expenditures */
+  freeCashFlow: number | null;
+  sharesOutstanding: number | null;
+  /** Dividends paid in the calendar year of the fiscal year end */
+  dividendPerShare: number | null;
+}
+
+interface AnnualSources {
+  incomeStatement: any;
+  cashFlow?: any;
+  earnings?: any;
+  balanceSheet?: any;
+  monthlyAdjusted?: any;
+}
+
+const byYear = (reports: Array<Record<string, string>>) =>
+  new Map(reports.map(report => [report.fiscalDateEnding.substring(0, 4), report]));
+
+/**
+ * Join the annual statements on fiscal year. Every year with an income
+ * statement gets a row; figures from the other sources are null where missing.
+ */
+export function buildAnnualFundamentals({ incomeStatement, cashFlow, earnings, balanceSheet, monthlyAdjusted }: AnnualSources): AnnualFundamentals[] {
+  const cashFlows = byYear(statementReports(cashFlow, 'annual'));
+  const balanceSheets = byYear(statementReports(balanceSheet, 'annual'));
+  const annualEps = new Map<string, number | null>(
+    (Array.isArray(earnings?.annualEarnings) ? earnings.annualEarnings : [])
+      .map((item: any) => [String(item.fiscalDateEnding).substring(0, 4), parseNumber(item.reportedEPS)])
+  );
+
+  // the current calendar year is still being paid, so it has no full-year figure
+  const currentYear = new Date().getFullYear().toString();
+  const monthlyBars = parseMonthlyAdjustedSeries(monthlyAdjusted);
+  const dividends = new Map<string, number>();
+  monthlyBars.forEach(bar => {
+    const year = bar.date.substring(0, 4);
+    if (year !== currentYear) {
+      dividends.set(year, (dividends.get(year) ?? 0) + bar.dividend);
+    }
+  });
+
+  // years before the price history, or only partly in it, are unknown rather than unpaid
+  const firstBar = monthlyBars[0]?.date;
+  const firstFullYear = !firstBar ? null
+    : firstBar.substring(5, 7) === '01' ? firstBar.substring(0, 4)
+    : String(Number(firstBar.substring(0, 4)) + 1);
+  const coversYear = (year: string) => firstFullYear !== null && year >= firstFullYear && year !== currentYear;
+
+  return statementReports(incomeStatement, 'annual').map(report => {
+    const year = report.fiscalDateEnding.substring(0, 4);
+
+    return {
+      year,
+      fiscalDateEnding: report.fiscalDateEnding,
+      revenue: parseNumber(report.totalRevenue),
+      netIncome: parseNumber(report.netIncome),
+      eps: annualEps.get(year) ?? null,
+      freeCashFlow: reportFreeCashFlow(cashFlows.get(year)),
+      sharesOutstanding: parseNumber(balanceSheets.get(year)?.commonStockSharesOutstanding),
+      dividendPerShare: coversYear(year) ? dividends.get(year) ?? 0 : null
+    };
+  });
+}
+
+/** Statements the annual rows can be joined with besides the income statement */
+export type AnnualSource = 'cashFlow' | 'earnings' | 'balanceSheet' | 'monthlyAdjusted';
+
+const ANNUAL_SOURCE_FUNCTIONS: Record<AnnualSource, AlphaVantageFunction> = {
+  cashFlow: 'CASH_FLOW',
+  earnings: 'EARNINGS',
+  balanceSheet: 'BALANCE_SHEET',
+  monthlyAdjusted: 'TIME_SERIES_MONTHLY_ADJUSTED'
+};
+
+export const ANNUAL_SOURCES = Object.keys(ANNUAL_SOURCE_FUNCTIONS) as AnnualSource[];
+
+/**
+ * Load and join a ticker's income statement with the given other sources,
+ * one API call each. Only the income statement is required; the others
+ * fill in what they can, and figures from sources not asked for stay null.
+ */
+export async function loadAnnualFundamentals(
+  symbol: string,
+  sources: AnnualSource[] = ANNUAL_SOURCES,
+  priority: RequestPriority = 'visible'
+): Promise<AnnualFundamentals[]> {
+  const [incomeStatement, ...others] = await Promise.allSettled([
+    fetchMarketData('INCOME_STATEMENT', { symbol }, { priority }),
+    ...sources.map(source => fetchMarketData(ANNUAL_SOURCE_FUNCTIONS[source], { symbol }, { priority }))
+  ]);
+
+  if (incomeStatement.status === 'rejected') {
+    throw incomeStatement.reason;
+  }
+
+  const rows = buildAnnualFundamentals({
+    incomeStatement: incomeStatement.value,
+    ...Object.fromEntries(sources.map((source, index) => {
+      const result = others[index];
+      return [source, result.status === 'fulfilled' ? result.value : undefined];
+    }))
+  });
+
+  if (rows.length === 0) {
+    throw new Error(`No income statement data available for ${symbol.toUpperCase()}`);
+  }
+
+  return rows;
+}
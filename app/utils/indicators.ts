@@ -0,0 +1,191 @@
+/**
+ * Technical indicators computed client-side from a price series.
+ * Every function returns an array aligned with its input, with `null`
+ * for the warm-up points where the indicator isn't defined yet.
+ */
+
+export type IndicatorSeries = Array<number | null>;
+
+export interface OhlcvBar {
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+/**
+ * Simple moving average
+ */
+export function sma(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return result;
+
+  let sum = 0;
+  values.forEach((value, index) => {
+    sum += value;
+    if (index >= period) {
+      sum -= values[index - period];
+    }
+    if (index >= period - 1) {
+      result[index] = sum / period;
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Exponential moving average, seeded with the SMA of the first `period` values
+ */
+export function ema(values: number[], period: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return result;
+
+  const multiplier = 2 / (period + 1);
+  let previous = values.slice(0, period).reduce((sum, value) => sum + value, 0) / period;
+  result[period - 1] = previous;
+
+  for (let index = period; index < values.length; index++) {
+    previous = (values[index] - previous) * multiplier + previous;
+    result[index] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * Wilder's smoothing (an EMA with alpha = 1 / period), used by RSI and ATR
+ */
+function wilderSmooth(values: number[], period: number, offset: number): IndicatorSeries {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < offset + period) return result;
+
+  let previous = values.slice(offset, offset + period).reduce((sum, value) => sum + value, 0) / period;
+  result[offset + period - 1] = previous;
+
+  for (let index = offset + period; index < values.length; index++) {
+    previous = (previous * (period - 1) + values[index]) / period;
+    result[index] = previous;
+  }
+
+  return result;
+}
+
+/**
+ * Relative strength index (0-100) using Wilder's smoothing
+ */
+export function rsi(closes: number[], period = 14): IndicatorSeries {
+  const gains = closes.map((close, index) => index === 0 ? 0 : Math.max(0, close - closes[index - 1]));
+  const losses = closes.map((close, index) => index === 0 ? 0 : Math.max(0, closes[index - 1] - close));
+
+  // the first change is at index 1, so smoothing starts there
+  const avgGains = wilderSmooth(gains, period, 1);
+  const avgLosses = wilderSmooth(losses, period, 1);
+
+  return closes.map((_, index) => {
+    const avgGain = avgGains[index];
+    const avgLoss = avgLosses[index];
+    if (avgGain === null || avgLoss === null) return null;
+    if (avgLoss === 0) return avgGain === 0 ? 50 : 100;
+    return 100 - 100 / (1 + avgGain / avgLoss);
+  });
+}
+
+export interface MacdResult {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+/**
+ * Moving average convergence/divergence: fast EMA minus slow EMA,
+ * its signal EMA, and the histogram between them
+ */
+export function macd(closes: number[], fastPeriod = 12, slowPeriod = 26, signalPeriod = 9): MacdResult {
+  const fast = ema(closes, fastPeriod);
+  const slow = ema(closes, slowPeriod);
+  const macdLine = closes.map((_, index) => {
+    const fastValue = fast[index];
+    const slowValue = slow[index];
+    return fastValue === null || slowValue === null ? null : fastValue - slowValue;
+  });
+
+  // the signal line is an EMA over the defined part of the MACD line only
+  const firstDefined = macdLine.findIndex(value => value !== null);
+  const signal: IndicatorSeries = new Array(closes.length).fill(null);
+
+  if (firstDefined >= 0) {
+    const signalValues = ema(macdLine.slice(firstDefined) as number[], signalPeriod);
+    signalValues.forEach((value, offset) => {
+      signal[firstDefined + offset] = value;
+    });
+  }
+
+  const histogram = macdLine.map((value, index) => {
+    const signalValue = signal[index];
+    return value === null || signalValue === null ? null : value - signalValue;
+  });
+
+  return { macd: macdLine, signal, histogram };
+}
+
+export interface BollingerBands {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+/**
+ * Bollinger Bands: SMA with bands `stdDevs` population standard deviations away
+ */
+export function bollingerBands(closes: number[], period = 20, stdDevs = 2): BollingerBands {
+  const middle = sma(closes, period);
+  const upper: IndicatorSeries = new Array(closes.length).fill(null);
+  const lower: IndicatorSeries = new Array(closes.length).fill(null);
+
+  middle.forEach((mean, index) => {
+    if (mean === null) return;
+
+    const window = closes.slice(index - period + 1, index + 1);
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance) * stdDevs;
+
+    upper[index] = mean + deviation;
+    lower[index] = mean - deviation;
+  });
+
+  return { upper, middle, lower };
+}
+
+/**
+ * Average true range using Wilder's smoothing
+ */
+export function atr(bars: OhlcvBar[], period = 14): IndicatorSeries {
+  const trueRanges = bars.map((bar, index) => {
+    if (index === 0) return bar.high - bar.low;
+
+    const previousClose = bars[index - 1].close;
+    return Math.max(
+      bar.high - bar.low,
+      Math.abs(bar.high - previousClose),
+      Math.abs(bar.low - previousClose)
+    );
+  });
+
+  return wilderSmooth(trueRanges, period, 0);
+}
+
+/**
+ * Volume-weighted average price, anchored at the first bar
+ */
+export function vwap(bars: OhlcvBar[]): IndicatorSeries {
+  let cumulativeValue = 0;
+  let cumulativeVolume = 0;
+
+  return bars.map(bar => {
+    const typicalPrice = (bar.high + bar.low + bar.close) / 3;
+    cumulativeValue += typicalPrice * bar.volume;
+    cumulativeVolume += bar.volume;
+    return cumulativeVolume > 0 ? cumulativeValue / cumulativeVolume : null;
+  });
+}
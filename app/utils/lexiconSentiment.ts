@@ -0,0 +1,318 @@
+import { AnalyzeApiResponse } from './sentiment';
+
+/**
+ * Dictionary-based financial sentiment scorer that runs entirely in the
+ * browser. Word lists follow the Loughran-McDonald financial sentiment
+ * dictionary, which is tuned for filings and financial news rather than
+ * general English (e.g. "liability" or "tax" aren't negative here), plus
+ * WallStreetBets slang and emoji. Negations flip the terms that follow
+ * them and intensifiers scale them.
+ */
+
+export const LEXICON_MODEL = 'lexicon-lm';
+
+export interface LexiconMatch {
+  /** The matched text as it appears in the input */
+  term: string;
+  /** Character offsets into the input */
+  start: number;
+  end: number;
+  /** Signed contribution: positive pushes towards positive sentiment */
+  weight: number;
+}
+
+export interface LexiconResult extends AnalyzeApiResponse {
+  matches: LexiconMatch[];
+}
+
+const POSITIVE_WORDS = [
+  'able', 'abundance', 'accomplish', 'accomplished', 'achieve', 'achieved', 'achievement', 'advance', 'advanced',
+  'advantage', 'advantageous', 'attractive', 'beat', 'beats', 'beneficial', 'benefit', 'benefited', 'best', 'better',
+  'bolster', 'bolstered', 'boom', 'booming', 'boost', 'boosted', 'breakthrough', 'brilliant', 'bullish', 'climb',
+  'climbed', 'collaborate', 'compliment', 'confident', 'constructive', 'creative', 'delight', 'delighted', 'dependable',
+  'distinction', 'efficiency', 'efficient', 'empower', 'enable', 'encouraged', 'encouraging', 'enhance',
+  'enhanced', 'enjoy', 'enthusiasm', 'enthusiastic', 'excellence', 'excellent', 'exceed', 'exceeded', 'exceeding',
+  'exceeds', 'exceptional', 'excited', 'exciting', 'exclusive', 'favorable', 'favorably', 'gain', 'gained', 'gains',
+  'good', 'great', 'greater', 'greatest', 'grew', 'grow', 'growing', 'growth', 'happy', 'highest', 'honor', 'ideal',
+  'impressive', 'improve', 'improved', 'improvement', 'improves', 'improving', 'incredible', 'innovative', 'jump',
+  'jumped', 'leadership', 'leading', 'lucrative', 'optimism', 'optimistic', 'outpace', 'outperform', 'outperformed',
+  'outperforming', 'outstanding', 'perfect', 'pleased', 'popular', 'positive', 'positives', 'profitability',
+  'profitable', 'progress', 'prosper', 'prosperity', 'rally', 'rallied', 'rebound', 'rebounded', 'record', 'recover',
+  'recovered', 'resolve', 'resolved', 'reward', 'rewarding', 'rise', 'rises', 'rising', 'robust', 'soar', 'soared',
+  'soaring', 'solid', 'stability', 'stable', 'strength', 'strengthen', 'strengthened', 'strong', 'stronger',
+  'strongest', 'succeed', 'succeeded', 'success', 'successful', 'superior', 'surge', 'surged', 'surpass', 'surpassed',
+  'tremendous', 'upgrade', 'upgraded', 'upside', 'upturn', 'valuable', 'win', 'winner', 'winning', 'won'
+];
+
+const NEGATIVE_WORDS = [
+  'abandon', 'abandoned', 'adverse', 'adversely', 'alarming', 'allegation', 'allegations', 'antitrust',
+  'bad', 'bankrupt', 'bankruptcy', 'bearish', 'breach', 'burden', 'cancel', 'canceled', 'cancelled', 'caution',
+  'cautious', 'challenge', 'challenges', 'challenging', 'closure', 'collapse', 'collapsed', 'concern', 'concerned',
+  'concerns', 'crash', 'crashed', 'crisis', 'critical', 'criticism', 'cut', 'cuts', 'damage', 'damaged', 'decline',
+  'declined', 'declines', 'declining', 'decrease', 'decreased', 'default', 'defaulted', 'deficit', 'delay', 'delayed',
+  'delays', 'delist', 'deteriorate', 'deteriorated', 'deterioration', 'difficult', 'difficulties', 'difficulty',
+  'disappoint', 'disappointed', 'disappointing', 'disappointment', 'downgrade', 'downgraded', 'downturn', 'drop',
+  'dropped', 'drops', 'fail', 'failed', 'failing', 'fails', 'failure', 'fall', 'fallen', 'falling', 'falls',
+  'fear', 'fears', 'fell', 'fined', 'fraud', 'fraudulent', 'halt', 'halted', 'hurt', 'impair', 'impaired',
+  'impairment', 'inability', 'investigation', 'lawsuit', 'lawsuits', 'layoff', 'layoffs', 'liquidate', 'liquidation',
+  'litigation', 'lose', 'loses', 'losing', 'loss', 'losses', 'lost', 'lower', 'lowered', 'miss', 'missed', 'misses',
+  'negative', 'negatively', 'obstacle', 'penalty', 'plummet', 'plummeted', 'plunge', 'plunged', 'poor', 'poorly',
+  'probe', 'problem', 'problems', 'recall', 'recalled', 'recession', 'resign', 'resigned', 'restate', 'restated',
+  'restructuring', 'risk', 'risks', 'risky', 'scandal', 'selloff', 'shortfall', 'shutdown', 'sink', 'slash', 'slashed',
+  'slow', 'slowdown', 'slowed', 'slowing', 'slump', 'slumped', 'struggle', 'struggled', 'struggling', 'subpoena',
+  'sue', 'sued', 'suffer', 'suffered', 'suspend', 'suspended', 'tumble', 'tumbled', 'turmoil', 'uncertain',
+  'uncertainty', 'underperform', 'underperformed', 'unfavorable', 'unprofitable', 'violation', 'volatile',
+  'volatility', 'warn', 'warned', 'warning', 'weak', 'weaken', 'weakened', 'weakness', 'worse', 'worsen', 'worst',
+  'writedown', 'writeoff'
+];
+
+// retail-investor slang, weighted by how strongly it signals direction
+const SLANG_WEIGHTS: Record<string, number> = {
+  tendies: 1.5,
+  moon: 1.5,
+  mooning: 1.5,
+  stonks: 0.5,
+  hodl: 1,
+  hodling: 1,
+  btfd: 1,
+  squeeze: 1,
+  squeezing: 1,
+  calls: 0.75,
+  bull: 1,
+  bulls: 1,
+  lambo: 1,
+  ripping: 1,
+  printing: 1,
+  yolo: 0.5,
+  bagholder: -1.5,
+  bagholders: -1.5,
+  bagholding: -1.5,
+  rekt: -1.5,
+  guh: -1.5,
+  puts: -0.75,
+  bear: -1,
+  bears: -1,
+  tank: -1,
+  tanked: -1,
+  tanking: -1,
+  dump: -1,
+  dumped: -1,
+  dumping: -1,
+  rugged: -1.5,
+  drilling: -1,
+  bleeding: -1,
+  wendys: -1,
+  '🚀': 1.5,
+  '🌙': 1,
+  '📈': 1,
+  '🐂': 1,
+  '💰': 0.5,
+  '🔥': 0.5,
+  '💎': 0.5,
+  '🤑': 1,
+  '📉': -1,
+  '🐻': -1,
+  '🩸': -1,
+  '🔴': -0.5,
+  '💀': -0.5,
+  '🤡': -0.75,
+  '😭': -0.5
+};
+
+// multi-token phrases take precedence over the words inside them
+const PHRASE_WEIGHTS: Array<[string[], number]> = [
+  [['to', 'the', 'moon'], 2],
+  [['🌈', '🐻'], 1.5], // mocking bears, i.e. bullish
+  [['💎', '🙌'], 1.5],
+  [['diamond', 'hands'], 1.5],
+  [['paper', 'hands'], -1],
+  [['bag', 'holder'], -1.5],
+  [['bag', 'holders'], -1.5],
+  [['short', 'squeeze'], 1.5],
+  [['buy', 'the', 'dip'], 1],
+  [['all', 'time', 'high'], 1],
+  [['rug', 'pull'], -1.5],
+  [['dead', 'cat', 'bounce'], -1.5],
+  [['going', 'to', 'zero'], -2],
+  [['behind', 'wendys'], -1]
+];
+
+const LEXICON = new Map<string, number>([
+  ...POSITIVE_WORDS.map(word => [word, 1] as [string, number]),
+  ...NEGATIVE_WORDS.map(word => [word, -1] as [string, number]),
+  ...Object.entries(SLANG_WEIGHTS)
+]);
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'without', 'hardly', 'barely', 'cannot',
+  'isnt', 'arent', 'wasnt', 'werent', 'dont', 'doesnt', 'didnt', 'wont', 'wouldnt', 'cant', 'couldnt', 'shouldnt',
+  'hasnt', 'havent', 'hadnt', 'aint'
+]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5,
+  extremely: 1.75,
+  hugely: 1.5,
+  massively: 1.75,
+  incredibly: 1.5,
+  insanely: 1.75,
+  super: 1.5,
+  really: 1.25,
+  highly: 1.5,
+  so: 1.25,
+  absolutely: 1.5,
+  totally: 1.25,
+  significantly: 1.5,
+  sharply: 1.5,
+  slightly: 0.5,
+  somewhat: 0.6,
+  marginally: 0.5,
+  modestly: 0.6
+};
+
+// a negated term counts against itself, but less strongly than the plain opposite would
+const NEGATION_FACTOR = -0.75;
+// negation covers this many following tokens, or until punctuation
+const NEGATION_SCOPE = 3;
+// "STRONG" reads stronger than "strong"
+const CAPS_FACTOR = 1.25;
+
+// pseudo-counts: a text with no matches reads as neutral, and a single match doesn't look certain
+const NEUTRAL_WEIGHT = 1;
+const SMOOTHING = 0.1;
+
+interface Token {
+  /** Lowercased, apostrophes removed */
+  norm: string;
+  raw: string;
+  start: number;
+  end: number;
+  punctuation: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const EMOJI = Array.from(new Set([
+  ...Object.keys(SLANG_WEIGHTS).filter(key => !/^[a-z]+$/.test(key)),
+  ...PHRASE_WEIGHTS.flatMap(([tokens]) => tokens).filter(token => !/^[a-z]+$/.test(token))
+]));
+
+const TOKEN_PATTERN = new RegExp(
+  `(${EMOJI.map(escapeRegExp).join('|')})|([A-Za-z]+(?:['’][A-Za-z]+)?)|([.!?;,:]+)`,
+  'g'
+);
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(TOKEN_PATTERN), match => ({
+    norm: match[0].toLowerCase().replace(/['’]/g, ''),
+    raw: match[0],
+    start: match.index ?? 0,
+    end: (match.index ?? 0) + match[0].length,
+    punctuation: match[3] !== undefined
+  }));
+
+const isAllCaps = (raw: string) => raw.length >= 3 && /^[A-Z]+$/.test(raw);
+
+/**
+ * Find the sentiment terms in a text with their signed weights, after
+ * negation and intensifiers. Each match spans its modifiers too, so
+ * "not good" is one match.
+ */
+export function findLexiconMatches(text: string): LexiconMatch[] {
+  const tokens = tokenize(text);
+  const matches: LexiconMatch[] = [];
+
+  let negatedFrom: number | null = null;
+  let negationLeft = 0;
+  let intensity = 1;
+  let intensifiedFrom: number | null = null;
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (token.punctuation) {
+      negationLeft = 0;
+      negatedFrom = null;
+      intensity = 1;
+      intensifiedFrom = null;
+      continue;
+    }
+
+    if (NEGATIONS.has(token.norm)) {
+      negationLeft = NEGATION_SCOPE;
+      negatedFrom = token.start;
+      continue;
+    }
+
+    if (INTENSIFIERS[token.norm] !== undefined) {
+      intensity *= INTENSIFIERS[token.norm];
+      intensifiedFrom = intensifiedFrom ?? token.start;
+      continue;
+    }
+
+    const phrase = PHRASE_WEIGHTS.find(([words]) =>
+      words.every((word, offset) => tokens[index + offset]?.norm === word)
+    );
+    const length = phrase ? phrase[0].length : 1;
+    const base = phrase ? phrase[1] : LEXICON.get(token.norm);
+    const last = tokens[index + length - 1];
+
+    if (base !== undefined) {
+      const negated = negationLeft > 0;
+      const weight = base
+        * intensity
+        * (negated ? NEGATION_FACTOR : 1)
+        * (!phrase && isAllCaps(token.raw) ? CAPS_FACTOR : 1);
+      const start = Math.min(token.start, intensifiedFrom ?? token.start, negated && negatedFrom !== null ? negatedFrom : token.start);
+
+      matches.push({ term: text.slice(start, last.end), start, end: last.end, weight });
+
+      // a modifier applies to the one term that follows it
+      negationLeft = 0;
+      negatedFrom = null;
+    } else if (negationLeft > 0) {
+      negationLeft--;
+    }
+
+    intensity = 1;
+    intensifiedFrom = null;
+    index += length - 1;
+  }
+
+  return matches;
+}
+
+/**
+ * Turn summed positive and negative evidence into probabilities
+ */
+export function lexiconProbabilities(matches: LexiconMatch[]) {
+  const positive = matches.reduce((sum, match) => sum + Math.max(0, match.weight), 0) + SMOOTHING;
+  const negative = matches.reduce((sum, match) => sum + Math.max(0, -match.weight), 0) + SMOOTHING;
+  const total = positive + negative + NEUTRAL_WEIGHT;
+
+  return {
+    positive: positive / total,
+    neutral: NEUTRAL_WEIGHT / total,
+    negative: negative / total
+  };
+}
+
+/**
+ * Score a text with the lexicon, in the same shape the backend returns
+ */
+export function scoreWithLexicon(text: string): LexiconResult {
+  const matches = findLexiconMatches(text);
+  const probabilities = lexiconProbabilities(matches);
+
+  return {
+    text,
+    predictions: [
+      { label: 'positive', score: probabilities.positive },
+      { label: 'neutral', score: probabilities.neutral },
+      { label: 'negative', score: probabilities.negative }
+    ],
+    model: LEXICON_MODEL,
+    source: 'lexicon',
+    matches
+  };
+}
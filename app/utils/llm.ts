@@ -0,0 +1,99 @@
+/**
+ * Server-side client for any OpenAI-compatible chat completions endpoint
+ * (OpenAI, Azure OpenAI, Together, Groq, a local Ollama or vLLM, ...).
+ * Only import this from API routes: it reads the API key from the environment.
+ */
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Error with the HTTP status an API route should answer with
+ */
+export class LlmError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+// a hung backend shouldn't hold the API route open
+const LLM_TIMEOUT_MS = 20000;
+
+export const getLlmConfig = () => ({
+  // the routes spend the key for any caller, so they stay off unless turned on
+  enabled: process.env.LLM_ENABLED === 'true',
+  apiKey: process.env.OPENAI_API_KEY,
+  baseUrl: (process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1').replace(/\/+$/, ''),
+  model: process.env.OPENAI_MODEL || 'gpt-4o-mini'
+});
+
+/**
+ * Whether the LLM routes can answer: turned on, with a key to call with
+ */
+export const isLlmEnabled = () => {
+  const { enabled, apiKey } = getLlmConfig();
+  return enabled && Boolean(apiKey);
+};
+
+/**
+ * Run a chat completion and return the assistant's reply text
+ */
+export async function createChatCompletion(
+  messages: ChatMessage[],
+  { temperature = 0, maxTokens = 300 }: { temperature?: number; maxTokens?: number } = {}
+): Promise<{ content: string; model: string }> {
+  const { enabled, apiKey, baseUrl, model } = getLlmConfig();
+
+  if (!enabled) {
+    throw new LlmError('LLM provider not enabled. Set LLM_ENABLED=true to allow the LLM routes.', 501);
+  }
+
+  if (!apiKey) {
+    throw new LlmError(
+      'OpenAI-compatible backend not configured. Please add OPENAI_API_KEY (and optionally OPENAI_BASE_URL, OPENAI_MODEL) to your .env.local file.',
+      500
+    );
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        temperature,
+        max_tokens: maxTokens
+      }),
+      signal: AbortSignal.timeout(LLM_TIMEOUT_MS)
+    });
+  } catch (error: any) {
+    if (error?.name === 'TimeoutError' || error?.name === 'AbortError') {
+      throw new LlmError(`LLM backend did not answer within ${LLM_TIMEOUT_MS / 1000} seconds`, 504);
+    }
+    throw new LlmError(`LLM backend unreachable: ${error?.message || 'network error'}`, 502);
+  }
+
+  if (!response.ok) {
+    throw new LlmError(
+      `LLM backend error: ${response.status} ${response.statusText}`,
+      response.status === 429 ? 429 : 502
+    );
+  }
+
+  const data = await response.json();
+  const content = data.choices?.[0]?.message?.content;
+
+  if (typeof content !== 'string') {
+    throw new LlmError('LLM backend returned no message', 502);
+  }
+
+  return { content, model: data.model || model };
+}
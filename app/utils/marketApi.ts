@@ -0,0 +1,80 @@
+import axios from 'axios';
+import {
+  ALPHA_VANTAGE_FUNCTIONS,
+  AlphaVantageFunction,
+  MarketApiError,
+  MarketErrorBody,
+  getMarketCacheKey
+} from './alphaVantage';
+import { clientResponseCache } from './responseCache';
+import { RefundSlot, RequestPriority, marketScheduler } from './requestScheduler';
+
+interface FetchMarketDataOptions {
+  priority?: RequestPriority;
+}
+
+/**
+ * Development-only logging utility
+ */
+const devLog = (message: string, ...args: any[]) => {
+  if (process.env.NODE_ENV === 'development') {
+    console.log(message, ...args);
+  }
+};
+
+/**
+ * Fetch an Alpha Vantage function through the server-side proxy route
+ * so the API key never reaches the browser.
+ * Responses are cached per function and concurrent identical calls share one request;
+ * cache misses go through the quota-aware scheduler.
+ */
+export async function fetchMarketData<T = any>(
+  functionName: AlphaVantageFunction,
+  params: Record<string, string>,
+  { priority = 'visible' }: FetchMarketDataOptions = {}
+): Promise<T> {
+  const { value, status } = await clientResponseCache.get(
+    getMarketCacheKey(functionName, params),
+    () => marketScheduler.schedule(
+      refund => requestMarketData<T>(functionName, params, refund),
+      priority
+    ),
+    ALPHA_VANTAGE_FUNCTIONS[functionName].cache
+  );
+
+  devLog(`${functionName} ${JSON.stringify(params)}: cache ${status}`);
+
+  return value;
+}
+
+async function requestMarketData<T>(
+  functionName: AlphaVantageFunction,
+  params: Record<string, string>,
+  refund: RefundSlot
+): Promise<T> {
+  try {
+    const response = await axios.get<T>(`/api/market/${functionName}`, { params });
+
+    // the server answered from its own cache, so no Alpha Vantage call was spent
+    if (response.headers['x-cache'] && response.headers['x-cache'] !== 'MISS') {
+      refund();
+    }
+
+    return response.data;
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response) {
+      const body = error.response.data as Partial<MarketErrorBody> | undefined;
+      throw new MarketApiError(
+        body?.error || `Market data error: ${error.response.status}`,
+        body?.code || 'UPSTREAM_ERROR',
+        error.response.status
+      );
+    }
+
+    throw new MarketApiError(
+      error instanceof Error ? error.message : 'Failed to reach market data service',
+      'UPSTREAM_ERROR',
+      0
+    );
+  }
+}
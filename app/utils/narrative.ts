@@ -0,0 +1,182 @@
+import axios from 'axios';
+import type { SentimentLabel } from './sentiment';
+
+/**
+ * Written summaries of a ticker built from its fundamentals and scored news.
+ * The template generator is deterministic and runs in the browser; the LLM
+ * generator rewrites the same facts through `/api/narrative`.
+ */
+
+/** Figures the dashboard cards report once their data has loaded */
+export interface FundamentalMetrics {
+  /** Trailing-twelve-month EPS growth over the twelve months before, % */
+  epsGrowth?: { value: number; period: string };
+  /** Latest fiscal year's net income over revenue, % */
+  netMargin?: { value: number; period: string };
+  /** Latest fiscal year's revenue growth, % */
+  revenueGrowth?: { value: number; period: string };
+  /** Free cash flow in billions, with how many years in a row it has risen (or fallen, negative) */
+  freeCashFlow?: { latest: number; change: number | null; streak: number; period: string };
+  /** Consecutive years with a dividend, and with a higher total than the year before */
+  dividendStreak?: { paidYears: number; raisedYears: number };
+}
+
+export interface NarrativeHeadline {
+  title: string;
+  source: string;
+  /** Signed share of the aggregate net score */
+  contribution: number;
+}
+
+export interface NarrativeInput {
+  ticker: string;
+  sentiment: SentimentLabel;
+  confidence: number;
+  articleCount: number;
+  fundamentals: FundamentalMetrics;
+  topPositive?: NarrativeHeadline;
+  topNegative?: NarrativeHeadline;
+}
+
+export type NarrativeGeneratorId = 'template' | 'llm';
+
+export interface NarrativeGenerator {
+  id: NarrativeGeneratorId;
+  label: string;
+  generate: (input: NarrativeInput) => Promise<string>;
+}
+
+/**
+ * Percent change that keeps its sign meaningful when the base is negative
+ */
+export function percentChange(current: number, previous: number): number | null {
+  if (!Number.isFinite(current) || !Number.isFinite(previous) || previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+/**
+ * Signed run length at the end of a series: +n for n rises in a row, -n for n falls
+ */
+export function trailingStreak(values: number[]): number {
+  let streak = 0;
+
+  for (let index = values.length - 1; index > 0; index--) {
+    const step = Math.sign(values[index] - values[index - 1]);
+    if (step === 0 || (streak !== 0 && step !== Math.sign(streak))) break;
+    streak += step;
+  }
+
+  return streak;
+}
+
+// sentence templates; {name} placeholders are filled from the values passed to fill()
+const TEMPLATES = {
+  sentiment: '{ticker} news sentiment is {label} ({confidence}% confidence) across {articles}.',
+  epsGrowth: 'EPS {direction} {value}% over the {period}.',
+  margins: 'In {period}, revenue {revenueDirection} {revenueGrowth}% and the net margin was {netMargin}%.',
+  revenueOnly: 'Revenue {revenueDirection} {revenueGrowth}% in {period}.',
+  marginOnly: 'The net margin was {netMargin}% in {period}.',
+  freeCashFlow: 'Free cash flow was {latest} in {period}{trend}.',
+  dividendRaised: 'The dividend has been paid {paidYears} in a row and raised in each of the last {raisedYears} years.',
+  dividendPaid: 'The dividend has been paid {paidYears} in a row.',
+  topPositive: 'The most positive coverage: "{title}" ({source}).',
+  topNegative: 'The most negative: "{title}" ({source}).'
+};
+
+const fill = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => name in values ? String(values[name]) : placeholder);
+
+const direction = (value: number) => value > 0 ? 'grew' : value < 0 ? 'fell' : 'was flat';
+
+const formatNumber = (value: number, digits = 1) => Math.abs(value).toFixed(digits);
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * The facts the narrative is built from, one sentence each, in reading order.
+ * Metrics that haven't loaded (or don't exist for the ticker) are left out.
+ */
+export function narrativeSentences(input: NarrativeInput): string[] {
+  const { fundamentals } = input;
+  const sentences = [
+    fill(TEMPLATES.sentiment, {
+      ticker: input.ticker.toUpperCase(),
+      label: input.sentiment,
+      confidence: (input.confidence * 100).toFixed(0),
+      articles: plural(input.articleCount, 'article')
+    })
+  ];
+
+  if (fundamentals.epsGrowth) {
+    sentences.push(fill(TEMPLATES.epsGrowth, {
+      direction: direction(fundamentals.epsGrowth.value),
+      value: formatNumber(fundamentals.epsGrowth.value),
+      period: fundamentals.epsGrowth.period
+    }));
+  }
+
+  const { revenueGrowth, netMargin } = fundamentals;
+  if (revenueGrowth && netMargin && revenueGrowth.period === netMargin.period) {
+    sentences.push(fill(TEMPLATES.margins, {
+      period: revenueGrowth.period,
+      revenueDirection: direction(revenueGrowth.value),
+      revenueGrowth: formatNumber(revenueGrowth.value),
+      netMargin: netMargin.value.toFixed(1)
+    }));
+  } else {
+    if (revenueGrowth) {
+      sentences.push(fill(TEMPLATES.revenueOnly, {
+        period: revenueGrowth.period,
+        revenueDirection: direction(revenueGrowth.value),
+        revenueGrowth: formatNumber(revenueGrowth.value)
+      }));
+    }
+    if (netMargin) {
+      sentences.push(fill(TEMPLATES.marginOnly, { period: netMargin.period, netMargin: netMargin.value.toFixed(1) }));
+    }
+  }
+
+  if (fundamentals.freeCashFlow) {
+    const { latest, change, streak, period } = fundamentals.freeCashFlow;
+    const trend = Math.abs(streak) >= 2
+      ? `, ${streak > 0 ? 'up' : 'down'} ${Math.abs(streak)} years in a row`
+      : change !== null ? `, ${change >= 0 ? 'up' : 'down'} ${formatNumber(change)}% on the year before` : '';
+
+    sentences.push(fill(TEMPLATES.freeCashFlow, { latest: `${latest < 0 ? '-' : ''}$${formatNumber(latest, 2)}B`, period, trend }));
+  }
+
+  if (fundamentals.dividendStreak && fundamentals.dividendStreak.paidYears > 0) {
+    const { paidYears, raisedYears } = fundamentals.dividendStreak;
+    sentences.push(fill(raisedYears >= 2 ? TEMPLATES.dividendRaised : TEMPLATES.dividendPaid, { paidYears: plural(paidYears, 'year'), raisedYears }));
+  }
+
+  if (input.topPositive && input.topPositive.contribution > 0) {
+    sentences.push(fill(TEMPLATES.topPositive, { ...input.topPositive }));
+  }
+  if (input.topNegative && input.topNegative.contribution < 0) {
+    sentences.push(fill(TEMPLATES.topNegative, { ...input.topNegative }));
+  }
+
+  return sentences;
+}
+
+export const NARRATIVE_GENERATORS: Record<NarrativeGeneratorId, NarrativeGenerator> = {
+  template: {
+    id: 'template',
+    label: 'Template',
+    generate: async input => narrativeSentences(input).join(' ')
+  },
+  llm: {
+    id: 'llm',
+    label: 'LLM',
+    generate: async input => {
+      const response = await axios.post<{ summary?: string; error?: string }>('/api/narrative', input, { timeout: 30000 });
+
+      if (response.data.error || !response.data.summary) {
+        throw new Error(response.data.error || 'No summary received from API');
+      }
+
+      return response.data.summary;
+    }
+  }
+};
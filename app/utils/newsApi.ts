@@ -1,4 +1,6 @@
-interface NewsArticle {
+import { CachePolicy, MINUTE, clientResponseCache } from './responseCache';
+
+export interface NewsArticle {
   title: string;
   description: string;
   publishedAt: string;
@@ -6,15 +8,19 @@ interface NewsArticle {
     name: string;
   };
   url: string;
+  /** Title and description, the text that gets scored */
+  text: string;
 }
 
 interface StockNewsResult {
   success: boolean;
-  text: string;
   articles: NewsArticle[];
   error?: string;
 }
 
+// headlines move quickly, so news is only held for minutes
+export const NEWS_CACHE_POLICY: CachePolicy = { ttl: 10 * MINUTE, staleWhileRevalidate: 30 * MINUTE };
+
 /**
  * Development-only logging utility
  */
@@ -36,31 +42,32 @@ export async function fetchStockNews(symbol: string, companyName?: string): Prom
     });
 
     devLog(`Fetching news for ${symbol}...`);
-    
-    const response = await fetch(`/api/news?${params}`, {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-      }
-    });
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      return {
-        success: false,
-        text: '',
-        articles: [],
-        error: errorData.error || `API error: ${response.status}`
-      };
-    }
+    const { value: data, status } = await clientResponseCache.get(
+      `NEWS?${params}`,
+      async () => {
+        const response = await fetch(`/api/news?${params}`, {
+          method: 'GET',
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json();
+          // thrown so failed lookups are never cached
+          throw new Error(errorData.error || `API error: ${response.status}`);
+        }
 
-    const data = await response.json();
+        return response.json();
+      },
+      NEWS_CACHE_POLICY
+    );
     
-    devLog(`Found news for ${symbol}`);
+    devLog(`Found news for ${symbol} (cache ${status})`);
 
     return {
       success: true,
-      text: data.text,
       articles: data.articles
     };
 
@@ -69,7 +76,6 @@ export async function fetchStockNews(symbol: string, companyName?: string): Prom
     
     return {
       success: false,
-      text: '',
       articles: [],
       error: error instanceof Error ? error.message : 'Unknown error occurred'
     };
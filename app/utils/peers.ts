@@ -0,0 +1,312 @@
+import { CompanyOverview } from './fundamentals';
+
+/**
+ * A local index of company profiles used to suggest comparison peers.
+ * Alpha Vantage has no screener, so the index starts from a seed of large
+ * US companies and grows with every `OVERVIEW` the app fetches.
+ */
+
+export type ValuationMultiple = 'peRatio' | 'pegRatio' | 'priceToBook' | 'evToEbitda';
+
+export const VALUATION_MULTIPLES: Record<ValuationMultiple, string> = {
+  peRatio: 'P/E',
+  pegRatio: 'PEG',
+  priceToBook: 'P/B',
+  evToEbitda: 'EV/EBITDA'
+};
+
+export const VALUATION_MULTIPLE_IDS = Object.keys(VALUATION_MULTIPLES) as ValuationMultiple[];
+
+export interface PeerProfile {
+  symbol: string;
+  name: string;
+  sector: string;
+  industry: string;
+  marketCap: number | null;
+  /** Only known for profiles from a live `OVERVIEW` */
+  multiples?: Record<ValuationMultiple, number | null>;
+  /** Epoch ms of the `OVERVIEW` this came from; absent for seed entries */
+  updatedAt?: number;
+}
+
+export interface SectorMedian {
+  median: number;
+  /** Peers that had a usable value */
+  count: number;
+}
+
+export interface PeerSuggestion extends PeerProfile {
+  match: 'industry' | 'sector';
+  /** Candidate market cap over the target's; null when either is unknown */
+  sizeRatio: number | null;
+}
+
+const STORAGE_KEY = 'marketmaker.peerIndex';
+
+const MAX_PROFILES = 1000;
+
+// fewer peers than this and a median says more about the peers than the sector
+const MIN_MEDIAN_PEERS = 3;
+
+const seed = (symbol: string, name: string, sector: string, industry: string, marketCapBillions: number): PeerProfile => ({
+  symbol,
+  name,
+  sector,
+  industry,
+  marketCap: marketCapBillions * 1e9
+});
+
+/**
+ * Starting universe in Alpha Vantage's sector/industry naming. Market caps
+ * are approximate and only used for ranking until a live `OVERVIEW` replaces them.
+ */
+const SEED_UNIVERSE: PeerProfile[] = [
+  seed('AAPL', 'Apple Inc', 'TECHNOLOGY', 'CONSUMER ELECTRONICS', 3400),
+  seed('SONY', 'Sony Group Corp', 'TECHNOLOGY', 'CONSUMER ELECTRONICS', 120),
+  seed('MSFT', 'Microsoft Corporation', 'TECHNOLOGY', 'SOFTWARE - INFRASTRUCTURE', 3100),
+  seed('ORCL', 'Oracle Corp', 'TECHNOLOGY', 'SOFTWARE - INFRASTRUCTURE', 450),
+  seed('ADBE', 'Adobe Inc', 'TECHNOLOGY', 'SOFTWARE - INFRASTRUCTURE', 200),
+  seed('PANW', 'Palo Alto Networks Inc', 'TECHNOLOGY', 'SOFTWARE - INFRASTRUCTURE', 120),
+  seed('CRM', 'Salesforce Inc', 'TECHNOLOGY', 'SOFTWARE - APPLICATION', 260),
+  seed('INTU', 'Intuit Inc', 'TECHNOLOGY', 'SOFTWARE - APPLICATION', 180),
+  seed('NOW', 'ServiceNow Inc', 'TECHNOLOGY', 'SOFTWARE - APPLICATION', 190),
+  seed('SHOP', 'Shopify Inc', 'TECHNOLOGY', 'SOFTWARE - APPLICATION', 130),
+  seed('NVDA', 'NVIDIA Corporation', 'TECHNOLOGY', 'SEMICONDUCTORS', 3300),
+  seed('AVGO', 'Broadcom Inc', 'TECHNOLOGY', 'SEMICONDUCTORS', 1100),
+  seed('AMD', 'Advanced Micro Devices Inc', 'TECHNOLOGY', 'SEMICONDUCTORS', 200),
+  seed('QCOM', 'Qualcomm Inc', 'TECHNOLOGY', 'SEMICONDUCTORS', 170),
+  seed('TXN', 'Texas Instruments Inc', 'TECHNOLOGY', 'SEMICONDUCTORS', 170),
+  seed('INTC', 'Intel Corporation', 'TECHNOLOGY', 'SEMICONDUCTORS', 90),
+  seed('MU', 'Micron Technology Inc', 'TECHNOLOGY', 'SEMICONDUCTORS', 110),
+  seed('IBM', 'International Business Machines', 'TECHNOLOGY', 'INFORMATION TECHNOLOGY SERVICES', 240),
+  seed('ACN', 'Accenture plc', 'TECHNOLOGY', 'INFORMATION TECHNOLOGY SERVICES', 220),
+  seed('CSCO', 'Cisco Systems Inc', 'TECHNOLOGY', 'COMMUNICATION EQUIPMENT', 240),
+  seed('GOOGL', 'Alphabet Inc Class A', 'COMMUNICATION SERVICES', 'INTERNET CONTENT & INFORMATION', 2100),
+  seed('META', 'Meta Platforms Inc', 'COMMUNICATION SERVICES', 'INTERNET CONTENT & INFORMATION', 1600),
+  seed('PINS', 'Pinterest Inc', 'COMMUNICATION SERVICES', 'INTERNET CONTENT & INFORMATION', 22),
+  seed('SNAP', 'Snap Inc', 'COMMUNICATION SERVICES', 'INTERNET CONTENT & INFORMATION', 15),
+  seed('NFLX', 'Netflix Inc', 'COMMUNICATION SERVICES', 'ENTERTAINMENT', 500),
+  seed('DIS', 'Walt Disney Co', 'COMMUNICATION SERVICES', 'ENTERTAINMENT', 200),
+  seed('WBD', 'Warner Bros Discovery Inc', 'COMMUNICATION SERVICES', 'ENTERTAINMENT', 28),
+  seed('T', 'AT&T Inc', 'COMMUNICATION SERVICES', 'TELECOM SERVICES', 190),
+  seed('VZ', 'Verizon Communications Inc', 'COMMUNICATION SERVICES', 'TELECOM SERVICES', 180),
+  seed('TMUS', 'T-Mobile US Inc', 'COMMUNICATION SERVICES', 'TELECOM SERVICES', 270),
+  seed('AMZN', 'Amazon.com Inc', 'CONSUMER CYCLICAL', 'INTERNET RETAIL', 2200),
+  seed('BABA', 'Alibaba Group Holding Ltd', 'CONSUMER CYCLICAL', 'INTERNET RETAIL', 250),
+  seed('EBAY', 'eBay Inc', 'CONSUMER CYCLICAL', 'INTERNET RETAIL', 35),
+  seed('TSLA', 'Tesla Inc', 'CONSUMER CYCLICAL', 'AUTO MANUFACTURERS', 1000),
+  seed('TM', 'Toyota Motor Corp', 'CONSUMER CYCLICAL', 'AUTO MANUFACTURERS', 250),
+  seed('GM', 'General Motors Co', 'CONSUMER CYCLICAL', 'AUTO MANUFACTURERS', 50),
+  seed('F', 'Ford Motor Co', 'CONSUMER CYCLICAL', 'AUTO MANUFACTURERS', 42),
+  seed('HD', 'Home Depot Inc', 'CONSUMER CYCLICAL', 'HOME IMPROVEMENT RETAIL', 380),
+  seed('LOW', "Lowe's Companies Inc", 'CONSUMER CYCLICAL', 'HOME IMPROVEMENT RETAIL', 140),
+  seed('MCD', "McDonald's Corp", 'CONSUMER CYCLICAL', 'RESTAURANTS', 220),
+  seed('SBUX', 'Starbucks Corp', 'CONSUMER CYCLICAL', 'RESTAURANTS', 100),
+  seed('CMG', 'Chipotle Mexican Grill Inc', 'CONSUMER CYCLICAL', 'RESTAURANTS', 70),
+  seed('NKE', 'Nike Inc', 'CONSUMER CYCLICAL', 'FOOTWEAR & ACCESSORIES', 100),
+  seed('WMT', 'Walmart Inc', 'CONSUMER DEFENSIVE', 'DISCOUNT STORES', 750),
+  seed('COST', 'Costco Wholesale Corp', 'CONSUMER DEFENSIVE', 'DISCOUNT STORES', 420),
+  seed('TGT', 'Target Corp', 'CONSUMER DEFENSIVE', 'DISCOUNT STORES', 45),
+  seed('KO', 'Coca-Cola Co', 'CONSUMER DEFENSIVE', 'BEVERAGES - NON-ALCOHOLIC', 300),
+  seed('PEP', 'PepsiCo Inc', 'CONSUMER DEFENSIVE', 'BEVERAGES - NON-ALCOHOLIC', 200),
+  seed('PG', 'Procter & Gamble Co', 'CONSUMER DEFENSIVE', 'HOUSEHOLD & PERSONAL PRODUCTS', 380),
+  seed('CL', 'Colgate-Palmolive Co', 'CONSUMER DEFENSIVE', 'HOUSEHOLD & PERSONAL PRODUCTS', 75),
+  seed('JPM', 'JPMorgan Chase & Co', 'FINANCIAL SERVICES', 'BANKS - DIVERSIFIED', 700),
+  seed('BAC', 'Bank of America Corp', 'FINANCIAL SERVICES', 'BANKS - DIVERSIFIED', 330),
+  seed('WFC', 'Wells Fargo & Co', 'FINANCIAL SERVICES', 'BANKS - DIVERSIFIED', 250),
+  seed('C', 'Citigroup Inc', 'FINANCIAL SERVICES', 'BANKS - DIVERSIFIED', 150),
+  seed('GS', 'Goldman Sachs Group Inc', 'FINANCIAL SERVICES', 'CAPITAL MARKETS', 190),
+  seed('MS', 'Morgan Stanley', 'FINANCIAL SERVICES', 'CAPITAL MARKETS', 210),
+  seed('V', 'Visa Inc', 'FINANCIAL SERVICES', 'CREDIT SERVICES', 650),
+  seed('MA', 'Mastercard Inc', 'FINANCIAL SERVICES', 'CREDIT SERVICES', 520),
+  seed('AXP', 'American Express Co', 'FINANCIAL SERVICES', 'CREDIT SERVICES', 210),
+  seed('PYPL', 'PayPal Holdings Inc', 'FINANCIAL SERVICES', 'CREDIT SERVICES', 70),
+  seed('BRK-B', 'Berkshire Hathaway Inc', 'FINANCIAL SERVICES', 'INSURANCE - DIVERSIFIED', 1000),
+  seed('JNJ', 'Johnson & Johnson', 'HEALTHCARE', 'DRUG MANUFACTURERS - GENERAL', 380),
+  seed('LLY', 'Eli Lilly and Co', 'HEALTHCARE', 'DRUG MANUFACTURERS - GENERAL', 700),
+  seed('PFE', 'Pfizer Inc', 'HEALTHCARE', 'DRUG MANUFACTURERS - GENERAL', 140),
+  seed('MRK', 'Merck & Co Inc', 'HEALTHCARE', 'DRUG MANUFACTURERS - GENERAL', 220),
+  seed('ABBV', 'AbbVie Inc', 'HEALTHCARE', 'DRUG MANUFACTURERS - GENERAL', 340),
+  seed('UNH', 'UnitedHealth Group Inc', 'HEALTHCARE', 'HEALTHCARE PLANS', 300),
+  seed('CVS', 'CVS Health Corp', 'HEALTHCARE', 'HEALTHCARE PLANS', 85),
+  seed('XOM', 'Exxon Mobil Corp', 'ENERGY', 'OIL & GAS INTEGRATED', 460),
+  seed('CVX', 'Chevron Corp', 'ENERGY', 'OIL & GAS INTEGRATED', 270),
+  seed('SHEL', 'Shell plc', 'ENERGY', 'OIL & GAS INTEGRATED', 200),
+  seed('BA', 'Boeing Co', 'INDUSTRIALS', 'AEROSPACE & DEFENSE', 140),
+  seed('LMT', 'Lockheed Martin Corp', 'INDUSTRIALS', 'AEROSPACE & DEFENSE', 110),
+  seed('RTX', 'RTX Corp', 'INDUSTRIALS', 'AEROSPACE & DEFENSE', 170),
+  seed('CAT', 'Caterpillar Inc', 'INDUSTRIALS', 'FARM & HEAVY CONSTRUCTION MACHINERY', 180),
+  seed('DE', 'Deere & Co', 'INDUSTRIALS', 'FARM & HEAVY CONSTRUCTION MACHINERY', 130),
+  seed('UPS', 'United Parcel Service Inc', 'INDUSTRIALS', 'INTEGRATED FREIGHT & LOGISTICS', 100),
+  seed('FDX', 'FedEx Corp', 'INDUSTRIALS', 'INTEGRATED FREIGHT & LOGISTICS', 60),
+  seed('NEE', 'NextEra Energy Inc', 'UTILITIES', 'UTILITIES - REGULATED ELECTRIC', 150),
+  seed('DUK', 'Duke Energy Corp', 'UTILITIES', 'UTILITIES - REGULATED ELECTRIC', 90),
+  seed('SO', 'Southern Co', 'UTILITIES', 'UTILITIES - REGULATED ELECTRIC', 100),
+  seed('PLD', 'Prologis Inc', 'REAL ESTATE', 'REIT - INDUSTRIAL', 100),
+  seed('AMT', 'American Tower Corp', 'REAL ESTATE', 'REIT - SPECIALTY', 90),
+  seed('LIN', 'Linde plc', 'BASIC MATERIALS', 'SPECIALTY CHEMICALS', 210),
+  seed('NEM', 'Newmont Corp', 'BASIC MATERIALS', 'GOLD', 60)
+];
+
+const normalize = (value: string) => value.trim().toUpperCase();
+
+export function profileFromOverview(overview: CompanyOverview): PeerProfile {
+  return {
+    symbol: overview.symbol.toUpperCase(),
+    name: overview.name,
+    sector: overview.sector,
+    industry: overview.industry,
+    marketCap: overview.marketCap,
+    multiples: {
+      peRatio: overview.peRatio,
+      pegRatio: overview.pegRatio,
+      priceToBook: overview.priceToBook,
+      evToEbitda: overview.evToEbitda
+    },
+    updatedAt: Date.now()
+  };
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Median of each valuation multiple across the other fetched companies in a
+ * sector. Non-positive values (losses, negative book) are left out, and a
+ * multiple with fewer than three usable peers has no median.
+ */
+export function sectorMedians(
+  profiles: PeerProfile[],
+  sector: string,
+  excludeSymbol: string
+): Partial<Record<ValuationMultiple, SectorMedian>> {
+  const peers = profiles.filter(profile =>
+    profile.multiples &&
+    normalize(profile.sector) === normalize(sector) &&
+    normalize(profile.symbol) !== normalize(excludeSymbol)
+  );
+
+  const medians: Partial<Record<ValuationMultiple, SectorMedian>> = {};
+  VALUATION_MULTIPLE_IDS.forEach(multiple => {
+    const values = peers
+      .map(profile => profile.multiples?.[multiple] ?? null)
+      .filter((value): value is number => value !== null && value > 0);
+
+    if (values.length >= MIN_MEDIAN_PEERS) {
+      medians[multiple] = { median: median(values), count: values.length };
+    }
+  });
+
+  return medians;
+}
+
+/**
+ * Up to `count` peers for a company: same industry first, then same sector,
+ * each ordered by how close the market cap is (on a log scale).
+ * Companies of unknown size go after those of known size.
+ */
+export function suggestPeers(
+  target: PeerProfile,
+  profiles: PeerProfile[],
+  count: number,
+  exclude: string[] = []
+): PeerSuggestion[] {
+  const excluded = new Set([target.symbol, ...exclude].map(normalize));
+  const sector = normalize(target.sector);
+  const industry = normalize(target.industry);
+  if (!sector && !industry) return [];
+
+  return profiles
+    .filter(profile => !excluded.has(normalize(profile.symbol)))
+    .map(profile => {
+      const match: PeerSuggestion['match'] | null = industry && normalize(profile.industry) === industry
+        ? 'industry'
+        : sector && normalize(profile.sector) === sector ? 'sector' : null;
+      const sizeRatio = target.marketCap && profile.marketCap ? profile.marketCap / target.marketCap : null;
+      return { ...profile, match, sizeRatio };
+    })
+    .filter((candidate): candidate is PeerSuggestion => candidate.match !== null)
+    .sort((a, b) => {
+      if (a.match !== b.match) return a.match === 'industry' ? -1 : 1;
+
+      const distanceA = a.sizeRatio === null ? Infinity : Math.abs(Math.log(a.sizeRatio));
+      const distanceB = b.sizeRatio === null ? Infinity : Math.abs(Math.log(b.sizeRatio));
+      return distanceA === distanceB ? a.symbol.localeCompare(b.symbol) : distanceA - distanceB;
+    })
+    .slice(0, count);
+}
+
+/**
+ * Company profiles seen in this browser, layered over the seed universe.
+ * Kept in localStorage so every `OVERVIEW` fetched widens the peer pool for free.
+ */
+export class PeerIndexStore {
+  private listeners = new Set<() => void>();
+
+  /**
+   * Seed entries overridden by anything fetched since
+   */
+  getProfiles(): PeerProfile[] {
+    const profiles = new Map(SEED_UNIVERSE.map(profile => [profile.symbol, profile]));
+    Object.values(this.read()).forEach(profile => profiles.set(profile.symbol, profile));
+    return Array.from(profiles.values());
+  }
+
+  getProfile(symbol: string): PeerProfile | undefined {
+    const key = normalize(symbol);
+    return this.read()[key] ?? SEED_UNIVERSE.find(profile => profile.symbol === key);
+  }
+
+  record(overview: CompanyOverview) {
+    // without a classification the profile can't be matched to anything
+    if (!overview.sector && !overview.industry) return;
+
+    const profile = profileFromOverview(overview);
+    const index = this.read();
+    index[profile.symbol] = profile;
+
+    // drop the oldest fetched profiles past the cap
+    const kept = Object.values(index)
+      .sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0))
+      .slice(0, MAX_PROFILES);
+
+    this.write(Object.fromEntries(kept.map(item => [item.symbol, item])));
+    this.notify();
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private read(): Record<string, PeerProfile> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+      return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private write(index: Record<string, PeerProfile>) {
+    if (typeof window === 'undefined') return;
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(index));
+    } catch {
+      // storage full or disabled - suggestions fall back to the seed
+    }
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+export const peerIndex = new PeerIndexStore();
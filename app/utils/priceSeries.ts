@@ -0,0 +1,194 @@
+import { fetchMarketData } from './marketApi';
+import { MarketApiError } from './alphaVantage';
+
+export interface PriceBar {
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Split- and dividend-adjusted close; equals `close` when no adjustment data is available */
+  adjustedClose: number;
+  volume: number;
+  dividend: number;
+}
+
+export interface PriceHistory {
+  /** Daily bars with adjusted closes filled in from the monthly series */
+  daily: PriceBar[];
+  monthly: PriceBar[];
+  /** Only the last 100 days were available for the daily series */
+  dailyIsCompact: boolean;
+}
+
+export type PriceRange = '1M' | '6M' | '1Y' | '5Y' | 'MAX';
+
+export const PRICE_RANGES: PriceRange[] = ['1M', '6M', '1Y', '5Y', 'MAX'];
+
+const RANGE_MONTHS: Record<PriceRange, number | null> = {
+  '1M': 1,
+  '6M': 6,
+  '1Y': 12,
+  '5Y': 60,
+  'MAX': null
+};
+
+const parseSeries = (series: Record<string, any> | undefined, adjusted: boolean): PriceBar[] =>
+  Object.entries(series || {})
+    .map(([date, values]) => {
+      const close = parseFloat(values['4. close']);
+
+      return {
+        date,
+        open: parseFloat(values['1. open']),
+        high: parseFloat(values['2. high']),
+        low: parseFloat(values['3. low']),
+        close,
+        adjustedClose: adjusted ? parseFloat(values['5. adjusted close']) : close,
+        volume: parseFloat(adjusted ? values['6. volume'] : values['5. volume']) || 0,
+        dividend: adjusted ? parseFloat(values['7. dividend amount']) || 0 : 0
+      };
+    })
+    .filter(bar => Number.isFinite(bar.close))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
+/**
+ * Parse a TIME_SERIES_DAILY response into ascending bars
+ */
+export function parseDailySeries(response: any): PriceBar[] {
+  return parseSeries(response?.['Time Series (Daily)'], false);
+}
+
+/**
+ * Parse a TIME_SERIES_MONTHLY_ADJUSTED response into ascending bars
+ */
+export function parseMonthlyAdjustedSeries(response: any): PriceBar[] {
+  return parseSeries(response?.['Monthly Adjusted Time Series'], true);
+}
+
+/**
+ * Fill in adjusted closes for daily bars from the monthly adjusted series.
+ * Each day takes its month's adjustment factor, which is exact except for
+ * the days before a split or ex-dividend date within that same month.
+ */
+export function applyMonthlyAdjustment(daily: PriceBar[], monthly: PriceBar[]): PriceBar[] {
+  const factorByMonth = new Map<string, number>();
+  monthly.forEach(bar => {
+    if (bar.close > 0) {
+      factorByMonth.set(bar.date.substring(0, 7), bar.adjustedClose / bar.close);
+    }
+  });
+
+  return daily.map(bar => {
+    const factor = factorByMonth.get(bar.date.substring(0, 7)) ?? 1;
+    return { ...bar, adjustedClose: bar.close * factor };
+  });
+}
+
+/**
+ * Scale a bar's OHLC onto the adjusted price basis
+ */
+export function toAdjustedBar(bar: PriceBar): PriceBar {
+  const factor = bar.close > 0 ? bar.adjustedClose / bar.close : 1;
+
+  return {
+    ...bar,
+    open: bar.open * factor,
+    high: bar.high * factor,
+    low: bar.low * factor,
+    close: bar.adjustedClose
+  };
+}
+
+/**
+ * Keep the bars that fall within the range, measured back from the latest bar
+ */
+export function sliceToRange(bars: PriceBar[], range: PriceRange): PriceBar[] {
+  const months = RANGE_MONTHS[range];
+  if (months === null || bars.length === 0) return bars;
+
+  const start = new Date(bars[bars.length - 1].date);
+  start.setMonth(start.getMonth() - months);
+  const startDate = start.toISOString().substring(0, 10);
+
+  return bars.filter(bar => bar.date >= startDate);
+}
+
+/**
+ * Whether a range is long enough that monthly bars read better than daily ones
+ */
+export function usesMonthlyBars(range: PriceRange): boolean {
+  return range === '5Y' || range === 'MAX';
+}
+
+// set when this key was refused full daily history, so later loads skip straight to compact;
+// rechecked after a week in case the key has been upgraded
+const FULL_DAILY_PREMIUM_KEY = 'marketmaker.fullDailyPremiumOnly';
+const FULL_DAILY_RECHECK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const fullDailyRefused = () => {
+  if (typeof window === 'undefined') return false;
+
+  try {
+    const refusedAt = Number(window.localStorage.getItem(FULL_DAILY_PREMIUM_KEY));
+    return refusedAt > 0 && Date.now() - refusedAt < FULL_DAILY_RECHECK_MS;
+  } catch {
+    return false;
+  }
+};
+
+const rememberFullDailyRefused = () => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(FULL_DAILY_PREMIUM_KEY, String(Date.now()));
+  } catch {
+    // storage full or disabled: the next load just asks again
+  }
+};
+
+const fetchDailySeries = async (symbol: string) => {
+  const fetchCompact = async () => ({ response: await fetchMarketData('TIME_SERIES_DAILY', { symbol }), compact: true });
+
+  if (fullDailyRefused()) return fetchCompact();
+
+  try {
+    return { response: await fetchMarketData('TIME_SERIES_DAILY', { symbol, outputsize: 'full' }), compact: false };
+  } catch (err) {
+    // full daily history is premium-only on some keys; the last 100 days are always free
+    if (err instanceof MarketApiError && err.code === 'PREMIUM_ONLY') {
+      rememberFullDailyRefused();
+      return fetchCompact();
+    }
+    throw err;
+  }
+};
+
+/**
+ * Load daily and monthly adjusted bars for a ticker. Either series may be
+ * empty if its request failed; throws only when neither is available.
+ */
+export async function loadPriceHistory(symbol: string): Promise<PriceHistory> {
+  const [dailyResult, monthlyResult] = await Promise.allSettled([
+    fetchDailySeries(symbol),
+    fetchMarketData('TIME_SERIES_MONTHLY_ADJUSTED', { symbol })
+  ]);
+
+  const monthly = monthlyResult.status === 'fulfilled'
+    ? parseMonthlyAdjustedSeries(monthlyResult.value)
+    : [];
+  const daily = dailyResult.status === 'fulfilled'
+    ? applyMonthlyAdjustment(parseDailySeries(dailyResult.value.response), monthly)
+    : [];
+
+  if (daily.length === 0 && monthly.length === 0) {
+    const reason = dailyResult.status === 'rejected' ? dailyResult.reason : null;
+    throw reason instanceof Error ? reason : new Error('No price data available for this ticker');
+  }
+
+  return {
+    daily,
+    monthly,
+    dailyIsCompact: dailyResult.status === 'fulfilled' && dailyResult.value.compact
+  };
+}
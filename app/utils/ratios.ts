@@ -0,0 +1,122 @@
+import { parseNumber, reportFreeCashFlow, statementReports } from './fundamentals';
+
+/**
+ * Margin, return and efficiency ratios from the annual income statement,
+ * balance sheet and cash flow, joined on `fiscalDateEnding`.
+ */
+
+export type RatioId =
+  | 'grossMargin'
+  | 'operatingMargin'
+  | 'netMargin'
+  | 'fcfMargin'
+  | 'roe'
+  | 'roa'
+  | 'roic'
+  | 'assetTurnover'
+  | 'interestCoverage';
+
+export type RatioGroup = 'margins' | 'returns' | 'efficiency';
+
+export const RATIO_GROUPS: RatioGroup[] = ['margins', 'returns', 'efficiency'];
+
+export const RATIOS: Record<RatioId, { label: string; group: RatioGroup; unit: '%' | 'x'; description: string }> = {
+  grossMargin: { label: 'Gross Margin', group: 'margins', unit: '%', description: 'Gross profit over revenue' },
+  operatingMargin: { label: 'Operating Margin', group: 'margins', unit: '%', description: 'Operating income over revenue' },
+  netMargin: { label: 'Net Margin', group: 'margins', unit: '%', description: 'Net income over revenue' },
+  fcfMargin: { label: 'FCF Margin', group: 'margins', unit: '%', description: 'Operating cash flow less capex, over revenue' },
+  roe: { label: 'ROE', group: 'returns', unit: '%', description: 'Net income over average shareholder equity' },
+  roa: { label: 'ROA', group: 'returns', unit: '%', description: 'Net income over average total assets' },
+  roic: { label: 'ROIC', group: 'returns', unit: '%', description: 'After-tax operating income over average equity plus debt less cash' },
+  assetTurnover: { label: 'Asset Turnover', group: 'efficiency', unit: 'x', description: 'Revenue over average total assets' },
+  interestCoverage: { label: 'Interest Coverage', group: 'efficiency', unit: 'x', description: 'EBIT over interest expense' }
+};
+
+export const RATIO_IDS = Object.keys(RATIOS) as RatioId[];
+
+export interface RatioYear {
+  year: string;
+  fiscalDateEnding: string;
+  ratios: Record<RatioId, number | null>;
+}
+
+// used when the effective rate can't be worked out or is implausible
+const FALLBACK_TAX_RATE = 0.21;
+
+const MAX_YEARS = 10;
+
+const ratio = (numerator: number | null, denominator: number | null, scale = 100) =>
+  numerator === null || denominator === null || denominator === 0 ? null : (numerator / denominator) * scale;
+
+/**
+ * Mean of the opening and closing balance; the closing one alone for the first year
+ */
+const averageBalance = (closing: number | null, opening: number | null) =>
+  closing === null ? null : opening === null ? closing : (closing + opening) / 2;
+
+const totalDebt = (report: Record<string, string> | undefined) => {
+  if (!report) return null;
+  return parseNumber(report.shortLongTermDebtTotal)
+    ?? (parseNumber(report.longTermDebt) ?? 0) + (parseNumber(report.shortTermDebt) ?? 0);
+};
+
+const investedCapital = (report: Record<string, string> | undefined) => {
+  const equity = parseNumber(report?.totalShareholderEquity);
+  if (!report || equity === null) return null;
+  return equity + (totalDebt(report) ?? 0) - (parseNumber(report.cashAndCashEquivalentsAtCarryingValue) ?? 0);
+};
+
+const effectiveTaxRate = (report: Record<string, string>) => {
+  const rate = ratio(parseNumber(report.incomeTaxExpense), parseNumber(report.incomeBeforeTax), 1);
+  return rate === null || rate < 0 || rate > 0.5 ? FALLBACK_TAX_RATE : rate;
+};
+
+/**
+ * Ratios for the latest ten fiscal years with an income statement, oldest
+ * first. Balance-sheet ratios use the average of the opening and closing balance.
+ */
+export function buildRatioHistory(incomeStatement: any, balanceSheet?: any, cashFlow?: any): RatioYear[] {
+  const balances = statementReports(balanceSheet, 'annual');
+  const balanceByDate = new Map(balances.map(report => [report.fiscalDateEnding, report]));
+  const cashFlowByDate = new Map(statementReports(cashFlow, 'annual').map(report => [report.fiscalDateEnding, report]));
+
+  // the opening balance is the previous report's closing one
+  const openingByDate = new Map(balances.slice(1).map((report, index) => [report.fiscalDateEnding, balances[index]]));
+
+  return statementReports(incomeStatement, 'annual').slice(-MAX_YEARS).map(report => {
+    const revenue = parseNumber(report.totalRevenue);
+    const operatingIncome = parseNumber(report.operatingIncome);
+    const netIncome = parseNumber(report.netIncome);
+    const interestExpense = parseNumber(report.interestExpense);
+
+    const closing = balanceByDate.get(report.fiscalDateEnding);
+    const opening = openingByDate.get(report.fiscalDateEnding);
+    const averageOf = (field: string) => averageBalance(parseNumber(closing?.[field]), parseNumber(opening?.[field]));
+    const averageAssets = averageOf('totalAssets');
+    const averageEquity = averageOf('totalShareholderEquity');
+    const averageInvestedCapital = averageBalance(investedCapital(closing), investedCapital(opening));
+
+    const freeCashFlow = reportFreeCashFlow(cashFlowByDate.get(report.fiscalDateEnding));
+
+    const nopat = operatingIncome === null ? null : operatingIncome * (1 - effectiveTaxRate(report));
+
+    return {
+      year: report.fiscalDateEnding.substring(0, 4),
+      fiscalDateEnding: report.fiscalDateEnding,
+      ratios: {
+        grossMargin: ratio(parseNumber(report.grossProfit), revenue),
+        operatingMargin: ratio(operatingIncome, revenue),
+        netMargin: ratio(netIncome, revenue),
+        fcfMargin: ratio(freeCashFlow, revenue),
+        // negative equity or capital makes a return meaningless
+        roe: averageEquity !== null && averageEquity > 0 ? ratio(netIncome, averageEquity) : null,
+        roa: ratio(netIncome, averageAssets),
+        roic: averageInvestedCapital !== null && averageInvestedCapital > 0 ? ratio(nopat, averageInvestedCapital) : null,
+        assetTurnover: ratio(revenue, averageAssets, 1),
+        interestCoverage: interestExpense !== null && interestExpense > 0
+          ? ratio(parseNumber(report.ebit) ?? operatingIncome, interestExpense, 1)
+          : null
+      }
+    };
+  });
+}
@@ -0,0 +1,282 @@
+import { MarketApiError } from './alphaVantage';
+
+/**
+ * Lower runs first: charts on screen beat background refreshes,
+ * and autocomplete only gets whatever budget is left
+ */
+export type RequestPriority = 'visible' | 'background' | 'autocomplete';
+
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  visible: 0,
+  background: 1,
+  autocomplete: 2
+};
+
+const MINUTE_WINDOW = 60 * 1000;
+const STORAGE_KEY = 'marketmaker.alphaVantageUsage';
+
+export interface QuotaStatus {
+  perMinuteLimit: number;
+  perDayLimit: number;
+  usedThisMinute: number;
+  usedToday: number;
+  remainingToday: number;
+  queued: number;
+  /** Epoch ms when the per-minute window frees up again, if currently throttled */
+  throttledUntil: number | null;
+}
+
+interface SchedulerOptions {
+  perMinute: number;
+  perDay: number;
+  maxRetries: number;
+}
+
+/**
+ * Passed to each task so it can give its slot back when the call
+ * never reached Alpha Vantage (e.g. answered from the server cache)
+ */
+export type RefundSlot = () => void;
+
+interface QueuedRequest {
+  run: (refund: RefundSlot) => Promise<unknown>;
+  priority: RequestPriority;
+  sequence: number;
+  attempts: number;
+  resolve: (value: any) => void;
+  reject: (error: unknown) => void;
+}
+
+interface DailyUsage {
+  date: string;
+  count: number;
+}
+
+const todayUtc = () => new Date().toISOString().substring(0, 10);
+
+/**
+ * Central queue for Alpha Vantage calls that keeps within the per-minute
+ * and per-day budget, runs calls by priority and retries throttled calls
+ * once the minute window resets.
+ * The daily count is kept in localStorage so it survives reloads.
+ */
+export class RequestScheduler {
+  private queue: QueuedRequest[] = [];
+  private callTimestamps: number[] = [];
+  private sequence = 0;
+  private throttledUntil: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<(status: QuotaStatus) => void>();
+
+  constructor(private options: SchedulerOptions) {}
+
+  schedule<T>(run: (refund: RefundSlot) => Promise<T>, priority: RequestPriority = 'visible'): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      // suggestions are useless once stale, so never queue them behind a throttle
+      if (priority === 'autocomplete' && !this.hasCapacity()) {
+        reject(this.budgetError());
+        return;
+      }
+
+      this.queue.push({
+        run,
+        priority,
+        sequence: this.sequence++,
+        attempts: 0,
+        resolve,
+        reject
+      });
+      this.pump();
+    });
+  }
+
+  getStatus(): QuotaStatus {
+    this.pruneWindow();
+    const usedToday = this.readDailyUsage().count;
+
+    return {
+      perMinuteLimit: this.options.perMinute,
+      perDayLimit: this.options.perDay,
+      usedThisMinute: this.callTimestamps.length,
+      usedToday,
+      remainingToday: Math.max(0, this.options.perDay - usedToday),
+      queued: this.queue.length,
+      throttledUntil: this.throttledUntil && this.throttledUntil > Date.now() ? this.throttledUntil : null
+    };
+  }
+
+  subscribe(listener: (status: QuotaStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private pump() {
+    if (this.timer) return;
+
+    while (this.queue.length > 0) {
+      if (this.readDailyUsage().count >= this.options.perDay) {
+        const error = this.budgetError();
+        this.queue.splice(0).forEach(request => request.reject(error));
+        break;
+      }
+
+      const waitMs = this.msUntilSlot();
+      if (waitMs > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = null;
+          this.pump();
+        }, waitMs);
+        break;
+      }
+
+      this.queue.sort((a, b) =>
+        PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.sequence - b.sequence
+      );
+      this.execute(this.queue.shift()!);
+    }
+
+    this.notify();
+  }
+
+  private execute(request: QueuedRequest) {
+    const startedAt = Date.now();
+    this.callTimestamps.push(startedAt);
+    this.incrementDailyUsage(1);
+
+    let refunded = false;
+    const refund = () => {
+      if (refunded) return;
+      refunded = true;
+      const index = this.callTimestamps.indexOf(startedAt);
+      if (index >= 0) {
+        this.callTimestamps.splice(index, 1);
+      }
+      this.incrementDailyUsage(-1);
+      this.notify();
+    };
+
+    request.run(refund).then(request.resolve, error => {
+      if (!(error instanceof MarketApiError) || error.code !== 'RATE_LIMITED') {
+        request.reject(error);
+        return;
+      }
+
+      // the per-minute Note also quotes the daily figure, so only a message without it means the day is over
+      if (/per day|daily/i.test(error.message) && !/per minute/i.test(error.message)) {
+        // Alpha Vantage says the day is spent, whatever our own count thinks
+        this.setDailyUsage(this.options.perDay);
+        request.reject(this.budgetError());
+        this.pump();
+        return;
+      }
+
+      if (request.priority === 'autocomplete' || request.attempts >= this.options.maxRetries) {
+        request.reject(error);
+        return;
+      }
+
+      // per-minute throttle: the call didn't count, wait for the window to reset and try again
+      refund();
+      request.attempts += 1;
+      this.throttledUntil = Date.now() + MINUTE_WINDOW;
+      this.queue.push(request);
+      this.pump();
+    });
+
+    this.notify();
+  }
+
+  private hasCapacity(): boolean {
+    return this.readDailyUsage().count < this.options.perDay && this.msUntilSlot() === 0;
+  }
+
+  private msUntilSlot(): number {
+    const now = Date.now();
+    this.pruneWindow();
+
+    if (this.throttledUntil && this.throttledUntil > now) {
+      return this.throttledUntil - now;
+    }
+    this.throttledUntil = null;
+
+    if (this.callTimestamps.length < this.options.perMinute) {
+      return 0;
+    }
+
+    return this.callTimestamps[0] + MINUTE_WINDOW - now;
+  }
+
+  private pruneWindow() {
+    const cutoff = Date.now() - MINUTE_WINDOW;
+    this.callTimestamps = this.callTimestamps.filter(timestamp => timestamp > cutoff);
+  }
+
+  private budgetError(): MarketApiError {
+    if (this.readDailyUsage().count >= this.options.perDay) {
+      return new MarketApiError(
+        `Daily Alpha Vantage limit of ${this.options.perDay} calls reached. The quota resets at midnight UTC.`,
+        'RATE_LIMITED',
+        429
+      );
+    }
+
+    const seconds = Math.ceil(this.msUntilSlot() / 1000);
+    return new MarketApiError(
+      `Alpha Vantage allows ${this.options.perMinute} calls per minute. Try again in ${seconds}s.`,
+      'RATE_LIMITED',
+      429
+    );
+  }
+
+  private readDailyUsage(): DailyUsage {
+    const today = todayUtc();
+
+    if (typeof window === 'undefined') {
+      return { date: today, count: 0 };
+    }
+
+    try {
+      const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null') as DailyUsage | null;
+      return stored && stored.date === today ? stored : { date: today, count: 0 };
+    } catch {
+      return { date: today, count: 0 };
+    }
+  }
+
+  private setDailyUsage(count: number) {
+    if (typeof window === 'undefined') return;
+
+    const usage: DailyUsage = { date: todayUtc(), count: Math.max(0, count) };
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(usage));
+    } catch {
+      // storage full or disabled - the in-session window still applies
+    }
+  }
+
+  private incrementDailyUsage(delta: number) {
+    this.setDailyUsage(this.readDailyUsage().count + delta);
+  }
+
+  private notify() {
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+const readLimit = (value: string | undefined, fallback: number) => {
+  const parsed = parseInt(value || '', 10);
+  return parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Shared scheduler for every Alpha Vantage call made from the browser.
+ * Defaults match the free tier; raise them for a premium key.
+ */
+export const marketScheduler = new RequestScheduler({
+  perMinute: readLimit(process.env.NEXT_PUBLIC_ALPHA_VANTAGE_CALLS_PER_MINUTE, 5),
+  perDay: readLimit(process.env.NEXT_PUBLIC_ALPHA_VANTAGE_CALLS_PER_DAY, 25),
+  maxRetries: 2
+});
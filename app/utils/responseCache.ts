@@ -0,0 +1,134 @@
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'coalesced';
+
+export interface CachePolicy {
+  /** How long a response is served as fresh (ms) */
+  ttl: number;
+  /** How long after `ttl` a response is still served while it refreshes in the background (ms) */
+  staleWhileRevalidate: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  stale: number;
+  misses: number;
+  coalesced: number;
+}
+
+export interface CacheResult<T> {
+  value: T;
+  status: CacheStatus;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+export const MINUTE = 60 * 1000;
+export const HOUR = 60 * MINUTE;
+export const DAY = 24 * HOUR;
+
+/**
+ * In-memory response cache with per-call TTLs, in-flight request
+ * coalescing and stale-while-revalidate.
+ * Failed loads are never cached, so the next call simply retries.
+ */
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private stats: CacheStats = { hits: 0, stale: 0, misses: 0, coalesced: 0 };
+  private listeners = new Set<(stats: CacheStats) => void>();
+
+  constructor(private maxEntries = 200) {}
+
+  async get<T>(key: string, loader: () => Promise<T>, policy: CachePolicy): Promise<CacheResult<T>> {
+    const now = Date.now();
+    const entry = this.entries.get(key);
+
+    if (entry && now < entry.expiresAt) {
+      this.record('hits');
+      return { value: entry.value as T, status: 'hit' };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.record('stale');
+      // refresh in the background; the stale value keeps serving if it fails
+      this.load(key, loader, policy).catch(() => undefined);
+      return { value: entry.value as T, status: 'stale' };
+    }
+
+    const pending = this.inFlight.get(key);
+
+    if (pending) {
+      this.record('coalesced');
+      return { value: (await pending) as T, status: 'coalesced' };
+    }
+
+    this.record('misses');
+    return { value: await this.load(key, loader, policy), status: 'miss' };
+  }
+
+  getStats(): CacheStats {
+    return { ...this.stats };
+  }
+
+  subscribe(listener: (stats: CacheStats) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+
+  private load<T>(key: string, loader: () => Promise<T>, policy: CachePolicy): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = loader()
+      .then(value => {
+        this.store(key, value, policy);
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private store(key: string, value: unknown, policy: CachePolicy) {
+    const now = Date.now();
+
+    // re-insert so Map order doubles as least-recently-stored eviction order
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      expiresAt: now + policy.ttl,
+      staleUntil: now + policy.ttl + policy.staleWhileRevalidate
+    });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  private record(stat: keyof CacheStats) {
+    this.stats[stat] += 1;
+    const snapshot = this.getStats();
+    this.listeners.forEach(listener => listener(snapshot));
+  }
+}
+
+/**
+ * Browser-side cache shared by the market data and news fetchers
+ */
+export const clientResponseCache = new ResponseCache();
@@ -0,0 +1,328 @@
+import axios from 'axios';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+export interface SentimentProbabilities {
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+/**
+ * Raw response from the sentiment backend's `/api/analyze`
+ */
+export interface AnalyzeApiResponse {
+  text: string;
+  predictions: Array<{
+    label: string;
+    score: number;
+  }>;
+  model: string;
+  source?: string;
+  note?: string;
+  /** Optional per-token attributions; positive values push towards positive sentiment */
+  attributions?: Array<{
+    token?: string;
+    text?: string;
+    score?: number;
+    weight?: number;
+    start?: number;
+    end?: number;
+  }>;
+}
+
+/**
+ * How much a span of the input pushed the score, positive towards positive sentiment
+ */
+export interface Attribution {
+  start: number;
+  end: number;
+  text: string;
+  weight: number;
+}
+
+export interface SentimentScore {
+  sentiment: SentimentLabel;
+  confidence: number;
+  probabilities: SentimentProbabilities;
+  model?: string;
+  /** Set when the chosen provider failed and the offline lexicon scored the text instead */
+  fallback?: {
+    provider: string;
+    reason: string;
+  };
+  attributions?: Attribution[];
+}
+
+export interface WeightedItem {
+  score: SentimentScore;
+  /** ISO timestamp the text was published; undated items get no recency decay */
+  publishedAt?: string;
+}
+
+export interface AggregateSentiment extends SentimentScore {
+  /** Normalized weight of each item in the aggregate, in input order */
+  weights: number[];
+}
+
+export const SENTIMENT_LABELS: SentimentLabel[] = ['positive', 'neutral', 'negative'];
+
+// an article loses half its weight for every day it ages
+const RECENCY_HALF_LIFE_HOURS = 24;
+
+/**
+ * Net sentiment in [-1, 1]: positive minus negative probability
+ */
+export const netSentiment = (probabilities: SentimentProbabilities) =>
+  probabilities.positive - probabilities.negative;
+
+export const getSentimentApiUrl = () =>
+  process.env.NODE_ENV === 'development'
+    ? 'http://localhost:5000'
+    : process.env.NEXT_PUBLIC_API_URL;
+
+/**
+ * Map the backend's label/score pairs onto positive/neutral/negative
+ */
+export function toProbabilities(predictions: AnalyzeApiResponse['predictions']): SentimentProbabilities {
+  const probabilities: SentimentProbabilities = {
+    positive: 0,
+    neutral: 0,
+    negative: 0
+  };
+
+  predictions.forEach(pred => {
+    const label = pred.label.toLowerCase();
+    if (label.includes('positive') || label.includes('pos')) {
+      probabilities.positive = pred.score;
+    } else if (label.includes('negative') || label.includes('neg')) {
+      probabilities.negative = pred.score;
+    } else if (label.includes('neutral') || label.includes('neu')) {
+      probabilities.neutral = pred.score;
+    }
+  });
+
+  return probabilities;
+}
+
+/**
+ * Pick the most likely label; ties favour positive, then negative, over neutral
+ */
+export function toScore(probabilities: SentimentProbabilities, model?: string): SentimentScore {
+  const maxProb = Math.max(probabilities.positive, probabilities.neutral, probabilities.negative);
+  let sentiment: SentimentLabel = 'neutral';
+
+  if (probabilities.positive === maxProb) {
+    sentiment = 'positive';
+  } else if (probabilities.negative === maxProb) {
+    sentiment = 'negative';
+  }
+
+  return {
+    sentiment,
+    confidence: maxProb,
+    probabilities,
+    model
+  };
+}
+
+/**
+ * Map backend attributions onto character spans of the text. Tokens
+ * without offsets are located in order, so repeated words line up.
+ */
+export function parseAttributions(text: string, raw: AnalyzeApiResponse['attributions']): Attribution[] | undefined {
+  if (!Array.isArray(raw) || raw.length === 0) return undefined;
+
+  const attributions: Attribution[] = [];
+  let cursor = 0;
+
+  raw.forEach(item => {
+    const token = (item.token ?? item.text ?? '').replace(/^##|^Ġ|^▁/, '');
+    const weight = item.weight ?? item.score;
+    if (!token || typeof weight !== 'number' || !Number.isFinite(weight)) return;
+
+    const start = typeof item.start === 'number' ? item.start : text.toLowerCase().indexOf(token.toLowerCase(), cursor);
+    if (start < 0) return;
+    const end = typeof item.end === 'number' ? item.end : start + token.length;
+
+    attributions.push({ start, end, text: text.slice(start, end), weight });
+    cursor = end;
+  });
+
+  return attributions.length > 0 ? attributions : undefined;
+}
+
+/**
+ * POST a text to an endpoint that answers in the `/api/analyze` shape
+ */
+export async function requestAnalysis(url: string, text: string, timeout: number): Promise<SentimentScore> {
+  const response = await axios.post<AnalyzeApiResponse & { error?: string }>(url, {
+    text
+  }, {
+    timeout,
+    headers: {
+      'Content-Type': 'application/json',
+    }
+  });
+
+  if (response.data.error) {
+    throw new Error(response.data.error);
+  }
+
+  if (!response.data.predictions) {
+    throw new Error('No predictions received from API');
+  }
+
+  return {
+    ...toScore(toProbabilities(response.data.predictions), response.data.model),
+    attributions: parseAttributions(text, response.data.attributions)
+  };
+}
+
+/**
+ * Score a single text with the FinBERT sentiment backend
+ */
+export async function analyzeText(text: string, timeout = 15000): Promise<SentimentScore> {
+  return requestAnalysis(`${getSentimentApiUrl()}/api/analyze`, text, timeout);
+}
+
+/**
+ * Turn an axios or generic error into a message for the user
+ */
+export function getSentimentErrorMessage(err: unknown, fallback: string): string {
+  if (err && typeof err === 'object') {
+    if ('response' in err) {
+      const axiosError = err as { response?: { data?: { error?: string } }; message?: string };
+      if (axiosError.response?.data?.error) {
+        return axiosError.response.data.error;
+      } else if (axiosError.message?.includes('timeout')) {
+        return 'Request timed out. Please try again.';
+      } else if (axiosError.message?.includes('Network Error')) {
+        return 'Network error. Please check your connection and try again.';
+      }
+    } else if ('message' in err) {
+      return (err as { message: string }).message;
+    }
+  }
+
+  return fallback;
+}
+
+/**
+ * Every model behind a set of scores, most-used first, e.g.
+ * "finbert (7) + lexicon-lm fallback (3)". Scores that don't name their model
+ * count as `defaultModel`.
+ */
+const describeModels = (scores: SentimentScore[], defaultModel?: string): string | undefined => {
+  const counts = new Map<string, number>();
+  scores.forEach(score => {
+    const model = score.model || defaultModel;
+    if (!model) return;
+
+    const name = score.fallback ? `${model} fallback` : model;
+    counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+
+  const names = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+  if (names.length <= 1) return names[0]?.[0];
+  return names.map(([name, count]) => `${name} (${count})`).join(' + ');
+};
+
+/**
+ * Weighted average of several scores. Each item is weighted by the
+ * model's confidence and by how recently it was published.
+ */
+export function aggregateSentiment(
+  items: WeightedItem[],
+  { now = Date.now(), defaultModel }: { now?: number; defaultModel?: string } = {}
+): AggregateSentiment {
+  const rawWeights = items.map(({ score, publishedAt }) => {
+    const published = publishedAt ? Date.parse(publishedAt) : NaN;
+    const ageHours = Number.isFinite(published) ? Math.max(0, (now - published) / 3_600_000) : 0;
+    return score.confidence * Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+  });
+
+  const total = rawWeights.reduce((sum, weight) => sum + weight, 0);
+  // everything weighted to zero (e.g. zero confidence) falls back to a plain average
+  const weights = total > 0
+    ? rawWeights.map(weight => weight / total)
+    : items.map(() => 1 / Math.max(1, items.length));
+
+  const probabilities: SentimentProbabilities = { positive: 0, neutral: 0, negative: 0 };
+  items.forEach(({ score }, index) => {
+    SENTIMENT_LABELS.forEach(label => {
+      probabilities[label] += score.probabilities[label] * weights[index];
+    });
+  });
+
+  return {
+    ...toScore(probabilities, describeModels(items.map(({ score }) => score), defaultModel)),
+    weights
+  };
+}
+
+// keys checked, in order, when a pasted JSON post is an object
+export const POST_TEXT_KEYS = ['text', 'body', 'selftext', 'title', 'content', 'message'];
+
+/**
+ * Split pasted input into posts. A JSON array (of strings or objects with
+ * a text-like field) is read as-is; anything else is one post per line.
+ */
+export function parsePostsInput(input: string): string[] {
+  const trimmed = input.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) {
+        return parsed
+          .map(item => {
+            if (typeof item === 'string') return item;
+            if (item && typeof item === 'object') {
+              const key = POST_TEXT_KEYS.find(candidate => typeof item[candidate] === 'string' && item[candidate].trim());
+              return key ? item[key] : '';
+            }
+            return '';
+          })
+          .map(text => text.trim())
+          .filter(Boolean);
+      }
+    } catch {
+      // not valid JSON - fall through and treat it as lines
+    }
+  }
+
+  return trimmed
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Score many texts with at most `concurrency` requests in flight.
+ * `onResult` fires as each text finishes so callers can show progress.
+ */
+export async function scoreTexts(
+  texts: string[],
+  onResult: (index: number, result: { score?: SentimentScore; error?: string }) => void,
+  {
+    analyze = (text: string) => analyzeText(text, 30000),
+    concurrency = 3
+  }: { analyze?: (text: string) => Promise<SentimentScore>; concurrency?: number } = {}
+): Promise<void> {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < texts.length) {
+      const index = next++;
+      try {
+        onResult(index, { score: await analyze(texts[index]) });
+      } catch (err) {
+        onResult(index, { error: getSentimentErrorMessage(err, 'Failed to analyze sentiment') });
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, texts.length) }, worker));
+}
@@ -0,0 +1,208 @@
+import { PriceBar } from './priceSeries';
+import { SentimentHistoryArticle, SentimentHistoryEntry } from './sentimentHistory';
+import { netSentiment } from './sentiment';
+
+export type ReturnHorizon = 1 | 5 | 20;
+
+export const RETURN_HORIZONS: ReturnHorizon[] = [1, 5, 20];
+
+export interface DailySentiment {
+  /** Trading date the news is attributed to (YYYY-MM-DD) */
+  date: string;
+  /** Confidence-weighted net sentiment in [-1, 1] */
+  score: number;
+  articleCount: number;
+}
+
+export interface SentimentReturnPoint {
+  date: string;
+  score: number;
+  /** Forward return as a fraction, e.g. 0.012 for +1.2% */
+  forwardReturn: number;
+}
+
+export interface EventStudy {
+  /** Trading days relative to the event, e.g. -5 … +5 */
+  offsets: number[];
+  /** Average cumulative return from the event day's close, per offset */
+  positive: Array<number | null>;
+  negative: Array<number | null>;
+  positiveCount: number;
+  negativeCount: number;
+}
+
+/**
+ * Unique articles across every saved analysis of a ticker; the same
+ * article re-scored later keeps its most recent score
+ */
+export function collectArticles(entries: SentimentHistoryEntry[]): SentimentHistoryArticle[] {
+  const byUrl = new Map<string, SentimentHistoryArticle>();
+  entries.forEach(entry => {
+    entry.articles.forEach(article => byUrl.set(article.url, article));
+  });
+  return Array.from(byUrl.values());
+}
+
+// US equities close at 16:00 New York time
+const MARKET_TIME_ZONE = 'America/New_York';
+const MARKET_CLOSE_MINUTES = 16 * 60;
+
+const marketClock = new Intl.DateTimeFormat('en-CA', {
+  timeZone: MARKET_TIME_ZONE,
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+/**
+ * New York calendar date of a publish time, and whether it came after that
+ * day's close. A bare date is taken as published during the session.
+ */
+const toMarketTime = (publishedAt: string): { date: string; afterClose: boolean } => {
+  const time = new Date(publishedAt);
+  if (publishedAt.length <= 10 || isNaN(time.getTime())) {
+    return { date: publishedAt.substring(0, 10), afterClose: false };
+  }
+
+  const parts = Object.fromEntries(marketClock.formatToParts(time).map(part => [part.type, part.value]));
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    afterClose: Number(parts.hour) * 60 + Number(parts.minute) >= MARKET_CLOSE_MINUTES
+  };
+};
+
+/**
+ * Bucket articles into trading days. News published after the close, or on
+ * a weekend or holiday, counts towards the next session the market is open,
+ * so it is never paired with a return that had already started.
+ */
+export function buildDailySentiment(articles: SentimentHistoryArticle[], tradingDates: string[]): DailySentiment[] {
+  const buckets = new Map<string, { weighted: number; weight: number; count: number }>();
+
+  articles.forEach(article => {
+    const published = toMarketTime(article.publishedAt);
+    const date = tradingDates.find(tradingDate =>
+      published.afterClose ? tradingDate > published.date : tradingDate >= published.date
+    );
+    if (!date) return;
+
+    const bucket = buckets.get(date) || { weighted: 0, weight: 0, count: 0 };
+    // a confidently scored article moves the day more than a borderline one
+    const weight = Math.max(article.confidence, 0.01);
+    bucket.weighted += netSentiment(article.probabilities) * weight;
+    bucket.weight += weight;
+    bucket.count += 1;
+    buckets.set(date, bucket);
+  });
+
+  return Array.from(buckets.entries())
+    .map(([date, bucket]) => ({
+      date,
+      score: bucket.weighted / bucket.weight,
+      articleCount: bucket.count
+    }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Pair each day's sentiment with the close-to-close return `horizon` trading days later
+ */
+export function pairWithForwardReturns(
+  daily: DailySentiment[],
+  bars: PriceBar[],
+  horizon: ReturnHorizon
+): SentimentReturnPoint[] {
+  const indexByDate = new Map(bars.map((bar, index) => [bar.date, index]));
+
+  return daily.flatMap(day => {
+    const index = indexByDate.get(day.date);
+    if (index === undefined || index + horizon >= bars.length) return [];
+
+    const start = bars[index].adjustedClose;
+    const end = bars[index + horizon].adjustedClose;
+    if (!(start > 0)) return [];
+
+    return [{ date: day.date, score: day.score, forwardReturn: end / start - 1 }];
+  });
+}
+
+/**
+ * Pearson correlation coefficient, null with fewer than 3 points or no variance
+ */
+export function pearson(xs: number[], ys: number[]): number | null {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 3) return null;
+
+  const meanX = xs.slice(0, n).reduce((sum, value) => sum + value, 0) / n;
+  const meanY = ys.slice(0, n).reduce((sum, value) => sum + value, 0) / n;
+
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  for (let index = 0; index < n; index++) {
+    const dx = xs[index] - meanX;
+    const dy = ys[index] - meanY;
+    covariance += dx * dy;
+    varianceX += dx * dx;
+    varianceY += dy * dy;
+  }
+
+  if (varianceX === 0 || varianceY === 0) return null;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Share of days where the sign of sentiment matched the sign of the forward return.
+ * Days with (near-)zero sentiment make no call and are left out.
+ */
+export function hitRate(points: SentimentReturnPoint[], deadband = 0.05): { rate: number | null; calls: number } {
+  const calls = points.filter(point => Math.abs(point.score) > deadband);
+  if (calls.length === 0) return { rate: null, calls: 0 };
+
+  const hits = calls.filter(point => Math.sign(point.score) === Math.sign(point.forwardReturn)).length;
+  return { rate: hits / calls.length, calls: calls.length };
+}
+
+/**
+ * Average cumulative return around strongly positive and strongly negative
+ * sentiment days, measured from the event day's close
+ */
+export function eventStudy(daily: DailySentiment[], bars: PriceBar[], threshold = 0.5, window = 5): EventStudy {
+  const indexByDate = new Map(bars.map((bar, index) => [bar.date, index]));
+  const offsets = Array.from({ length: window * 2 + 1 }, (_, index) => index - window);
+
+  const average = (events: DailySentiment[]) => {
+    const sums = offsets.map(() => ({ total: 0, count: 0 }));
+
+    events.forEach(event => {
+      const index = indexByDate.get(event.date);
+      if (index === undefined) return;
+
+      const base = bars[index].adjustedClose;
+      if (!(base > 0)) return;
+
+      offsets.forEach((offset, position) => {
+        const bar = bars[index + offset];
+        if (!bar) return;
+        sums[position].total += bar.adjustedClose / base - 1;
+        sums[position].count += 1;
+      });
+    });
+
+    return sums.map(({ total, count }) => count > 0 ? total / count : null);
+  };
+
+  const positiveEvents = daily.filter(day => day.score >= threshold && indexByDate.has(day.date));
+  const negativeEvents = daily.filter(day => day.score <= -threshold && indexByDate.has(day.date));
+
+  return {
+    offsets,
+    positive: average(positiveEvents),
+    negative: average(negativeEvents),
+    positiveCount: positiveEvents.length,
+    negativeCount: negativeEvents.length
+  };
+}
@@ -0,0 +1,80 @@
+import { Attribution, SentimentScore, netSentiment } from './sentiment';
+
+/**
+ * Explanations for why a text got its sentiment, as signed spans of the text
+ */
+
+export interface WordSpan {
+  start: number;
+  end: number;
+}
+
+// words removed together in each occlusion; larger chunks mean fewer requests
+const OCCLUSION_CHUNK_WORDS = 3;
+// texts longer than this are explained in coarser chunks to cap the request count
+const MAX_OCCLUSION_REQUESTS = 24;
+
+const wordSpans = (text: string): WordSpan[] =>
+  Array.from(text.matchAll(/\S+/g), match => ({ start: match.index ?? 0, end: (match.index ?? 0) + match[0].length }));
+
+/**
+ * Leave-one-out attribution: re-score the text with each chunk of words
+ * removed. A chunk's weight is how much the net score drops without it,
+ * so words that pushed the score up come out positive.
+ */
+export async function explainByOcclusion(
+  text: string,
+  base: SentimentScore,
+  analyze: (text: string) => Promise<SentimentScore>,
+  concurrency = 3
+): Promise<Attribution[]> {
+  const words = wordSpans(text);
+  const chunkWords = Math.max(OCCLUSION_CHUNK_WORDS, Math.ceil(words.length / MAX_OCCLUSION_REQUESTS));
+  const chunks: WordSpan[] = [];
+
+  for (let index = 0; index < words.length; index += chunkWords) {
+    const group = words.slice(index, index + chunkWords);
+    chunks.push({ start: group[0].start, end: group[group.length - 1].end });
+  }
+
+  const baseNet = netSentiment(base.probabilities);
+  const attributions: Attribution[] = new Array(chunks.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < chunks.length) {
+      const index = next++;
+      const { start, end } = chunks[index];
+      const occluded = `${text.slice(0, start)}${text.slice(end)}`.replace(/\s+/g, ' ').trim();
+      const score = await analyze(occluded);
+
+      attributions[index] = {
+        start,
+        end,
+        text: text.slice(start, end),
+        weight: baseNet - netSentiment(score.probabilities)
+      };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+  return attributions;
+}
+
+/**
+ * The most influential spans across several texts, each scaled by its
+ * text's weight in the aggregate
+ */
+export function topDrivers(
+  items: Array<{ attributions?: Attribution[]; weight: number }>,
+  count = 5
+): Attribution[] {
+  return items
+    .flatMap(({ attributions, weight }) => (attributions || []).map(attribution => ({
+      ...attribution,
+      weight: attribution.weight * weight
+    })))
+    .filter(attribution => Math.abs(attribution.weight) > 0.001)
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+    .slice(0, count);
+}
@@ -0,0 +1,113 @@
+import { SentimentLabel, SentimentProbabilities } from './sentiment';
+
+export interface SentimentHistoryArticle {
+  title: string;
+  url: string;
+  source: string;
+  publishedAt: string;
+  sentiment: SentimentLabel;
+  confidence: number;
+  probabilities: SentimentProbabilities;
+  /** Share of the aggregate this article carried */
+  weight: number;
+}
+
+export interface SentimentHistoryEntry {
+  id: string;
+  ticker: string;
+  /** ISO timestamp of when the analysis ran */
+  timestamp: string;
+  sentiment: SentimentLabel;
+  confidence: number;
+  probabilities: SentimentProbabilities;
+  model: string;
+  /** The chosen provider was unavailable and the offline lexicon was used */
+  fallback?: boolean;
+  articles: SentimentHistoryArticle[];
+}
+
+const STORAGE_KEY = 'marketmaker.sentimentHistory';
+
+// localStorage is ~5MB per origin; this keeps history well inside it
+const MAX_ENTRIES_PER_TICKER = 200;
+
+/**
+ * Every sentiment analysis that has run in this browser, grouped by ticker.
+ * Kept in localStorage so history builds up across sessions.
+ */
+export class SentimentHistoryStore {
+  private listeners = new Set<(ticker: string) => void>();
+
+  /**
+   * Entries for a ticker, oldest first
+   */
+  getEntries(ticker: string): SentimentHistoryEntry[] {
+    return this.read()[ticker.toUpperCase()] || [];
+  }
+
+  getTickers(): string[] {
+    return Object.keys(this.read()).sort();
+  }
+
+  add(entry: Omit<SentimentHistoryEntry, 'id'>): SentimentHistoryEntry {
+    const ticker = entry.ticker.toUpperCase();
+    const stored: SentimentHistoryEntry = {
+      ...entry,
+      ticker,
+      id: `${ticker}-${Date.parse(entry.timestamp) || Date.now()}`
+    };
+
+    const history = this.read();
+    history[ticker] = [...(history[ticker] || []), stored]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(-MAX_ENTRIES_PER_TICKER);
+
+    this.write(history);
+    this.notify(ticker);
+    return stored;
+  }
+
+  clear(ticker: string) {
+    const history = this.read();
+    delete history[ticker.toUpperCase()];
+
+    this.write(history);
+    this.notify(ticker.toUpperCase());
+  }
+
+  /**
+   * Called with the ticker whenever its history changes
+   */
+  subscribe(listener: (ticker: string) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private read(): Record<string, SentimentHistoryEntry[]> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+      return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+    } catch {
+      return {};
+    }
+  }
+
+  private write(history: Record<string, SentimentHistoryEntry[]>) {
+    if (typeof window === 'undefined') return;
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(history));
+    } catch {
+      // storage full or disabled - history just isn't kept
+    }
+  }
+
+  private notify(ticker: string) {
+    this.listeners.forEach(listener => listener(ticker));
+  }
+}
+
+export const sentimentHistory = new SentimentHistoryStore();
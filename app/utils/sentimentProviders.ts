@@ -0,0 +1,132 @@
+import axios from 'axios';
+import {
+  SentimentScore,
+  analyzeText,
+  getSentimentErrorMessage,
+  requestAnalysis,
+  toProbabilities,
+  toScore
+} from './sentiment';
+import { scoreWithLexicon } from './lexiconSentiment';
+
+export type SentimentProviderId = 'finbert' | 'lexicon' | 'llm';
+
+export interface SentimentProvider {
+  id: SentimentProviderId;
+  label: string;
+  description: string;
+  analyze: (text: string, timeout?: number) => Promise<SentimentScore>;
+  /** Providers that are off unless the server is configured for them */
+  checkAvailable?: () => Promise<boolean>;
+}
+
+export const SENTIMENT_PROVIDERS: Record<SentimentProviderId, SentimentProvider> = {
+  finbert: {
+    id: 'finbert',
+    label: 'FinBERT',
+    description: 'Fine-tuned FinBERT model on the Flask backend',
+    analyze: (text, timeout = 30000) => analyzeText(text, timeout)
+  },
+  lexicon: {
+    id: 'lexicon',
+    label: 'Lexicon',
+    description: 'Loughran-McDonald style word lists, runs in the browser with no backend',
+    analyze: async text => {
+      const result = scoreWithLexicon(text);
+      return {
+        ...toScore(toProbabilities(result.predictions), result.model),
+        // the matched terms are exactly what drove the score
+        attributions: result.matches.map(match => ({
+          start: match.start,
+          end: match.end,
+          text: match.term,
+          weight: match.weight
+        }))
+      };
+    }
+  },
+  llm: {
+    id: 'llm',
+    label: 'LLM',
+    description: 'Any OpenAI-compatible chat model, configured on the server',
+    analyze: (text, timeout = 30000) => requestAnalysis('/api/llm-sentiment', text, timeout),
+    checkAvailable: () => axios.get<{ enabled?: boolean }>('/api/llm-sentiment', { timeout: 10000 })
+      .then(response => response.data.enabled === true)
+      .catch(() => false)
+  }
+};
+
+/**
+ * Score with a provider, falling back to the offline lexicon if it fails
+ * (backend asleep, unreachable, timed out or not configured). The result
+ * carries `fallback` so the UI can say where the label came from.
+ */
+export async function analyzeWithFallback(
+  id: SentimentProviderId,
+  text: string,
+  timeout?: number
+): Promise<SentimentScore> {
+  const provider = SENTIMENT_PROVIDERS[id];
+
+  try {
+    return await provider.analyze(text, timeout);
+  } catch (err) {
+    if (id === 'lexicon') throw err;
+
+    return {
+      ...(await SENTIMENT_PROVIDERS.lexicon.analyze(text)),
+      fallback: {
+        provider: provider.label,
+        reason: getSentimentErrorMessage(err, `${provider.label} backend unavailable`)
+      }
+    };
+  }
+}
+
+export const SENTIMENT_PROVIDER_IDS = Object.keys(SENTIMENT_PROVIDERS) as SentimentProviderId[];
+
+let availableProviders: Promise<SentimentProviderId[]> | null = null;
+
+/**
+ * Providers that can score right now, checked once per page load
+ */
+export function loadAvailableProviders(): Promise<SentimentProviderId[]> {
+  if (!availableProviders) {
+    availableProviders = Promise.all(SENTIMENT_PROVIDER_IDS.map(async id => {
+      const { checkAvailable } = SENTIMENT_PROVIDERS[id];
+      return !checkAvailable || await checkAvailable() ? [id] : [];
+    })).then(ids => ids.flat());
+  }
+  return availableProviders;
+}
+
+export const DEFAULT_PROVIDER_ID: SentimentProviderId = 'finbert';
+
+const STORAGE_KEY = 'marketmaker.sentimentProvider';
+
+const isProviderId = (value: unknown): value is SentimentProviderId =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(SENTIMENT_PROVIDERS, value);
+
+/**
+ * The provider picked last time, shared by the dashboard and the analyze page
+ */
+export function loadProviderPreference(): SentimentProviderId {
+  if (typeof window === 'undefined') return DEFAULT_PROVIDER_ID;
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isProviderId(stored) ? stored : DEFAULT_PROVIDER_ID;
+  } catch {
+    return DEFAULT_PROVIDER_ID;
+  }
+}
+
+export function saveProviderPreference(id: SentimentProviderId) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, id);
+  } catch {
+    // storage disabled - the choice only lasts this page view
+  }
+}
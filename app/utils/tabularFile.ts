@@ -0,0 +1,135 @@
+/**
+ * Reading and writing the CSV / JSONL files used for bulk scoring.
+ * Rows are plain string-keyed records so both formats round-trip.
+ */
+
+export type TabularRow = Record<string, string>;
+
+export interface TabularData {
+  columns: string[];
+  rows: TabularRow[];
+}
+
+export type TabularFormat = 'csv' | 'jsonl';
+
+/**
+ * Parse RFC 4180 CSV: quoted fields may contain commas, newlines and
+ * doubled quotes. The first row is the header.
+ */
+export function parseCsv(content: string): TabularData {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // strip a UTF-8 BOM from spreadsheet exports
+  const text = content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+
+    if (inQuotes) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const [header = [], ...body] = records.filter(row => row.some(value => value.trim()));
+  const columns = header.map((name, index) => name.trim() || `column_${index + 1}`);
+
+  return {
+    columns,
+    rows: body.map(values => Object.fromEntries(columns.map((column, index) => [column, values[index] ?? ''])))
+  };
+}
+
+/**
+ * Parse JSON Lines; nested values are kept as JSON strings
+ */
+export function parseJsonl(content: string): TabularData {
+  const columns: string[] = [];
+  const rows = content
+    .split(/\r?\n/)
+    .filter(line => line.trim())
+    .map((line, index) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(line);
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`);
+      }
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        throw new Error(`Line ${index + 1} is not a JSON object`);
+      }
+
+      return Object.fromEntries(Object.entries(parsed).map(([key, value]) => {
+        if (!columns.includes(key)) columns.push(key);
+        return [key, typeof value === 'string' ? value : value === null || value === undefined ? '' : JSON.stringify(value)];
+      }));
+    });
+
+  return { columns, rows };
+}
+
+/**
+ * Pick the parser from the file extension, defaulting to CSV
+ */
+export function parseTabularFile(fileName: string, content: string): TabularData {
+  return /\.(jsonl|ndjson)$/i.test(fileName) ? parseJsonl(content) : parseCsv(content);
+}
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv({ columns, rows }: TabularData): string {
+  return [
+    columns.map(escapeCsvField).join(','),
+    ...rows.map(row => columns.map(column => escapeCsvField(row[column] ?? '')).join(','))
+  ].join('\r\n');
+}
+
+export function toJsonl({ columns, rows }: TabularData): string {
+  return rows
+    .map(row => JSON.stringify(Object.fromEntries(columns.map(column => [column, row[column] ?? '']))))
+    .join('\n');
+}
+
+/**
+ * Save data as a file download in the browser
+ */
+export function downloadTabularFile(data: TabularData, format: TabularFormat, baseName: string) {
+  const content = format === 'csv' ? toCsv(data) : toJsonl(data);
+  const blob = new Blob([content], { type: format === 'csv' ? 'text/csv' : 'application/x-ndjson' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${format}`;
+  link.click();
+
+  URL.revokeObjectURL(url);
+}
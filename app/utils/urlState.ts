@@ -0,0 +1,69 @@
+'use client';
+
+import { useSearchParams } from 'next/navigation';
+
+/**
+ * Card settings kept in the dashboard's query string, so a link like
+ * /dashboard/NVDA?eps=quarterly&range=5Y reopens the same view.
+ * Settings replace the current history entry; only changing the ticker
+ * pushes a new one, so back/forward moves between analyzed tickers.
+ */
+
+export interface QueryCodec<T> {
+  /** Return null for values that aren't valid, so the default is used */
+  parse: (raw: string) => T | null;
+  serialize: (value: T) => string;
+}
+
+/**
+ * Codec for one of a fixed set of options, string or number
+ */
+export function optionCodec<T extends string | number>(options: readonly T[]): QueryCodec<T> {
+  return {
+    parse: raw => options.find(option => String(option) === raw) ?? null,
+    serialize: value => String(value)
+  };
+}
+
+/**
+ * Codec for a comma-separated list of tickers, uppercased and without duplicates
+ */
+export function tickerListCodec(max: number): QueryCodec<string[]> {
+  return {
+    parse: raw => Array.from(new Set(
+      raw.split(',')
+        .map(ticker => ticker.trim().toUpperCase())
+        .filter(ticker => /^[A-Z0-9.\-]{1,12}$/.test(ticker))
+    )).slice(0, max),
+    serialize: value => value.join(',')
+  };
+}
+
+export const dashboardPath = (ticker: string) => `/dashboard/${encodeURIComponent(ticker.trim().toUpperCase())}`;
+
+/**
+ * Like useState, but read from and written to one query-string parameter.
+ * The parameter is dropped while the value equals the default, to keep links short.
+ */
+export function useQueryState<T>(key: string, defaultValue: T, codec: QueryCodec<T>): [T, (value: T) => void] {
+  const searchParams = useSearchParams();
+  const raw = searchParams.get(key);
+  const value = raw === null ? defaultValue : codec.parse(raw) ?? defaultValue;
+
+  const setValue = (next: T) => {
+    const params = new URLSearchParams(window.location.search);
+    const serialized = codec.serialize(next);
+
+    if (serialized === codec.serialize(defaultValue)) {
+      params.delete(key);
+    } else {
+      params.set(key, serialized);
+    }
+
+    // Next.js keeps useSearchParams in sync with the native history API
+    const query = params.toString();
+    window.history.replaceState(null, '', `${window.location.pathname}${query ? `?${query}` : ''}`);
+  };
+
+  return [value, setValue];
+}
@@ -0,0 +1,208 @@
+import axios from 'axios';
+import { CompanyOverview, Quote } from './fundamentals';
+
+export interface Watchlist {
+  id: string;
+  name: string;
+  tickers: string[];
+}
+
+export interface WatchlistDocument {
+  lists: Watchlist[];
+  /** Epoch ms of the last change, to tell which copy is newer when syncing */
+  updatedAt: number;
+}
+
+/** Last known market data for a ticker, kept so the table isn't empty on reload */
+export interface TickerSnapshot {
+  quote?: Quote;
+  quoteUpdatedAt?: number;
+  overview?: CompanyOverview;
+  overviewUpdatedAt?: number;
+  error?: string;
+  /** When the last refresh of this row was tried, successful or not */
+  lastAttemptAt?: number;
+  /** Refreshes failed in a row, for backing off bad tickers */
+  failures?: number;
+}
+
+const STORAGE_KEY = 'marketmaker.watchlists';
+const SNAPSHOT_STORAGE_KEY = 'marketmaker.watchlistSnapshots';
+
+const MAX_LISTS = 50;
+const MAX_TICKERS_PER_LIST = 200;
+const TICKER_PATTERN = /^[A-Z0-9.\-]{1,12}$/;
+
+/**
+ * Validate a watchlist document from storage or a request body,
+ * dropping anything malformed; null if it isn't a document at all
+ */
+export function sanitizeWatchlists(value: any): WatchlistDocument | null {
+  if (!value || !Array.isArray(value.lists)) return null;
+
+  const lists = value.lists
+    .filter((list: any) => list && typeof list.id === 'string' && typeof list.name === 'string' && Array.isArray(list.tickers))
+    .slice(0, MAX_LISTS)
+    .map((list: any) => ({
+      id: list.id,
+      name: list.name.trim().substring(0, 60) || 'Watchlist',
+      tickers: Array.from(new Set<string>(
+        list.tickers
+          .filter((ticker: unknown): ticker is string => typeof ticker === 'string')
+          .map((ticker: string) => ticker.trim().toUpperCase())
+          .filter((ticker: string) => TICKER_PATTERN.test(ticker))
+      )).slice(0, MAX_TICKERS_PER_LIST)
+    }));
+
+  return { lists, updatedAt: typeof value.updatedAt === 'number' ? value.updatedAt : 0 };
+}
+
+/**
+ * Named ticker lists kept in localStorage, and mirrored to `/api/watchlists`
+ * when the server has storage configured. The newer copy wins on sync.
+ */
+export class WatchlistStore {
+  private listeners = new Set<(lists: Watchlist[]) => void>();
+  // flips off after the first "not configured" answer so we stop asking
+  private serverEnabled = true;
+
+  getLists(): Watchlist[] {
+    return this.read().lists;
+  }
+
+  create(name: string): Watchlist {
+    const list: Watchlist = {
+      id: `list-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 6)}`,
+      name: name.trim() || 'Watchlist',
+      tickers: []
+    };
+
+    this.update(lists => [...lists, list]);
+    return list;
+  }
+
+  rename(id: string, name: string) {
+    if (!name.trim()) return;
+    this.update(lists => lists.map(list => list.id === id ? { ...list, name: name.trim() } : list));
+  }
+
+  remove(id: string) {
+    this.update(lists => lists.filter(list => list.id !== id));
+  }
+
+  addTicker(id: string, ticker: string) {
+    const symbol = ticker.trim().toUpperCase();
+    if (!TICKER_PATTERN.test(symbol)) return;
+
+    this.update(lists => lists.map(list =>
+      list.id === id && !list.tickers.includes(symbol) ? { ...list, tickers: [...list.tickers, symbol] } : list
+    ));
+  }
+
+  removeTicker(id: string, ticker: string) {
+    this.update(lists => lists.map(list =>
+      list.id === id ? { ...list, tickers: list.tickers.filter(item => item !== ticker) } : list
+    ));
+  }
+
+  /**
+   * Pull the server copy if it's newer than ours, push ours if it's newer.
+   * Returns whether server storage is available.
+   */
+  async sync(): Promise<boolean> {
+    if (!this.serverEnabled) return false;
+
+    try {
+      const response = await axios.get<WatchlistDocument>('/api/watchlists');
+      const remote = sanitizeWatchlists(response.data);
+      const local = this.read();
+
+      if (remote && remote.updatedAt > local.updatedAt) {
+        this.write(remote);
+        this.notify();
+      } else if (local.updatedAt > (remote?.updatedAt ?? 0)) {
+        await this.push(local);
+      }
+      return true;
+    } catch (error) {
+      this.handleServerError(error);
+      return false;
+    }
+  }
+
+  subscribe(listener: (lists: Watchlist[]) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(change: (lists: Watchlist[]) => Watchlist[]) {
+    const document = { lists: change(this.read().lists), updatedAt: Date.now() };
+
+    this.write(document);
+    this.notify();
+
+    if (this.serverEnabled) {
+      this.push(document).catch(error => this.handleServerError(error));
+    }
+  }
+
+  private async push(document: WatchlistDocument) {
+    await axios.put('/api/watchlists', document);
+  }
+
+  private handleServerError(error: unknown) {
+    // 501: no server storage, the lists simply stay in this browser
+    if (axios.isAxiosError(error) && error.response?.status === 501) {
+      this.serverEnabled = false;
+    }
+  }
+
+  private read(): WatchlistDocument {
+    if (typeof window === 'undefined') return { lists: [], updatedAt: 0 };
+
+    try {
+      return sanitizeWatchlists(JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null')) || { lists: [], updatedAt: 0 };
+    } catch {
+      return { lists: [], updatedAt: 0 };
+    }
+  }
+
+  private write(document: WatchlistDocument) {
+    if (typeof window === 'undefined') return;
+
+    try {
+      window.localStorage.setItem(STORAGE_KEY, JSON.stringify(document));
+    } catch {
+      // storage full or disabled - lists last for this session only
+    }
+  }
+
+  private notify() {
+    const lists = this.getLists();
+    this.listeners.forEach(listener => listener(lists));
+  }
+}
+
+export const watchlists = new WatchlistStore();
+
+export function loadSnapshots(): Record<string, TickerSnapshot> {
+  if (typeof window === 'undefined') return {};
+
+  try {
+    return JSON.parse(window.localStorage.getItem(SNAPSHOT_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveSnapshots(snapshots: Record<string, TickerSnapshot>) {
+  if (typeof window === 'undefined') return;
+
+  try {
+    window.localStorage.setItem(SNAPSHOT_STORAGE_KEY, JSON.stringify(snapshots));
+  } catch {
+    // storage full or disabled - data is fetched again next visit
+  }
+}
@@ -0,0 +1,20 @@
+import WatchlistManager from '../components/WatchlistManager';
+import Navigation from '../components/Navigation';
+
+export default function WatchlistsPage() {
+    return (
+        <div className="min-h-screen flex flex-col bg-neutral-900">
+            <Navigation />
+            <div className="flex-1 p-4">
+                <div className="max-w-6xl mx-auto w-full flex flex-col">
+                    <h1 className="text-3xl font-bold mb-4 text-center text-white flex-shrink-0">
+                        Watchlists
+                    </h1>
+                    <div className="flex-1">
+                        <WatchlistManager />
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}